@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server'
-import { GoogleGenAI } from '@google/genai'
+import { getAIProvider } from '@/lib/ai-services/providers'
 
 export async function POST(req: Request) {
   try {
@@ -18,15 +18,13 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: 'Missing GEMINI_API_KEY' }, { status: 500 })
     }
 
-    const ai = new GoogleGenAI({ apiKey })
-
-    // NOTE: The SDK returns an object with a .text property for the content
-    const response = await ai.models.generateContent({
+    const text = await getAIProvider().generateText(apiKey, {
+      prompt,
       model: model || 'gemini-2.0-flash-001',
-      contents: prompt,
+      purpose: 'api-text',
     })
 
-    return NextResponse.json({ text: response.text })
+    return NextResponse.json({ text })
   } catch (err: any) {
     console.error('[API][GENAI][TEXT] Error:', err)
 
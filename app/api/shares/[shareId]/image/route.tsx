@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ImageResponse } from "next/og";
+import { shareStore } from "@/lib/sharing/share-store";
+import { SHARE_IMAGE_SIZE } from "@/lib/sharing/share-metadata";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// ImageResponse fetches any URL it is given, so only inline images are drawn
+const INLINE_COVER_PATTERN = /^data:image\/(png|jpeg|webp);base64,/;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { shareId: string } }
+) {
+  try {
+    const share = await shareStore.load(params.shareId);
+
+    if (!share) {
+      return NextResponse.json(
+        { error: "This story link does not exist or has expired" },
+        { status: 404 }
+      );
+    }
+
+    const { story } = share;
+    const cover =
+      typeof story.coverImage === "string" &&
+      INLINE_COVER_PATTERN.test(story.coverImage)
+        ? story.coverImage
+        : null;
+
+    // Cover fills the card edge to edge, cropped to the landscape frame
+    return new ImageResponse(
+      (
+        <div
+          style={{
+            width: "100%",
+            height: "100%",
+            display: "flex",
+            position: "relative",
+            backgroundColor: "#fde047",
+          }}
+        >
+          {cover && (
+            <img
+              src={cover}
+              alt=""
+              width={SHARE_IMAGE_SIZE.width}
+              height={SHARE_IMAGE_SIZE.height}
+              style={{ objectFit: "cover", position: "absolute", top: 0, left: 0 }}
+            />
+          )}
+          <div
+            style={{
+              position: "absolute",
+              left: 0,
+              right: 0,
+              bottom: 0,
+              display: "flex",
+              flexDirection: "column",
+              padding: "48px 56px 40px",
+              backgroundImage:
+                "linear-gradient(to bottom, rgba(0,0,0,0), rgba(0,0,0,0.8))",
+              color: "white",
+            }}
+          >
+            <div style={{ fontSize: 64, fontWeight: 800, lineHeight: 1.1 }}>
+              {story.title}
+            </div>
+            <div style={{ fontSize: 28, marginTop: 12, opacity: 0.9 }}>
+              A MemoryTales.ai storybook
+            </div>
+          </div>
+        </div>
+      ),
+      {
+        ...SHARE_IMAGE_SIZE,
+        // Like the story itself, the card stops loading as soon as the link is revoked
+        headers: { "Cache-Control": "no-store" },
+      }
+    );
+  } catch (error: any) {
+    console.error("Error rendering share image:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to render share image" },
+      { status: 500 }
+    );
+  }
+}
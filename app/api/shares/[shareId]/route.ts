@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { shareStore } from "@/lib/sharing/share-store";
+import { summarizeShare } from "@/lib/sharing/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { shareId: string } }
+) {
+  try {
+    const share = await shareStore.load(params.shareId);
+
+    if (!share) {
+      return NextResponse.json(
+        { error: "This story link does not exist or has expired" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      share: summarizeShare(share),
+      story: share.story,
+    });
+  } catch (error: any) {
+    console.error("Error loading shared story:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to load shared story" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { shareId: string } }
+) {
+  try {
+    const { revokeToken } = await request.json().catch(() => ({}));
+
+    if (!revokeToken || typeof revokeToken !== "string") {
+      return NextResponse.json(
+        { error: "Revoke token is required" },
+        { status: 400 }
+      );
+    }
+
+    const revoked = await shareStore.revoke(params.shareId, revokeToken);
+
+    if (!revoked) {
+      return NextResponse.json(
+        { error: "Share not found or revoke token is invalid" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Error revoking shared story:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to revoke shared story" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { shareStore } from "@/lib/sharing/share-store";
+import { getPrivateShareFields, summarizeShare } from "@/lib/sharing/types";
+
+export const runtime = "nodejs";
+
+const MAX_EXPIRY_DAYS = 365;
+// Room for a long book of illustrations, but not for arbitrary uploads
+const MAX_SHARE_BYTES = 40 * 1024 * 1024;
+
+export async function POST(request: NextRequest) {
+  try {
+    const declaredLength = Number(request.headers.get("content-length") || 0);
+    if (declaredLength > MAX_SHARE_BYTES) {
+      return NextResponse.json(
+        { error: "This story is too large to share" },
+        { status: 413 }
+      );
+    }
+
+    const text = await request.text();
+    if (Buffer.byteLength(text) > MAX_SHARE_BYTES) {
+      return NextResponse.json(
+        { error: "This story is too large to share" },
+        { status: 413 }
+      );
+    }
+
+    let body: any;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const { story, expiresInDays = null } = body || {};
+
+    if (
+      !story ||
+      !story.id ||
+      !story.title ||
+      !Array.isArray(story.pages) ||
+      !Array.isArray(story.characters) ||
+      !story.config
+    ) {
+      return NextResponse.json(
+        { error: "A complete story is required" },
+        { status: 400 }
+      );
+    }
+
+    // Older or modified clients might still send photos or the reader's details
+    const privateFields = getPrivateShareFields(story);
+    if (privateFields.length > 0) {
+      return NextResponse.json(
+        { error: `Shared stories can't include ${privateFields.join(" or ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      expiresInDays !== null &&
+      (typeof expiresInDays !== "number" || expiresInDays <= 0 || expiresInDays > MAX_EXPIRY_DAYS)
+    ) {
+      return NextResponse.json(
+        { error: `expiresInDays must be between 1 and ${MAX_EXPIRY_DAYS}, or null` },
+        { status: 400 }
+      );
+    }
+
+    const { share, revokeToken } = await shareStore.create(story, expiresInDays);
+
+    return NextResponse.json(
+      { success: true, share: summarizeShare(share), revokeToken },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error("Error publishing story:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to publish story" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { storyJobRunner } from "@/lib/jobs/story-job-runner";
+import { summarizeJob } from "@/lib/jobs/types";
+
+export const runtime = "nodejs";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const job = await storyJobRunner.cancelJob(params.jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, job: summarizeJob(job) });
+  } catch (error: any) {
+    console.error("Error cancelling story job:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to cancel story job" },
+      { status: 500 }
+    );
+  }
+}
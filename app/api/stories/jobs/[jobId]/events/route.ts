@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { storyJobRunner } from "@/lib/jobs/story-job-runner";
+import { FINAL_JOB_STATUSES, StoryJobSummary, summarizeJob } from "@/lib/jobs/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Server-Sent Events stream of job progress. Sends the current state immediately,
+// then every update until the job reaches a final status.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  const job = await storyJobRunner.getJob(params.jobId);
+
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const send = (summary: StoryJobSummary) => {
+        if (closed) return;
+        controller.enqueue(
+          encoder.encode(`event: progress\ndata: ${JSON.stringify(summary)}\n\n`)
+        );
+        if (FINAL_JOB_STATUSES.includes(summary.status)) {
+          close();
+        }
+      };
+
+      // Comment lines keep proxies from closing an idle connection
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": keep-alive\n\n"));
+      }, 15000);
+
+      const unsubscribe = storyJobRunner.subscribe(params.jobId, send);
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        controller.close();
+      };
+
+      cleanup = close;
+      request.signal.addEventListener("abort", close);
+
+      send(summarizeJob(job));
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
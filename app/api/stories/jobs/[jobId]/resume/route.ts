@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { storyJobRunner } from "@/lib/jobs/story-job-runner";
+import { summarizeJob } from "@/lib/jobs/types";
+
+export const runtime = "nodejs";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const { apiKey } = await request.json();
+
+    if (!apiKey || typeof apiKey !== "string") {
+      return NextResponse.json(
+        { error: "API key is required" },
+        { status: 400 }
+      );
+    }
+
+    const job = await storyJobRunner.resumeJob(params.jobId, apiKey);
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, job: summarizeJob(job) });
+  } catch (error: any) {
+    console.error("Error resuming story job:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to resume story job" },
+      { status: 409 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { storyJobRunner } from "@/lib/jobs/story-job-runner";
+import { summarizeJob } from "@/lib/jobs/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const job = await storyJobRunner.getJob(params.jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    // The full story (with images) is only returned once, when it is done
+    return NextResponse.json({
+      success: true,
+      job: summarizeJob(job),
+      config: job.config,
+      characters: job.characters,
+      story: job.status === "completed" ? job.result : undefined,
+    });
+  } catch (error: any) {
+    console.error("Error loading story job:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to load story job" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { storyJobRunner } from "@/lib/jobs/story-job-runner";
+import { summarizeJob } from "@/lib/jobs/types";
+import {
+  ParentalControlsError,
+  getParentalViolations,
+} from "@/lib/parental/parental-controls";
+import {
+  contentModerator,
+  describeIssues,
+  getAgeGroup,
+  getInputTexts,
+  getScriptTexts,
+} from "@/lib/safety";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { apiKey, config, characters, storyData, usage, parentalControls } = body;
+
+    if (!apiKey || typeof apiKey !== "string") {
+      return NextResponse.json(
+        { error: "API key is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!config || !config.prompt) {
+      return NextResponse.json(
+        { error: "Story config with a prompt is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(characters)) {
+      return NextResponse.json(
+        { error: "Characters are required" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      storyData !== undefined &&
+      (!storyData || typeof storyData.title !== "string" || !Array.isArray(storyData.pages))
+    ) {
+      return NextResponse.json(
+        { error: "Story script must have a title and pages" },
+        { status: 400 }
+      );
+    }
+
+    if (usage !== undefined && !Array.isArray(usage)) {
+      return NextResponse.json(
+        { error: "Usage must be a list of entries" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      parentalControls &&
+      (!Array.isArray(parentalControls.allowedAgeGroups) ||
+        !Array.isArray(parentalControls.allowedThemes) ||
+        typeof parentalControls.maxPageCount !== "number")
+    ) {
+      return NextResponse.json(
+        { error: "Parental controls are malformed" },
+        { status: 400 }
+      );
+    }
+
+    const violations = parentalControls
+      ? getParentalViolations(config, characters, parentalControls)
+      : [];
+    if (violations.length > 0) {
+      return NextResponse.json(
+        { error: new ParentalControlsError(violations).message, violations },
+        { status: 403 }
+      );
+    }
+
+    // Local rules only; the job runs the full check before writing anything
+    const issues = contentModerator.checkLocally(
+      [...getInputTexts(config, characters), ...(storyData ? getScriptTexts(storyData) : [])],
+      getAgeGroup(config)
+    );
+    if (issues.length > 0) {
+      return NextResponse.json(
+        { error: describeIssues(issues), issues },
+        { status: 422 }
+      );
+    }
+
+    const job = await storyJobRunner.createJob(
+      apiKey,
+      config,
+      characters,
+      storyData,
+      usage,
+      parentalControls
+    );
+
+    return NextResponse.json(
+      { success: true, job: summarizeJob(job) },
+      { status: 202 }
+    );
+  } catch (error: any) {
+    console.error("Error creating story job:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to create story job" },
+      { status: 500 }
+    );
+  }
+}
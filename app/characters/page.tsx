@@ -0,0 +1,529 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ArrowLeft,
+  Check,
+  Clock,
+  Layers,
+  RefreshCw,
+  Save,
+  Trash2,
+  Users,
+} from "lucide-react";
+import { toast } from "sonner";
+import ApiKeyModal from "@/components/ui/api-key-modal";
+import TurnaroundSheet from "@/components/character/turnaround-sheet";
+import { StoryStyle } from "@/lib/types";
+import {
+  characterStorage,
+  StoredCharacter,
+} from "@/lib/storage/character-storage";
+import { geminiService } from "@/lib/ai-services/gemini-service";
+import { STORY_STYLES } from "@/lib/story-options";
+import { cn } from "@/lib/utils";
+
+export default function CharactersPage() {
+  const [characters, setCharacters] = useState<StoredCharacter[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState({
+    name: "",
+    description: "",
+    generatedDescription: "",
+  });
+  const [designStyle, setDesignStyle] = useState<StoryStyle>("comic");
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [turnaroundStep, setTurnaroundStep] = useState<string | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [apiKey, setApiKey] = useState<string | null>(null);
+  const [showApiKeyModal, setShowApiKeyModal] = useState(false);
+  const pendingApiKeyAction = useRef<((key: string) => void) | null>(null);
+
+  const selected = characters.find((char) => char.id === selectedId) || null;
+  const isDirty =
+    !!selected &&
+    (draft.name !== selected.name ||
+      draft.description !== (selected.description || "") ||
+      draft.generatedDescription !== (selected.generatedDescription || ""));
+
+  useEffect(() => {
+    characterStorage.getAllStoredCharacters().then((loaded) => {
+      const sorted = loaded.sort(
+        (a, b) => b.lastUsed.getTime() - a.lastUsed.getTime()
+      );
+      setCharacters(sorted);
+      setSelectedId(sorted[0]?.id || null);
+      setIsLoading(false);
+    });
+  }, []);
+
+  // Reset the form whenever a different character is picked
+  useEffect(() => {
+    setDraft({
+      name: selected?.name || "",
+      description: selected?.description || "",
+      generatedDescription: selected?.generatedDescription || "",
+    });
+    setConfirmingDelete(false);
+  }, [selectedId]);
+
+  const replaceCharacter = (updated: StoredCharacter | null) => {
+    if (!updated) return false;
+    setCharacters((current) =>
+      current.map((char) => (char.id === updated.id ? updated : char))
+    );
+    return true;
+  };
+
+  const requireApiKey = (action: (key: string) => void) => {
+    if (apiKey) {
+      action(apiKey);
+      return;
+    }
+    pendingApiKeyAction.current = action;
+    setShowApiKeyModal(true);
+  };
+
+  const handleApiKeySubmit = (submittedApiKey: string) => {
+    setApiKey(submittedApiKey);
+    setShowApiKeyModal(false);
+    pendingApiKeyAction.current?.(submittedApiKey);
+    pendingApiKeyAction.current = null;
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+    if (!draft.name.trim()) {
+      toast.error("A character needs a name");
+      return;
+    }
+
+    const saved = await characterStorage.updateCharacter(selected.id, {
+      name: draft.name,
+      description: draft.description,
+      generatedDescription: draft.generatedDescription,
+    });
+    if (replaceCharacter(saved)) {
+      toast.success(`Saved ${saved!.name}`);
+    } else {
+      toast.error("Failed to save character");
+    }
+  };
+
+  const generateDesign = async (key: string) => {
+    if (!selected) return;
+    setIsGenerating(true);
+    try {
+      // Generate from the edited text so description changes show up in the design
+      const image = await geminiService.generateCharacterDesign(
+        key,
+        {
+          ...selected,
+          name: draft.name || selected.name,
+          description: draft.description,
+          generatedDescription: draft.generatedDescription,
+        },
+        designStyle
+      );
+      const saved = await characterStorage.addDesignVersion(selected.id, image);
+      if (replaceCharacter(saved)) {
+        toast.success("New design added and set as active");
+      } else {
+        toast.error("Failed to save the new design");
+      }
+    } catch (error: any) {
+      console.error("[CHARACTERS] Error generating design:", error);
+      toast.error(error.message || "Failed to generate design");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const generateTurnaround = async (key: string) => {
+    if (!selected) return;
+    setTurnaroundStep("Starting");
+    try {
+      const turnaround = await geminiService.generateCharacterTurnaround(
+        key,
+        selected,
+        designStyle,
+        (label, completed, total) =>
+          setTurnaroundStep(`${label} (${completed + 1}/${total})`)
+      );
+      const saved = await characterStorage.setTurnaround(
+        selected.id,
+        turnaround
+      );
+      if (replaceCharacter(saved)) {
+        toast.success("Poses and expressions saved");
+      } else {
+        toast.error("Failed to save poses and expressions");
+      }
+    } catch (error: any) {
+      console.error("[CHARACTERS] Error generating turnaround:", error);
+      toast.error(error.message || "Failed to draw poses and expressions");
+    } finally {
+      setTurnaroundStep(null);
+    }
+  };
+
+  const handleSetActive = async (versionId: string) => {
+    if (!selected) return;
+    const saved = await characterStorage.setActiveDesign(selected.id, versionId);
+    if (!replaceCharacter(saved)) {
+      toast.error("Failed to switch design");
+    }
+  };
+
+  const handleDeleteVersion = async (versionId: string) => {
+    if (!selected) return;
+    const saved = await characterStorage.deleteDesignVersion(
+      selected.id,
+      versionId
+    );
+    if (!replaceCharacter(saved)) {
+      toast.error("Failed to delete design");
+    }
+  };
+
+  const handleDeleteCharacter = async () => {
+    if (!selected) return;
+    // First click arms the button, second click deletes
+    if (!confirmingDelete) {
+      setConfirmingDelete(true);
+      return;
+    }
+
+    if (await characterStorage.deleteCharacter(selected.id)) {
+      const remaining = characters.filter((char) => char.id !== selected.id);
+      setCharacters(remaining);
+      setSelectedId(remaining[0]?.id || null);
+      toast.success(`Deleted ${selected.name}`);
+    } else {
+      toast.error("Failed to delete character");
+    }
+  };
+
+  const versions = [...(selected?.designVersions || [])].reverse();
+
+  return (
+    <div className="min-h-screen bg-comic-yellow p-4">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <motion.header
+          initial={{ y: -50, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          className="mb-6 flex items-center justify-between gap-3"
+        >
+          <div className="comic-panel bg-white px-4 py-2 flex items-center gap-3">
+            <Users className="w-8 h-8" />
+            <div>
+              <h1 className="comic-title normal-case text-2xl md:text-3xl leading-none">
+                Characters
+              </h1>
+              <p className="comic-subtitle text-xs leading-none opacity-70 mt-1 normal-case">
+                {characters.length} saved{" "}
+                {characters.length === 1 ? "character" : "characters"}
+              </p>
+            </div>
+          </div>
+          <Link href="/">
+            <Button variant="outline" size="sm" className="comic-panel">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Create
+            </Button>
+          </Link>
+        </motion.header>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin w-8 h-8 border-4 border-black border-t-transparent rounded-full" />
+          </div>
+        ) : characters.length === 0 ? (
+          <Card className="comic-panel">
+            <CardContent className="py-16 text-center">
+              <p className="comic-text font-bold">
+                No saved characters yet. Characters are saved when a story is
+                created.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid md:grid-cols-[280px_1fr] gap-6">
+            {/* Character List */}
+            <div className="space-y-2">
+              {characters.map((char) => (
+                <button
+                  key={char.id}
+                  onClick={() => setSelectedId(char.id)}
+                  className={cn(
+                    "w-full flex items-center gap-3 p-2 bg-white border-4 border-black rounded-lg text-left transition-colors",
+                    char.id === selectedId
+                      ? "bg-purple-100 shadow-comic"
+                      : "hover:bg-gray-50"
+                  )}
+                >
+                  <div className="w-14 h-14 flex-shrink-0 rounded-md overflow-hidden bg-gradient-to-br from-comic-blue to-comic-purple">
+                    {char.generatedDesignImage && (
+                      <img
+                        src={char.generatedDesignImage}
+                        alt={char.name}
+                        className="w-full h-full object-cover object-top"
+                      />
+                    )}
+                  </div>
+                  <div className="min-w-0">
+                    <div className="comic-text font-bold truncate">
+                      {char.name}
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      Used {char.usageCount}×
+                      {char.designVersions && char.designVersions.length > 1
+                        ? ` • ${char.designVersions.length} designs`
+                        : ""}
+                    </div>
+                    <div className="flex items-center gap-1 text-xs text-gray-500">
+                      <Clock className="w-3 h-3" />
+                      {char.lastUsed.toLocaleDateString()}
+                    </div>
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {/* Character Editor */}
+            {selected && (
+              <Card className="comic-panel">
+                <CardHeader>
+                  <CardTitle>{selected.name}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="space-y-3">
+                    <div className="space-y-1">
+                      <label className="text-sm font-medium">Name</label>
+                      <Input
+                        value={draft.name}
+                        onChange={(e) =>
+                          setDraft({ ...draft, name: e.target.value })
+                        }
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-sm font-medium">Description</label>
+                      <Textarea
+                        value={draft.description}
+                        onChange={(e) =>
+                          setDraft({ ...draft, description: e.target.value })
+                        }
+                        rows={3}
+                        placeholder="Who is this character? What do they look like?"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-sm font-medium">
+                        Illustration notes
+                      </label>
+                      <Textarea
+                        value={draft.generatedDescription}
+                        onChange={(e) =>
+                          setDraft({
+                            ...draft,
+                            generatedDescription: e.target.value,
+                          })
+                        }
+                        rows={4}
+                        placeholder="Detailed appearance used when drawing the character"
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <Button onClick={handleSave} disabled={!isDirty}>
+                        <Save className="w-4 h-4 mr-2" />
+                        Save Changes
+                      </Button>
+                      <Button
+                        variant={confirmingDelete ? "destructive" : "outline"}
+                        onClick={handleDeleteCharacter}
+                      >
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        {confirmingDelete
+                          ? "Confirm delete"
+                          : "Delete Character"}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {/* Design Versions */}
+                  <div className="space-y-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <h3 className="comic-text font-bold">Designs</h3>
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={designStyle}
+                          onValueChange={(value: StoryStyle) =>
+                            setDesignStyle(value)
+                          }
+                          disabled={isGenerating}
+                        >
+                          <SelectTrigger className="w-40 h-9">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {STORY_STYLES.map((style) => (
+                              <SelectItem key={style.value} value={style.value}>
+                                {style.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          onClick={() => requireApiKey(generateDesign)}
+                          disabled={isGenerating || turnaroundStep !== null}
+                        >
+                          <RefreshCw
+                            className={cn(
+                              "w-4 h-4 mr-2",
+                              isGenerating && "animate-spin"
+                            )}
+                          />
+                          {isGenerating ? "Generating..." : "New Design"}
+                        </Button>
+                      </div>
+                    </div>
+
+                    {versions.length === 0 ? (
+                      <p className="text-sm text-gray-600">
+                        No designs yet. Generate one to use this character in
+                        stories.
+                      </p>
+                    ) : (
+                      <div className="grid grid-cols-2 lg:grid-cols-3 gap-3">
+                        {versions.map((version) => {
+                          const isActive = version.id === selected.activeDesignId;
+                          return (
+                            <div
+                              key={version.id}
+                              className={cn(
+                                "border-4 border-black rounded-lg overflow-hidden bg-white",
+                                isActive && "ring-4 ring-purple-500"
+                              )}
+                            >
+                              <img
+                                src={version.image}
+                                alt={`${selected.name} design`}
+                                className="w-full aspect-[9/16] object-cover"
+                              />
+                              <div className="p-2 space-y-2">
+                                <div className="text-xs text-gray-600">
+                                  {version.createdAt.toLocaleString()}
+                                </div>
+                                {isActive ? (
+                                  <div className="flex items-center gap-1 text-xs font-bold text-purple-700">
+                                    <Check className="w-3 h-3" />
+                                    Active design
+                                  </div>
+                                ) : (
+                                  <div className="flex gap-1">
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      className="flex-1 text-xs"
+                                      onClick={() => handleSetActive(version.id)}
+                                    >
+                                      Use this
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      className="text-xs px-2 text-red-600 hover:text-red-700"
+                                      onClick={() =>
+                                        handleDeleteVersion(version.id)
+                                      }
+                                      aria-label="Delete design"
+                                    >
+                                      <Trash2 className="w-3 h-3" />
+                                    </Button>
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Turnaround */}
+                  {selected.generatedDesignImage && (
+                    <div className="space-y-3">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div>
+                          <h3 className="comic-text font-bold">
+                            Poses & Expressions
+                          </h3>
+                          <p className="text-xs text-gray-600">
+                            Extra references for the active design, picked per
+                            page to match the scene
+                          </p>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => requireApiKey(generateTurnaround)}
+                          disabled={isGenerating || turnaroundStep !== null}
+                        >
+                          <Layers className="w-4 h-4 mr-2" />
+                          {turnaroundStep
+                            ? `Drawing ${turnaroundStep}...`
+                            : selected.turnaround
+                            ? "Redraw"
+                            : "Draw Poses & Expressions"}
+                        </Button>
+                      </div>
+                      {selected.turnaround && (
+                        <TurnaroundSheet
+                          name={selected.name}
+                          turnaround={selected.turnaround}
+                        />
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* API Key Modal */}
+      <ApiKeyModal
+        isOpen={showApiKeyModal}
+        onClose={() => {
+          setShowApiKeyModal(false);
+          pendingApiKeyAction.current = null;
+        }}
+        onSubmit={handleApiKeySubmit}
+      />
+    </div>
+  );
+}
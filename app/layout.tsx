@@ -6,6 +6,8 @@ import { Toaster } from "@/components/ui/toaster";
 const inter = Inter({ subsets: ["latin"] });
 
 export const metadata: Metadata = {
+  // Share previews need absolute image URLs
+  metadataBase: new URL(process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"),
   title: "MemoryTales.ai - AI-Powered Interactive Storytelling",
   description: "Create personalized illustrated storybooks with AI-generated characters and narratives",
   keywords: "AI storytelling, personalized books, character creation, illustrated stories, children's books",
@@ -0,0 +1,425 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ArrowLeft,
+  Clock,
+  Download,
+  Library,
+  Search,
+  Trash2,
+  Users,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import CuteBookIcon from "@/components/ui/cute-book-icon";
+import { AgeGroup, StoryStyle, StoryTheme } from "@/lib/types";
+import { storyStorage, StoredStory } from "@/lib/storage/story-storage";
+import { libraryExporter } from "@/lib/export/library-exporter";
+import {
+  DEFAULT_LIBRARY_FILTERS,
+  LIBRARY_SORTS,
+  LibraryFilters,
+  LibrarySort,
+  filterStories,
+  getLibraryCharacters,
+  sortStories,
+} from "@/lib/library/story-library";
+import {
+  AGE_GROUPS,
+  STORY_STYLES,
+  STORY_THEMES,
+  getStyleLabel,
+  getThemeLabel,
+} from "@/lib/story-options";
+
+export default function LibraryPage() {
+  const [stories, setStories] = useState<StoredStory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filters, setFilters] = useState<LibraryFilters>(
+    DEFAULT_LIBRARY_FILTERS
+  );
+  const [sort, setSort] = useState<LibrarySort>("newest");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    storyStorage.getAllStoredStories().then((loaded) => {
+      setStories(loaded);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const characters = useMemo(() => getLibraryCharacters(stories), [stories]);
+  const visibleStories = useMemo(
+    () => sortStories(filterStories(stories, filters), sort),
+    [stories, filters, sort]
+  );
+
+  // Only act on selected stories the current filters still show
+  const selectedVisible = visibleStories.filter((story) =>
+    selectedIds.has(story.id)
+  );
+  const allVisibleSelected =
+    visibleStories.length > 0 &&
+    selectedVisible.length === visibleStories.length;
+  const hasActiveFilters =
+    JSON.stringify(filters) !== JSON.stringify(DEFAULT_LIBRARY_FILTERS);
+
+  const updateFilter = <K extends keyof LibraryFilters>(
+    key: K,
+    value: LibraryFilters[K]
+  ) => {
+    setFilters({ ...filters, [key]: value });
+    setConfirmingDelete(false);
+  };
+
+  const toggleSelected = (storyId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(storyId)) {
+      next.delete(storyId);
+    } else {
+      next.add(storyId);
+    }
+    setSelectedIds(next);
+    setConfirmingDelete(false);
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(
+      allVisibleSelected
+        ? new Set()
+        : new Set(visibleStories.map((story) => story.id))
+    );
+    setConfirmingDelete(false);
+  };
+
+  const handleBulkDelete = async () => {
+    // First click arms the button, second click deletes
+    if (!confirmingDelete) {
+      setConfirmingDelete(true);
+      return;
+    }
+
+    const ids = selectedVisible.map((story) => story.id);
+    let deleted = 0;
+    for (const id of ids) {
+      if (await storyStorage.deleteStory(id)) deleted++;
+    }
+
+    setStories(await storyStorage.getAllStoredStories());
+    setSelectedIds(new Set());
+    setConfirmingDelete(false);
+
+    if (deleted === ids.length) {
+      toast.success(`Deleted ${deleted} ${deleted === 1 ? "story" : "stories"}`);
+    } else {
+      toast.error(`Deleted ${deleted} of ${ids.length} stories`);
+    }
+  };
+
+  const handleBulkExport = async () => {
+    setIsExporting(true);
+    try {
+      const exported = await libraryExporter.downloadStories(
+        selectedVisible.map((story) => story.id)
+      );
+      toast.success(
+        `Exported ${exported} ${exported === 1 ? "story" : "stories"}`
+      );
+    } catch (error: any) {
+      toast.error(error.message || "Failed to export stories");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-comic-yellow p-4">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <motion.header
+          initial={{ y: -50, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          className="mb-6 flex items-center justify-between gap-3"
+        >
+          <div className="comic-panel bg-white px-4 py-2 flex items-center gap-3">
+            <Library className="w-8 h-8" />
+            <div>
+              <h1 className="comic-title normal-case text-2xl md:text-3xl leading-none">
+                Story Library
+              </h1>
+              <p className="comic-subtitle text-xs leading-none opacity-70 mt-1 normal-case">
+                {stories.length} {stories.length === 1 ? "story" : "stories"}{" "}
+                saved
+              </p>
+            </div>
+          </div>
+          <Link href="/">
+            <Button variant="outline" size="sm" className="comic-panel">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Create
+            </Button>
+          </Link>
+        </motion.header>
+
+        {/* Search and Filters */}
+        <Card className="comic-panel mb-6">
+          <CardContent className="p-4 space-y-3">
+            <div className="relative">
+              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+              <Input
+                placeholder="Search titles, characters and story text..."
+                value={filters.query}
+                onChange={(e) => updateFilter("query", e.target.value)}
+                className="pl-9"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+              <Select
+                value={filters.theme}
+                onValueChange={(value: StoryTheme | "all") =>
+                  updateFilter("theme", value)
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All themes</SelectItem>
+                  {STORY_THEMES.map((theme) => (
+                    <SelectItem key={theme.value} value={theme.value}>
+                      {theme.emoji} {theme.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select
+                value={filters.style}
+                onValueChange={(value: StoryStyle | "all") =>
+                  updateFilter("style", value)
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All styles</SelectItem>
+                  {STORY_STYLES.map((style) => (
+                    <SelectItem key={style.value} value={style.value}>
+                      {style.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select
+                value={filters.targetAge}
+                onValueChange={(value: AgeGroup | "all") =>
+                  updateFilter("targetAge", value)
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All ages</SelectItem>
+                  {AGE_GROUPS.map((age) => (
+                    <SelectItem key={age.value} value={age.value}>
+                      {age.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select
+                value={filters.character}
+                onValueChange={(value) => updateFilter("character", value)}
+                disabled={characters.length === 0}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All characters</SelectItem>
+                  {characters.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select
+                value={sort}
+                onValueChange={(value: LibrarySort) => setSort(value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LIBRARY_SORTS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Selection and Bulk Actions */}
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={allVisibleSelected}
+                    onChange={toggleSelectAll}
+                    disabled={visibleStories.length === 0}
+                    className="w-4 h-4 accent-purple-600"
+                  />
+                  Select all
+                </label>
+                <span className="text-gray-600">
+                  Showing {visibleStories.length} of {stories.length}
+                </span>
+                {hasActiveFilters && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setFilters(DEFAULT_LIBRARY_FILTERS)}
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Clear filters
+                  </Button>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={handleBulkExport}
+                  disabled={selectedVisible.length === 0 || isExporting}
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  {isExporting
+                    ? "Exporting..."
+                    : `Export (${selectedVisible.length})`}
+                </Button>
+                <Button
+                  variant={confirmingDelete ? "destructive" : "outline"}
+                  size="sm"
+                  onClick={handleBulkDelete}
+                  disabled={selectedVisible.length === 0}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  {confirmingDelete
+                    ? `Confirm delete (${selectedVisible.length})`
+                    : `Delete (${selectedVisible.length})`}
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Story Grid */}
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin w-8 h-8 border-4 border-black border-t-transparent rounded-full" />
+          </div>
+        ) : visibleStories.length === 0 ? (
+          <Card className="comic-panel">
+            <CardContent className="py-16 text-center space-y-3">
+              <CuteBookIcon className="w-16 h-16 mx-auto" />
+              <p className="comic-text font-bold">
+                {stories.length === 0
+                  ? "No stories yet. Create your first storybook!"
+                  : "No stories match your search."}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+            {visibleStories.map((story) => (
+              <motion.div
+                key={story.id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className={`comic-panel bg-white overflow-hidden flex flex-col ${
+                  selectedIds.has(story.id) ? "ring-4 ring-purple-500" : ""
+                }`}
+              >
+                <div className="relative aspect-[2/3] bg-gradient-to-br from-comic-blue to-comic-purple">
+                  <Link href={`/?story=${story.id}`}>
+                    {story.thumbnailImage ? (
+                      <img
+                        src={story.thumbnailImage}
+                        alt={story.title}
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center">
+                        <CuteBookIcon className="w-12 h-12 text-white" />
+                      </div>
+                    )}
+                  </Link>
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(story.id)}
+                    onChange={() => toggleSelected(story.id)}
+                    aria-label={`Select ${story.title}`}
+                    className="absolute top-2 left-2 w-5 h-5 accent-purple-600"
+                  />
+                </div>
+
+                <div className="p-3 space-y-1 flex-1">
+                  <Link href={`/?story=${story.id}`}>
+                    <h3 className="comic-text text-sm font-bold line-clamp-2 hover:underline">
+                      {story.title}
+                    </h3>
+                  </Link>
+                  <div className="flex items-center gap-1 text-xs text-gray-600">
+                    <Clock className="w-3 h-3" />
+                    <span>{story.createdAt.toLocaleDateString()}</span>
+                    <span>•</span>
+                    <span>{story.pageCount} pages</span>
+                  </div>
+                  <div className="text-xs text-gray-600">
+                    {getThemeLabel(story.config.theme)} •{" "}
+                    {getStyleLabel(story.config.style)}
+                    {story.config.targetAge &&
+                      ` • Ages ${story.config.targetAge}`}
+                  </div>
+                  {story.characterNames.length > 0 && (
+                    <div className="flex items-center gap-1 text-xs text-gray-600">
+                      <Users className="w-3 h-3 flex-shrink-0" />
+                      <span className="truncate">
+                        {story.characterNames.join(", ")}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
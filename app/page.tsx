@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
+import Link from "next/link";
 import { motion } from "framer-motion";
 import {
   Card,
@@ -29,10 +30,20 @@ import {
   History,
   Clock,
   Trash2,
+  Type,
+  Languages,
+  Library,
+  Wallet,
+  Video,
+  Calculator,
+  ShieldCheck,
+  UserRound,
 } from "lucide-react";
 import CuteBookIcon from "@/components/ui/cute-book-icon";
 import CharacterSelector from "@/components/character/character-selector";
 import CharacterDesignViewer from "@/components/character/character-design-viewer";
+import OutlineReview from "@/components/story/outline-review";
+import ScriptReview from "@/components/story/script-review";
 import StoryGeneratorComponent from "@/components/story/story-generator";
 import BookViewer from "@/components/storybook/book-viewer";
 import {
@@ -43,8 +54,42 @@ import {
   StoryTheme,
   StoryStyle,
   AgeGroup,
+  TextRenderMode,
+  StoryLanguage,
+  StoryOutline,
+  ParentalControls,
+  ReaderProfile,
 } from "@/lib/types";
-import { storyStorage } from "@/lib/storage/story-storage";
+import { STORY_LANGUAGES } from "@/lib/i18n/languages";
+import { AGE_GROUPS, STORY_STYLES, STORY_THEMES } from "@/lib/story-options";
+import { storyStorage, StoredStory } from "@/lib/storage/story-storage";
+import { storyJobClient } from "@/lib/jobs/story-job-client";
+import { StoryScript } from "@/lib/ai-services/story-generator";
+import { estimateStory, formatDuration } from "@/lib/usage/estimate";
+import {
+  ModerationIssue,
+  contentModerator,
+  describeIssues,
+  getAgeGroup,
+  getCharacterTexts,
+  getInputTexts,
+} from "@/lib/safety";
+import SafetyNotice from "@/components/story/safety-notice";
+import ParentalControlsDialog from "@/components/parental/parental-controls-dialog";
+import ReaderProfilesDialog from "@/components/readers/reader-profiles-dialog";
+import { readerStorage } from "@/lib/storage/reader-storage";
+import {
+  applyReaderProfile,
+  clearReaderProfile,
+  loadRecurringCharacters,
+} from "@/lib/readers/reader-profiles";
+import {
+  applyParentalControls,
+  getParentalViolations,
+  parentalControlsService,
+} from "@/lib/parental/parental-controls";
+import { toast } from "sonner";
+import { formatCost } from "@/lib/usage/pricing";
 
 export default function HomePage() {
   const [step, setStep] = useState<GenerationState>(GenerationState.INPUT);
@@ -57,23 +102,106 @@ export default function HomePage() {
     characterCount: 2,
     pageCount: 5,
     targetAge: "6-8",
+    textMode: "baked",
+    language: "en",
   });
   const [selectedCharacters, setSelectedCharacters] = useState<Character[]>([]);
   const [generatedStory, setGeneratedStory] = useState<GeneratedStory | null>(
     null
   );
-  const [storedStories, setStoredStories] = useState<any[]>([]);
+  const [storedStories, setStoredStories] = useState<StoredStory[]>([]);
   const [showHistory, setShowHistory] = useState(false);
+  const [resumeJobId, setResumeJobId] = useState<string | undefined>();
+  const [approvedScript, setApprovedScript] = useState<
+    StoryScript | undefined
+  >();
+  const [safetyIssues, setSafetyIssues] = useState<ModerationIssue[]>([]);
+  const [parentalLimits, setParentalLimits] = useState<ParentalControls | null>(
+    null
+  );
+  const [showParentalControls, setShowParentalControls] = useState(false);
+  const [readers, setReaders] = useState<ReaderProfile[]>([]);
+  const [activeReader, setActiveReader] = useState<ReaderProfile | null>(null);
+  const [showReaders, setShowReaders] = useState(false);
+
+  // Fills the form for the reader, then keeps it inside the parent's limits
+  const prefillForReader = (
+    base: StoryConfig,
+    reader: ReaderProfile | null
+  ): StoryConfig => {
+    const prefilled = reader
+      ? applyReaderProfile(base, reader)
+      : clearReaderProfile(base);
+    const limits = parentalControlsService.getControls();
+    return limits ? applyParentalControls(prefilled, limits) : prefilled;
+  };
 
   // Load stored stories on component mount
   useEffect(() => {
-    const stories = storyStorage.getAllStoredStories();
-    setStoredStories(stories);
+    storyStorage.getAllStoredStories().then(setStoredStories);
+    setParentalLimits(parentalControlsService.getControls());
+
+    Promise.all([
+      readerStorage.getAllReaders(),
+      readerStorage.getActiveReaderId(),
+    ]).then(([loadedReaders, activeReaderId]) => {
+      setReaders(loadedReaders);
+      const reader =
+        loadedReaders.find((candidate) => candidate.id === activeReaderId) ||
+        null;
+      if (!reader) return;
+      setActiveReader(reader);
+      // A story job being reattached keeps the config it was started with
+      if (!storyJobClient.getActiveJobId()) {
+        setConfig((prev) => prefillForReader(prev, reader));
+      }
+    });
+  }, []);
+
+  const handleSelectReader = (reader: ReaderProfile | null) => {
+    setActiveReader(reader);
+    readerStorage.setActiveReaderId(reader?.id || null);
+    setConfig((prev) => prefillForReader(prev, reader));
+  };
+
+  // Keep the form inside the parent's limits whenever they change
+  useEffect(() => {
+    if (parentalLimits) {
+      setConfig((prev) => applyParentalControls(prev, parentalLimits));
+    }
+  }, [parentalLimits]);
+
+  // Open a story picked in the library (/?story=<id>)
+  useEffect(() => {
+    const storyId = new URLSearchParams(window.location.search).get("story");
+    if (!storyId) return;
+
+    window.history.replaceState(null, "", window.location.pathname);
+    handleLoadStory(storyId);
+  }, []);
+
+  // Reattach to a story that was still generating when the tab was closed
+  useEffect(() => {
+    const activeJobId = storyJobClient.getActiveJobId();
+    if (!activeJobId) return;
+
+    storyJobClient
+      .getJob(activeJobId)
+      .then(({ job, config: jobConfig, characters }) => {
+        setConfig(jobConfig);
+        setSelectedCharacters(characters);
+        setResumeJobId(job.id);
+        setStep(GenerationState.GENERATING);
+      })
+      .catch((error) => {
+        console.warn("[HOME] Could not reattach to story job:", error);
+        storyJobClient.clearActiveJobId();
+      });
   }, []);
 
   // Load a story from history
-  const handleLoadStory = (storyId: string) => {
-    const story = storyStorage.loadStory(storyId);
+  const handleLoadStory = async (storyId: string) => {
+    const story = await storyStorage.loadStory(storyId);
     if (story) {
       setGeneratedStory(story);
       setStep(GenerationState.COMPLETED);
@@ -82,9 +210,9 @@ export default function HomePage() {
   };
 
   // Delete a story from history
-  const handleDeleteStory = (storyId: string) => {
-    storyStorage.deleteStory(storyId);
-    const updatedStories = storyStorage.getAllStoredStories();
+  const handleDeleteStory = async (storyId: string) => {
+    await storyStorage.deleteStory(storyId);
+    const updatedStories = await storyStorage.getAllStoredStories();
     setStoredStories(updatedStories);
   };
 
@@ -103,60 +231,8 @@ export default function HomePage() {
     }
   }, [showHistory]);
 
-  const themes = [
-    { value: "funny", label: "Funny & Hilarious", emoji: "😂" },
-    { value: "adventurous", label: "Action & Adventure", emoji: "🏃‍♀️" },
-    { value: "educational", label: "Learning & Discovery", emoji: "🧠" },
-    { value: "magical", label: "Magical & Fantasy", emoji: "✨" },
-    { value: "mystery", label: "Mystery & Detective", emoji: "🔍" },
-  ];
-
-  const styles = [
-    {
-      value: "comic",
-      label: "Comic Book",
-      desc: "Bold panels with speech bubbles",
-    },
-    {
-      value: "picture_book",
-      label: "Picture Book",
-      desc: "Classic illustrated story format",
-    },
-    {
-      value: "fairy_tale",
-      label: "Fairy Tale",
-      desc: "Enchanted storybook style",
-    },
-    {
-      value: "graphic_novel",
-      label: "Graphic Novel",
-      desc: "Modern visual storytelling",
-    },
-    { value: "pop_up", label: "Pop-up Style", desc: "Interactive 3D elements" },
-  ];
-
-  const ageGroups = [
-    {
-      value: "3-5",
-      label: "Ages 3-5",
-      desc: "Preschool - Simple stories with basic concepts",
-    },
-    {
-      value: "6-8",
-      label: "Ages 6-8",
-      desc: "Early readers - Elementary vocabulary",
-    },
-    {
-      value: "9-12",
-      label: "Ages 9-12",
-      desc: "Middle grade - More complex adventures",
-    },
-    {
-      value: "13+",
-      label: "Ages 13+",
-      desc: "Young adult - Advanced themes and vocabulary",
-    },
-  ];
+  // Recomputed on every change so the estimate follows the options
+  const estimate = estimateStory(config);
 
   const pageCountOptions = [
     { value: 3, label: "3 Pages", desc: "Quick story" },
@@ -167,21 +243,105 @@ export default function HomePage() {
     { value: 10, label: "10 Pages", desc: "Epic adventure" },
   ];
 
+  // Only the choices the parent profile allows are offered
+  const allowedThemes = parentalLimits
+    ? STORY_THEMES.filter((theme) =>
+        parentalLimits.allowedThemes.includes(theme.value)
+      )
+    : STORY_THEMES;
+  const allowedAgeGroups = parentalLimits
+    ? AGE_GROUPS.filter((age) =>
+        parentalLimits.allowedAgeGroups.includes(age.value)
+      )
+    : AGE_GROUPS;
+  const allowedPageCounts = parentalLimits
+    ? pageCountOptions.filter(
+        (option) => option.value <= parentalLimits.maxPageCount
+      )
+    : pageCountOptions;
+
+  const textModes = [
+    {
+      value: "overlay",
+      label: "Editable Text",
+      desc: "Clean pictures, crisp text you can edit and move",
+    },
+    {
+      value: "baked",
+      label: "Painted-in Text",
+      desc: "Speech bubbles drawn into the pictures",
+    },
+  ];
+
   const handleCreateStory = () => {
+    const violations = parentalLimits
+      ? getParentalViolations(config, [], parentalLimits)
+      : [];
+    if (violations.length > 0) {
+      toast.error(violations.join(" "));
+      return;
+    }
+
+    // Quick local check so the parent can fix the idea before any AI call
+    const issues = contentModerator.checkLocally(
+      getInputTexts(config),
+      getAgeGroup(config)
+    );
+    setSafetyIssues(issues);
+    if (issues.length > 0) {
+      toast.error("Please change a few words before we start");
+      return;
+    }
+
+    // A new idea gets a fresh outline
+    setConfig({ ...config, outline: undefined });
     setStep(GenerationState.CHARACTER_SETUP);
   };
 
-  const handleCharactersReady = (characters: Character[]) => {
-    setSelectedCharacters(characters);
+  const handleCharactersReady = async (characters: Character[]) => {
+    const violations = parentalLimits
+      ? getParentalViolations(config, characters, parentalLimits)
+      : [];
+    if (violations.length > 0) {
+      toast.error(violations.join(" "));
+      return;
+    }
+
+    const issues = contentModerator.checkLocally(
+      getCharacterTexts(characters),
+      getAgeGroup(config)
+    );
+    if (issues.length > 0) {
+      toast.error(describeIssues(issues));
+      return;
+    }
+
+    setSelectedCharacters(
+      activeReader
+        ? await loadRecurringCharacters(characters, activeReader)
+        : characters
+    );
     setStep(GenerationState.CHARACTER_DESIGN);
   };
 
   const handleCharacterDesignsApproved = (approvedCharacters: Character[]) => {
     setSelectedCharacters(approvedCharacters);
+    setStep(GenerationState.OUTLINE_REVIEW);
+  };
+
+  const handleOutlineApproved = (outline: StoryOutline) => {
+    setConfig({ ...config, outline, pageCount: outline.beats.length });
+    setStep(GenerationState.SCRIPT_REVIEW);
+  };
+
+  const handleScriptApproved = (script: StoryScript) => {
+    setApprovedScript(script);
     setStep(GenerationState.GENERATING);
   };
 
   const handleBackToCharacterSetup = () => {
+    // The outline was written for the previous characters
+    setConfig({ ...config, outline: undefined });
     setStep(GenerationState.CHARACTER_SETUP);
   };
 
@@ -190,27 +350,39 @@ export default function HomePage() {
   };
 
   const handleStoryGenerated = (story: GeneratedStory) => {
+    setResumeJobId(undefined);
+    storyStorage.getAllStoredStories().then(setStoredStories);
     setGeneratedStory(story);
     setStep(GenerationState.COMPLETED);
   };
 
   const handleBackToCharacters = () => {
+    setResumeJobId(undefined);
+    setApprovedScript(undefined);
     setStep(GenerationState.CHARACTER_SETUP);
   };
 
   const handleStartOver = () => {
     setStep(GenerationState.INPUT);
-    setConfig({
-      prompt: "",
-      theme: "funny",
-      style: "comic",
-      characters: [],
-      setting: "",
-      characterCount: 2,
-      pageCount: 5,
-      targetAge: "6-8",
-    });
+    setConfig(
+      prefillForReader(
+        {
+          prompt: "",
+          theme: "funny",
+          style: "comic",
+          characters: [],
+          setting: "",
+          characterCount: 2,
+          pageCount: 5,
+          targetAge: "6-8",
+          textMode: "baked",
+          language: "en",
+        },
+        activeReader
+      )
+    );
     setSelectedCharacters([]);
+    setApprovedScript(undefined);
     setGeneratedStory(null);
   };
 
@@ -344,6 +516,58 @@ export default function HomePage() {
                   )}
                 </div>
               )}
+
+              {/* Library Link */}
+              {storedStories.length > 0 && (
+                <Link href="/library">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex items-center gap-2 comic-panel"
+                  >
+                    <Library className="w-4 h-4" />
+                    <span className="hidden md:inline">Library</span>
+                  </Button>
+                </Link>
+              )}
+
+              {/* Reader Profiles */}
+              <Button
+                variant={activeReader ? "default" : "outline"}
+                size="sm"
+                onClick={() => setShowReaders(true)}
+                className="flex items-center gap-2 comic-panel"
+              >
+                <UserRound className="w-4 h-4" />
+                <span className="hidden md:inline">
+                  {activeReader ? activeReader.name : "Readers"}
+                </span>
+              </Button>
+
+              {/* Parental Controls */}
+              <Button
+                variant={parentalLimits ? "default" : "outline"}
+                size="sm"
+                onClick={() => setShowParentalControls(true)}
+                className="flex items-center gap-2 comic-panel"
+              >
+                <ShieldCheck className="w-4 h-4" />
+                <span className="hidden md:inline">
+                  {parentalLimits ? "Parent Lock On" : "Parental Controls"}
+                </span>
+              </Button>
+
+              {/* Characters Link */}
+              <Link href="/characters">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex items-center gap-2 comic-panel"
+                >
+                  <Users className="w-4 h-4" />
+                  <span className="hidden md:inline">Characters</span>
+                </Button>
+              </Link>
             </div>
           </div>
         </motion.header>
@@ -366,6 +590,34 @@ export default function HomePage() {
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
+                {readers.length > 0 && (
+                  <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-2 text-sm font-medium shrink-0">
+                      <UserRound className="w-4 h-4" />
+                      Story for
+                    </label>
+                    <Select
+                      value={activeReader?.id || "none"}
+                      onValueChange={(value) =>
+                        handleSelectReader(
+                          readers.find((reader) => reader.id === value) || null
+                        )
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Anyone</SelectItem>
+                        {readers.map((reader) => (
+                          <SelectItem key={reader.id} value={reader.id}>
+                            {reader.name}, age {reader.age}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
                 <Textarea
                   placeholder="Once upon a time, there was a brave little dragon who loved to bake cookies..."
                   value={config.prompt}
@@ -450,7 +702,7 @@ export default function HomePage() {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {themes.map((theme) => (
+                        {allowedThemes.map((theme) => (
                           <SelectItem key={theme.value} value={theme.value}>
                             <span className="flex items-center gap-2">
                               <span>{theme.emoji}</span>
@@ -478,7 +730,7 @@ export default function HomePage() {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {styles.map((style) => (
+                        {STORY_STYLES.map((style) => (
                           <SelectItem key={style.value} value={style.value}>
                             <div>
                               <div className="font-bold">{style.label}</div>
@@ -508,7 +760,7 @@ export default function HomePage() {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {ageGroups.map((age) => (
+                        {allowedAgeGroups.map((age) => (
                           <SelectItem key={age.value} value={age.value}>
                             <div>
                               <div className="font-bold">{age.label}</div>
@@ -538,7 +790,7 @@ export default function HomePage() {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {pageCountOptions.map((option) => (
+                        {allowedPageCounts.map((option) => (
                           <SelectItem
                             key={option.value}
                             value={option.value.toString()}
@@ -554,10 +806,136 @@ export default function HomePage() {
                       </SelectContent>
                     </Select>
                   </div>
+
+                  {/* Text Rendering Selection */}
+                  <div className="space-y-2 lg:col-span-2">
+                    <label className="flex items-center gap-2 text-sm font-medium">
+                      <Type className="w-4 h-4 text-red-500" />
+                      Story Text
+                    </label>
+                    <Select
+                      value={config.textMode}
+                      onValueChange={(value: TextRenderMode) =>
+                        setConfig({ ...config, textMode: value })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {textModes.map((mode) => (
+                          <SelectItem key={mode.value} value={mode.value}>
+                            <div>
+                              <div className="font-bold">{mode.label}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {mode.desc}
+                              </div>
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Language Selection */}
+                  <div className="space-y-2 lg:col-span-2">
+                    <label className="flex items-center gap-2 text-sm font-medium">
+                      <Languages className="w-4 h-4 text-indigo-500" />
+                      Language
+                    </label>
+                    <Select
+                      value={config.language}
+                      onValueChange={(value: StoryLanguage) =>
+                        setConfig({ ...config, language: value })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STORY_LANGUAGES.map((lang) => (
+                          <SelectItem key={lang.value} value={lang.value}>
+                            <div>
+                              <div className="font-bold">{lang.label}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {lang.nativeLabel}
+                              </div>
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Budget */}
+                  <div className="space-y-2 lg:col-span-2">
+                    <label className="flex items-center gap-2 text-sm font-medium">
+                      <Wallet className="w-4 h-4 text-emerald-500" />
+                      Budget (USD, optional)
+                    </label>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      placeholder="No limit"
+                      value={config.budget ?? ""}
+                      onChange={(e) => {
+                        const budget = parseFloat(e.target.value);
+                        setConfig({
+                          ...config,
+                          // Zero or empty means no limit
+                          budget: Number.isNaN(budget) ? undefined : budget,
+                        });
+                      }}
+                    />
+                  </div>
+                </div>
+
+                {/* Cost & Time Estimate */}
+                <div className="mt-4 flex flex-wrap items-center justify-between gap-3 border-2 border-black rounded-lg bg-white p-3 text-sm">
+                  <label className="flex items-center gap-2 font-medium">
+                    <input
+                      type="checkbox"
+                      checked={config.coverVideo !== false}
+                      onChange={(e) =>
+                        setConfig({ ...config, coverVideo: e.target.checked })
+                      }
+                      disabled={parentalLimits?.allowCoverVideos === false}
+                      className="w-4 h-4 accent-purple-600"
+                    />
+                    <Video className="w-4 h-4 text-red-500" />
+                    Animate the cover
+                    {parentalLimits?.allowCoverVideos === false && (
+                      <span className="text-xs text-muted-foreground">
+                        (turned off by a parent)
+                      </span>
+                    )}
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <Calculator className="w-4 h-4 text-emerald-500" />
+                    <span>
+                      <span className="font-bold">
+                        ~{formatCost(estimate.cost)}
+                      </span>{" "}
+                      · {formatDuration(estimate.durationSeconds)}
+                    </span>
+                  </div>
+                  <div className="w-full text-xs text-muted-foreground">
+                    {estimate.textCalls} writing calls · {estimate.imageCalls}{" "}
+                    pictures (incl. characters, cover and retries)
+                    {estimate.videoSeconds > 0 &&
+                      ` · ${estimate.videoSeconds}s cover video`}
+                    {config.budget !== undefined &&
+                      config.budget > 0 &&
+                      estimate.cost > config.budget &&
+                      " · Over your budget, generation may stop early"}
+                  </div>
                 </div>
               </CardContent>
             </Card>
 
+            <SafetyNotice issues={safetyIssues} />
+
             {/* Create Story Button */}
             <motion.div
               className="text-center pt-6"
@@ -581,6 +959,8 @@ export default function HomePage() {
         {step === GenerationState.CHARACTER_SETUP && (
           <CharacterSelector
             characterCount={config.characterCount}
+            initialNames={config.characters}
+            allowPhotoUploads={parentalLimits?.allowPhotoUploads !== false}
             onCharactersReady={handleCharactersReady}
             onBack={handleBackToInput}
           />
@@ -595,12 +975,33 @@ export default function HomePage() {
           />
         )}
 
+        {step === GenerationState.OUTLINE_REVIEW && (
+          <OutlineReview
+            config={config}
+            characters={selectedCharacters}
+            maxPages={parentalLimits?.maxPageCount}
+            onOutlineApproved={handleOutlineApproved}
+            onBack={handleBackToCharacterSetup}
+          />
+        )}
+
+        {step === GenerationState.SCRIPT_REVIEW && (
+          <ScriptReview
+            config={config}
+            characters={selectedCharacters}
+            onScriptApproved={handleScriptApproved}
+            onBack={() => setStep(GenerationState.OUTLINE_REVIEW)}
+          />
+        )}
+
         {step === GenerationState.GENERATING && (
           <StoryGeneratorComponent
             config={config}
             characters={selectedCharacters}
             onStoryGenerated={handleStoryGenerated}
             onBack={handleBackToCharacters}
+            resumeJobId={resumeJobId}
+            script={approvedScript}
           />
         )}
 
@@ -609,9 +1010,25 @@ export default function HomePage() {
             story={generatedStory}
             onHome={handleStartOver}
             onRegenerate={() => setStep(GenerationState.GENERATING)}
+            onStoryUpdated={setGeneratedStory}
+            readerId={activeReader?.id}
           />
         )}
       </div>
+
+      <ReaderProfilesDialog
+        isOpen={showReaders}
+        onClose={() => setShowReaders(false)}
+        activeReaderId={activeReader?.id || null}
+        onSelectReader={handleSelectReader}
+        onReadersChanged={setReaders}
+      />
+
+      <ParentalControlsDialog
+        isOpen={showParentalControls}
+        onClose={() => setShowParentalControls(false)}
+        onControlsChanged={setParentalLimits}
+      />
     </div>
   );
 }
@@ -0,0 +1,62 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { shareStore } from "@/lib/sharing/share-store";
+import {
+  SHARE_IMAGE_SIZE,
+  getShareDescription,
+  getShareImagePath,
+} from "@/lib/sharing/share-metadata";
+import SharedStoryViewer from "@/components/storybook/shared-story-viewer";
+
+export const dynamic = "force-dynamic";
+
+interface SharedStoryPageProps {
+  params: { shareId: string };
+}
+
+export async function generateMetadata({
+  params,
+}: SharedStoryPageProps): Promise<Metadata> {
+  const share = await shareStore.load(params.shareId);
+
+  if (!share) {
+    return { title: "Story not found - MemoryTales.ai" };
+  }
+
+  const title = `${share.story.title} - MemoryTales.ai`;
+  const description = getShareDescription(share.story);
+  const image = {
+    url: getShareImagePath(share.id),
+    ...SHARE_IMAGE_SIZE,
+    alt: `Cover of ${share.story.title}`,
+  };
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: "article",
+      url: `/s/${share.id}`,
+      siteName: "MemoryTales.ai",
+      images: [image],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images: [image.url],
+    },
+  };
+}
+
+export default async function SharedStoryPage({ params }: SharedStoryPageProps) {
+  const share = await shareStore.load(params.shareId);
+
+  if (!share) {
+    notFound();
+  }
+
+  return <SharedStoryViewer story={share.story} />;
+}
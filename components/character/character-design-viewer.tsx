@@ -5,10 +5,11 @@ import { motion } from "framer-motion";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { RefreshCw, Check, X, ArrowLeft, ArrowRight, Sparkles } from "lucide-react";
+import { RefreshCw, Check, X, ArrowLeft, ArrowRight, Sparkles, Layers } from "lucide-react";
 import { Character } from "@/lib/types";
 import { geminiService } from "@/lib/ai-services/gemini-service";
 import ApiKeyModal from "@/components/ui/api-key-modal";
+import TurnaroundSheet from "./turnaround-sheet";
 
 interface CharacterDesignViewerProps {
   characters: Character[];
@@ -33,6 +34,12 @@ export default function CharacterDesignViewer({
   const [progress, setProgress] = useState(0);
   const [showApiKeyModal, setShowApiKeyModal] = useState(false);
   const [apiKey, setApiKey] = useState<string | null>(null);
+  const [turnaroundProgress, setTurnaroundProgress] = useState<{
+    characterId: string;
+    label: string;
+    completed: number;
+    total: number;
+  } | null>(null);
 
   useEffect(() => {
     setShowApiKeyModal(true);
@@ -55,6 +62,8 @@ export default function CharacterDesignViewer({
 
     for (let i = 0; i < updatedCharacters.length; i++) {
       const character = updatedCharacters[i];
+      // Saved characters (e.g. a reader's recurring ones) keep their design
+      if (character.generatedDesignImage) continue;
       setGeneratingCharacterId(character.id);
       setProgress((i / updatedCharacters.length) * 100);
 
@@ -95,9 +104,15 @@ export default function CharacterDesignViewer({
         character,
         storyStyle
       );
+      // A new design makes the old poses and expressions stale
       const updatedCharacters = designCharacters.map((c) =>
         c.id === characterId
-          ? { ...c, generatedDesignImage: designImage, designApproved: false }
+          ? {
+              ...c,
+              generatedDesignImage: designImage,
+              designApproved: false,
+              turnaround: undefined,
+            }
           : c
       );
       setDesignCharacters(updatedCharacters);
@@ -111,6 +126,32 @@ export default function CharacterDesignViewer({
     }
   };
 
+  // Optional turnaround mode: extra poses and expressions used as panel references
+  const generateTurnaround = async (characterId: string) => {
+    const character = designCharacters.find((c) => c.id === characterId);
+    if (!character || !apiKey) return;
+
+    try {
+      const turnaround = await geminiService.generateCharacterTurnaround(
+        apiKey,
+        character,
+        storyStyle,
+        (label, completed, total) =>
+          setTurnaroundProgress({ characterId, label, completed, total })
+      );
+      setDesignCharacters((current) =>
+        current.map((c) => (c.id === characterId ? { ...c, turnaround } : c))
+      );
+    } catch (error) {
+      console.error(
+        `Failed to generate turnaround for ${character.name}:`,
+        error
+      );
+    } finally {
+      setTurnaroundProgress(null);
+    }
+  };
+
   const approveCharacter = (characterId: string) => {
     const updatedCharacters = designCharacters.map((c) =>
       c.id === characterId ? { ...c, designApproved: true } : c
@@ -362,7 +403,35 @@ export default function CharacterDesignViewer({
                         <RefreshCw className="w-4 h-4 mr-2" />
                         Regenerate Design
                       </Button>
+
+                      <Button
+                        onClick={() => generateTurnaround(currentCharacter.id)}
+                        variant="outline"
+                        disabled={
+                          !currentCharacter.generatedDesignImage ||
+                          generatingCharacterId === currentCharacter.id ||
+                          turnaroundProgress !== null
+                        }
+                        className="w-full"
+                      >
+                        <Layers className="w-4 h-4 mr-2" />
+                        {turnaroundProgress?.characterId === currentCharacter.id
+                          ? `Drawing ${turnaroundProgress.label.toLowerCase()} (${turnaroundProgress.completed + 1}/${turnaroundProgress.total})...`
+                          : currentCharacter.turnaround
+                          ? "Redraw Poses & Expressions"
+                          : "Add Poses & Expressions"}
+                      </Button>
                     </div>
+
+                    {currentCharacter.turnaround && (
+                      <div className="space-y-2">
+                        <h4 className="font-bold">Poses & Expressions:</h4>
+                        <TurnaroundSheet
+                          name={currentCharacter.name}
+                          turnaround={currentCharacter.turnaround}
+                        />
+                      </div>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -402,7 +471,7 @@ export default function CharacterDesignViewer({
                   className="px-6 py-3"
                 >
                   <Sparkles className="w-4 h-4 mr-2" />
-                  Create Story
+                  Plan Story
                 </Button>
               ) : (
                 <Button
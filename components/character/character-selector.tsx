@@ -20,19 +20,24 @@ import { useDropzone } from "react-dropzone";
 
 interface CharacterSelectorProps {
   characterCount: number;
+  initialNames?: string[]; // e.g. the reader's recurring characters
+  // Turned off by the parent profile
+  allowPhotoUploads?: boolean;
   onCharactersReady: (characters: Character[]) => void;
   onBack: () => void;
 }
 
 export default function CharacterSelector({
   characterCount,
+  initialNames = [],
+  allowPhotoUploads = true,
   onCharactersReady,
   onBack,
 }: CharacterSelectorProps) {
   const [characters, setCharacters] = useState<Character[]>(() =>
     Array.from({ length: characterCount }, (_, i) => ({
       id: `char-${i + 1}`,
-      name: "",
+      name: initialNames[i] || "",
     }))
   );
   const [currentIndex, setCurrentIndex] = useState(0);
@@ -114,6 +119,7 @@ export default function CharacterSelector({
                   onClick={() => setCurrentIndex(index)}
                   onUpdate={(updates) => updateCharacter(index, updates)}
                   onImageUpload={(file) => handleImageUpload(index, file)}
+                  allowPhotoUploads={allowPhotoUploads}
                 />
               ))}
             </AnimatePresence>
@@ -164,6 +170,7 @@ interface CharacterCardProps {
   onClick: () => void;
   onUpdate: (updates: Partial<Character>) => void;
   onImageUpload: (file: File) => void;
+  allowPhotoUploads: boolean;
 }
 
 function CharacterCard({
@@ -172,6 +179,7 @@ function CharacterCard({
   onClick,
   onUpdate,
   onImageUpload,
+  allowPhotoUploads,
 }: CharacterCardProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -180,6 +188,7 @@ function CharacterCard({
       "image/*": [".jpeg", ".jpg", ".png", ".gif"],
     },
     maxFiles: 1,
+    disabled: !allowPhotoUploads,
     onDrop: (acceptedFiles) => {
       if (acceptedFiles.length > 0) {
         onImageUpload(acceptedFiles[0]);
@@ -218,7 +227,14 @@ function CharacterCard({
           >
             <input {...getInputProps()} />
 
-            {character.uploadedImage ? (
+            {!allowPhotoUploads ? (
+              <div className="text-center">
+                <User className="w-8 h-8 mx-auto mb-2 text-gray-500" />
+                <p className="text-xs font-bold text-center">
+                  Photo uploads are turned off by a parent
+                </p>
+              </div>
+            ) : character.uploadedImage ? (
               <div
                 className="absolute inset-0 bg-contain bg-center bg-no-repeat bg-gray-50"
                 style={{
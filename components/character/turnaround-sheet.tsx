@@ -0,0 +1,52 @@
+"use client";
+
+import React from "react";
+import { CharacterTurnaround } from "@/lib/types";
+import {
+  TURNAROUND_EXPRESSIONS,
+  TURNAROUND_POSES,
+} from "@/lib/ai-services/reference-selector";
+
+interface TurnaroundSheetProps {
+  name: string;
+  turnaround: CharacterTurnaround;
+}
+
+export default function TurnaroundSheet({
+  name,
+  turnaround,
+}: TurnaroundSheetProps) {
+  const views = [
+    ...TURNAROUND_POSES.map((view) => ({
+      key: view.value,
+      label: view.label,
+      image: turnaround.poses[view.value],
+    })),
+    ...TURNAROUND_EXPRESSIONS.map((view) => ({
+      key: view.value,
+      label: view.label,
+      image: turnaround.expressions[view.value],
+    })),
+  ];
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {views.map((view) => (
+        <div key={view.key} className="text-center">
+          <div className="aspect-square border-2 border-black bg-gray-50 overflow-hidden flex items-center justify-center">
+            {view.image ? (
+              <img
+                src={view.image}
+                alt={`${name} - ${view.label}`}
+                className="max-w-full max-h-full object-contain"
+              />
+            ) : (
+              <span className="text-xs text-gray-400">Not drawn</span>
+            )}
+          </div>
+          <div className="text-xs mt-1">{view.label}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,366 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Lock, ShieldCheck, Unlock, X } from "lucide-react";
+import { toast } from "sonner";
+import { AgeGroup, ParentalControls, StoryTheme } from "@/lib/types";
+import { AGE_GROUPS, STORY_THEMES } from "@/lib/story-options";
+import {
+  DEFAULT_PARENTAL_CONTROLS,
+  PIN_PATTERN,
+  parentalControlsService,
+} from "@/lib/parental/parental-controls";
+
+// Same choices as the page count picker on the story form
+const MAX_PAGE_OPTIONS = [3, 4, 5, 6, 8, 10];
+
+interface ParentalControlsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onControlsChanged: (controls: ParentalControls | null) => void;
+}
+
+type DialogMode = "setup" | "locked" | "edit";
+
+export default function ParentalControlsDialog({
+  isOpen,
+  onClose,
+  onControlsChanged,
+}: ParentalControlsDialogProps) {
+  const [mode, setMode] = useState<DialogMode>("setup");
+  const [draft, setDraft] = useState<ParentalControls>(DEFAULT_PARENTAL_CONTROLS);
+  const [pin, setPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Start locked every time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    const controls = parentalControlsService.getControls();
+    setMode(controls ? "locked" : "setup");
+    setDraft(controls || DEFAULT_PARENTAL_CONTROLS);
+    setPin("");
+    setConfirmPin("");
+    setError(null);
+  }, [isOpen]);
+
+  const toggleIn = <T,>(list: T[], value: T): T[] =>
+    list.includes(value)
+      ? list.filter((item) => item !== value)
+      : [...list, value];
+
+  const isDraftValid =
+    draft.allowedAgeGroups.length > 0 && draft.allowedThemes.length > 0;
+
+  const handleSetup = async () => {
+    if (!PIN_PATTERN.test(pin)) {
+      setError("Choose a PIN of 4 to 8 digits");
+      return;
+    }
+    if (pin !== confirmPin) {
+      setError("The PINs don't match");
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      await parentalControlsService.enable(pin, draft);
+      onControlsChanged(draft);
+      toast.success("Parental controls are on");
+      onClose();
+    } catch (err: any) {
+      setError(err.message || "Couldn't turn on parental controls");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = async () => {
+    setIsBusy(true);
+    try {
+      if (await parentalControlsService.verifyPin(pin)) {
+        setMode("edit");
+        setError(null);
+      } else {
+        setError("Wrong PIN");
+        setPin("");
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsBusy(true);
+    try {
+      if (await parentalControlsService.update(pin, draft)) {
+        onControlsChanged(draft);
+        toast.success("Parental controls updated");
+        onClose();
+      } else {
+        setError("Wrong PIN");
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleTurnOff = async () => {
+    setIsBusy(true);
+    try {
+      if (await parentalControlsService.disable(pin)) {
+        onControlsChanged(null);
+        toast.success("Parental controls are off");
+        onClose();
+      } else {
+        setError("Wrong PIN");
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const isEditable = mode !== "locked";
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        {/* Backdrop */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+          onClick={onClose}
+        />
+
+        {/* Modal */}
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.9, y: 20 }}
+          className="relative w-full max-w-md max-h-[90vh] overflow-y-auto"
+        >
+          <Card className="comic-panel bg-white">
+            <CardHeader className="pb-4">
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2 text-xl">
+                  <ShieldCheck className="w-6 h-6 text-emerald-600" />
+                  Parental Controls
+                </CardTitle>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onClose}
+                  className="h-8 w-8 p-0"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </CardHeader>
+
+            <CardContent className="space-y-4">
+              {mode === "setup" && (
+                <p className="text-sm text-muted-foreground">
+                  Choose what can be created on this device. Changing these
+                  limits later needs the PIN.
+                </p>
+              )}
+
+              {/* Age Groups */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Allowed ages</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {AGE_GROUPS.map((age) => (
+                    <label key={age.value} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={draft.allowedAgeGroups.includes(age.value)}
+                        onChange={() =>
+                          setDraft({
+                            ...draft,
+                            allowedAgeGroups: toggleIn<AgeGroup>(
+                              draft.allowedAgeGroups,
+                              age.value
+                            ),
+                          })
+                        }
+                        disabled={!isEditable}
+                        className="w-4 h-4 accent-purple-600"
+                      />
+                      {age.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {/* Themes */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Allowed themes</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {STORY_THEMES.map((theme) => (
+                    <label key={theme.value} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={draft.allowedThemes.includes(theme.value)}
+                        onChange={() =>
+                          setDraft({
+                            ...draft,
+                            allowedThemes: toggleIn<StoryTheme>(
+                              draft.allowedThemes,
+                              theme.value
+                            ),
+                          })
+                        }
+                        disabled={!isEditable}
+                        className="w-4 h-4 accent-purple-600"
+                      />
+                      {theme.emoji} {theme.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {/* Page Limit */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Most pages per story</label>
+                <Select
+                  value={draft.maxPageCount.toString()}
+                  onValueChange={(value) =>
+                    setDraft({ ...draft, maxPageCount: parseInt(value) })
+                  }
+                  disabled={!isEditable}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MAX_PAGE_OPTIONS.map((count) => (
+                      <SelectItem key={count} value={count.toString()}>
+                        {count} pages
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Features */}
+              <div className="space-y-2 text-sm">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={draft.allowPhotoUploads}
+                    onChange={(e) =>
+                      setDraft({ ...draft, allowPhotoUploads: e.target.checked })
+                    }
+                    disabled={!isEditable}
+                    className="w-4 h-4 accent-purple-600"
+                  />
+                  Allow photo uploads for characters
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={draft.allowCoverVideos}
+                    onChange={(e) =>
+                      setDraft({ ...draft, allowCoverVideos: e.target.checked })
+                    }
+                    disabled={!isEditable}
+                    className="w-4 h-4 accent-purple-600"
+                  />
+                  Allow animated cover videos
+                </label>
+              </div>
+
+              {/* PIN */}
+              <div className="space-y-2 border-t-2 border-black pt-4">
+                <label className="text-sm font-medium">
+                  {mode === "setup" ? "Choose a PIN" : "PIN"}
+                </label>
+                <Input
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  maxLength={8}
+                  placeholder="4-8 digits"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && mode === "locked") handleUnlock();
+                  }}
+                  disabled={mode === "edit" || isBusy}
+                />
+                {mode === "setup" && (
+                  <Input
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    maxLength={8}
+                    placeholder="Repeat the PIN"
+                    value={confirmPin}
+                    onChange={(e) =>
+                      setConfirmPin(e.target.value.replace(/\D/g, ""))
+                    }
+                    disabled={isBusy}
+                  />
+                )}
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                {!isDraftValid && (
+                  <p className="text-sm text-red-600">
+                    Allow at least one age group and one theme
+                  </p>
+                )}
+              </div>
+
+              {/* Actions */}
+              <div className="flex justify-end gap-2">
+                {mode === "setup" && (
+                  <Button onClick={handleSetup} disabled={isBusy || !isDraftValid}>
+                    <Lock className="w-4 h-4 mr-2" />
+                    Turn On
+                  </Button>
+                )}
+                {mode === "locked" && (
+                  <Button onClick={handleUnlock} disabled={isBusy || !pin}>
+                    <Unlock className="w-4 h-4 mr-2" />
+                    Unlock to Change
+                  </Button>
+                )}
+                {mode === "edit" && (
+                  <>
+                    <Button
+                      variant="outline"
+                      onClick={handleTurnOff}
+                      disabled={isBusy}
+                      className="text-red-700"
+                    >
+                      Turn Off
+                    </Button>
+                    <Button onClick={handleSave} disabled={isBusy || !isDraftValid}>
+                      <Lock className="w-4 h-4 mr-2" />
+                      Save & Lock
+                    </Button>
+                  </>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,466 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ArrowLeft,
+  BookOpen,
+  Check,
+  Pencil,
+  Plus,
+  Repeat,
+  Trash2,
+  UserRound,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import { ReaderProfile, ReadingRecord, StoryTheme } from "@/lib/types";
+import { READING_LEVELS, STORY_THEMES } from "@/lib/story-options";
+import { readerStorage } from "@/lib/storage/reader-storage";
+import { characterStorage } from "@/lib/storage/character-storage";
+import {
+  createReaderProfile,
+  getReadingProgress,
+  getRereadCount,
+  summarizeReading,
+} from "@/lib/readers/reader-profiles";
+import { cn } from "@/lib/utils";
+
+// Same limit as the character count picker on the story form
+const MAX_RECURRING_CHARACTERS = 4;
+
+interface ReaderProfilesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  activeReaderId: string | null;
+  onSelectReader: (reader: ReaderProfile | null) => void;
+  onReadersChanged: (readers: ReaderProfile[]) => void;
+}
+
+export default function ReaderProfilesDialog({
+  isOpen,
+  onClose,
+  activeReaderId,
+  onSelectReader,
+  onReadersChanged,
+}: ReaderProfilesDialogProps) {
+  const [readers, setReaders] = useState<ReaderProfile[]>([]);
+  const [history, setHistory] = useState<Record<string, ReadingRecord[]>>({});
+  const [savedCharacterNames, setSavedCharacterNames] = useState<string[]>([]);
+  const [draft, setDraft] = useState<ReaderProfile | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadReaders = async () => {
+    const loaded = await readerStorage.getAllReaders();
+    const records = await Promise.all(
+      loaded.map((reader) => readerStorage.getReadingHistory(reader.id))
+    );
+    setReaders(loaded);
+    setHistory(
+      Object.fromEntries(loaded.map((reader, index) => [reader.id, records[index]]))
+    );
+    onReadersChanged(loaded);
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(null);
+    loadReaders();
+    characterStorage
+      .getAllStoredCharacters()
+      .then((characters) => setSavedCharacterNames(characters.map((c) => c.name)));
+  }, [isOpen]);
+
+  const toggleIn = <T,>(list: T[], value: T): T[] =>
+    list.includes(value)
+      ? list.filter((item) => item !== value)
+      : [...list, value];
+
+  const handleSave = async () => {
+    if (!draft || !draft.name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      if (await readerStorage.saveReader(draft)) {
+        toast.success(`Saved ${draft.name.trim()}'s profile`);
+        await loadReaders();
+        // Editing the reader in use refreshes the story form
+        if (draft.id === activeReaderId) {
+          onSelectReader({ ...draft, name: draft.name.trim() });
+        }
+        setDraft(null);
+      } else {
+        toast.error("Couldn't save the profile");
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (reader: ReaderProfile) => {
+    if (!confirm(`Delete ${reader.name}'s profile and reading history?`)) return;
+
+    if (await readerStorage.deleteReader(reader.id)) {
+      if (reader.id === activeReaderId) onSelectReader(null);
+      await loadReaders();
+      toast.success(`Deleted ${reader.name}'s profile`);
+    } else {
+      toast.error("Couldn't delete the profile");
+    }
+  };
+
+  if (!isOpen) return null;
+
+  // Names saved in an older profile stay listed even if the character was deleted
+  const characterChoices = draft
+    ? Array.from(new Set([...savedCharacterNames, ...draft.recurringCharacters]))
+    : [];
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        {/* Backdrop */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+          onClick={onClose}
+        />
+
+        {/* Modal */}
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.9, y: 20 }}
+          className="relative w-full max-w-lg max-h-[90vh] overflow-y-auto"
+        >
+          <Card className="comic-panel bg-white">
+            <CardHeader className="pb-4">
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2 text-xl">
+                  {draft && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDraft(null)}
+                      className="h-8 w-8 p-0"
+                    >
+                      <ArrowLeft className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <UserRound className="w-6 h-6 text-purple-600" />
+                  {draft ? "Reader Profile" : "Readers"}
+                </CardTitle>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onClose}
+                  className="h-8 w-8 p-0"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </CardHeader>
+
+            <CardContent className="space-y-4">
+              {!draft ? (
+                <>
+                  {readers.length === 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      Add a profile for each child to fill in the story form
+                      for them and keep track of what they read.
+                    </p>
+                  )}
+
+                  {readers.map((reader) => (
+                    <ReaderCard
+                      key={reader.id}
+                      reader={reader}
+                      records={history[reader.id] || []}
+                      isActive={reader.id === activeReaderId}
+                      onSelect={() =>
+                        onSelectReader(reader.id === activeReaderId ? null : reader)
+                      }
+                      onEdit={() => setDraft(reader)}
+                      onDelete={() => handleDelete(reader)}
+                    />
+                  ))}
+
+                  <Button
+                    variant="outline"
+                    onClick={() => setDraft(createReaderProfile(""))}
+                    className="w-full"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Reader
+                  </Button>
+                </>
+              ) : (
+                <>
+                  {/* Name and Age */}
+                  <div className="grid grid-cols-3 gap-3">
+                    <div className="col-span-2 space-y-2">
+                      <label className="text-sm font-medium">Name</label>
+                      <Input
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        placeholder="e.g., Sam"
+                        maxLength={40}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Age</label>
+                      <Input
+                        type="number"
+                        min={2}
+                        max={17}
+                        value={draft.age}
+                        onChange={(e) =>
+                          setDraft({
+                            ...draft,
+                            age: Math.min(17, Math.max(2, parseInt(e.target.value) || 2)),
+                          })
+                        }
+                      />
+                    </div>
+                  </div>
+
+                  {/* Reading Level */}
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Reading level</label>
+                    <Select
+                      value={draft.readingLevel}
+                      onValueChange={(value) =>
+                        setDraft({
+                          ...draft,
+                          readingLevel: value as ReaderProfile["readingLevel"],
+                        })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {READING_LEVELS.map((level) => (
+                          <SelectItem key={level.value} value={level.value}>
+                            <div className="flex flex-col items-start">
+                              <span className="font-medium">{level.label}</span>
+                              <span className="text-xs text-muted-foreground">
+                                {level.desc}
+                              </span>
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Favorite Themes */}
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Favorite themes</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {STORY_THEMES.map((theme) => (
+                        <label key={theme.value} className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={draft.favoriteThemes.includes(theme.value)}
+                            onChange={() =>
+                              setDraft({
+                                ...draft,
+                                favoriteThemes: toggleIn<StoryTheme>(
+                                  draft.favoriteThemes,
+                                  theme.value
+                                ),
+                              })
+                            }
+                            className="w-4 h-4 accent-purple-600"
+                          />
+                          {theme.emoji} {theme.label}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Recurring Characters */}
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">
+                      Recurring characters{" "}
+                      <span className="text-muted-foreground font-normal">
+                        (up to {MAX_RECURRING_CHARACTERS})
+                      </span>
+                    </label>
+                    {characterChoices.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">
+                        Characters you save while making stories can be picked
+                        here.
+                      </p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {characterChoices.map((name) => {
+                          const isPicked = draft.recurringCharacters.includes(name);
+                          return (
+                            <button
+                              key={name}
+                              type="button"
+                              onClick={() =>
+                                setDraft({
+                                  ...draft,
+                                  recurringCharacters: toggleIn(
+                                    draft.recurringCharacters,
+                                    name
+                                  ),
+                                })
+                              }
+                              disabled={
+                                !isPicked &&
+                                draft.recurringCharacters.length >= MAX_RECURRING_CHARACTERS
+                              }
+                              className={cn(
+                                "px-3 py-1 text-sm border-2 border-black disabled:opacity-40",
+                                isPicked ? "bg-comic-blue text-white" : "bg-white"
+                              )}
+                            >
+                              {name}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Actions */}
+                  <div className="flex justify-end gap-2 border-t-2 border-black pt-4">
+                    <Button variant="outline" onClick={() => setDraft(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      onClick={handleSave}
+                      disabled={isSaving || !draft.name.trim()}
+                    >
+                      <Check className="w-4 h-4 mr-2" />
+                      Save
+                    </Button>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+    </AnimatePresence>
+  );
+}
+
+interface ReaderCardProps {
+  reader: ReaderProfile;
+  records: ReadingRecord[];
+  isActive: boolean;
+  onSelect: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+function ReaderCard({
+  reader,
+  records,
+  isActive,
+  onSelect,
+  onEdit,
+  onDelete,
+}: ReaderCardProps) {
+  const summary = summarizeReading(records);
+
+  return (
+    <div
+      className={cn(
+        "border-2 border-black p-3 space-y-3",
+        isActive && "bg-comic-yellow"
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <div className="font-bold">{reader.name}</div>
+          <div className="text-xs text-muted-foreground">
+            Age {reader.age} ·{" "}
+            {READING_LEVELS.find((level) => level.value === reader.readingLevel)?.label}{" "}
+            reader · {summary.booksOpened} books · {summary.booksFinished} finished
+          </div>
+        </div>
+        <div className="flex gap-1 shrink-0">
+          <Button
+            size="sm"
+            variant={isActive ? "default" : "outline"}
+            onClick={onSelect}
+          >
+            {isActive ? "Reading Now" : "Choose"}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onEdit} className="h-8 w-8 p-0">
+            <Pencil className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onDelete}
+            className="h-8 w-8 p-0 text-red-600"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {summary.favorites.length > 0 && (
+        <div className="text-xs">
+          <div className="flex items-center gap-1 font-medium mb-1">
+            <Repeat className="w-3 h-3" />
+            Re-read most
+          </div>
+          {summary.favorites.map((record) => (
+            <div key={record.storyId} className="flex justify-between gap-2">
+              <span className="truncate">{record.storyTitle}</span>
+              <span className="text-muted-foreground shrink-0">
+                {getRereadCount(record)}×
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {records.length > 0 && (
+        <div className="space-y-2 text-xs">
+          <div className="flex items-center gap-1 font-medium">
+            <BookOpen className="w-3 h-3" />
+            Recently read
+          </div>
+          {records.slice(0, 5).map((record) => (
+            <div key={record.storyId} className="space-y-1">
+              <div className="flex justify-between gap-2">
+                <span className="truncate">{record.storyTitle}</span>
+                <span className="text-muted-foreground shrink-0">
+                  {record.timesFinished > 0
+                    ? "Finished"
+                    : `${getReadingProgress(record)}%`}
+                </span>
+              </div>
+              <Progress
+                value={getReadingProgress(record)}
+                className="h-2 border-2 border-black"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
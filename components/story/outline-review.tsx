@@ -0,0 +1,337 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  Plus,
+  RefreshCw,
+  Sparkles,
+  Trash2,
+} from "lucide-react";
+import { Character, StoryBeat, StoryConfig, StoryOutline } from "@/lib/types";
+import { geminiService } from "@/lib/ai-services/gemini-service";
+import { cn, generateId } from "@/lib/utils";
+import ApiKeyModal from "@/components/ui/api-key-modal";
+
+// The longest preset is 10 pages; leave room to add a couple more
+const MAX_BEATS = 12;
+
+interface OutlineReviewProps {
+  config: StoryConfig;
+  characters: Character[];
+  // Page limit from the parent profile
+  maxPages?: number;
+  onOutlineApproved: (outline: StoryOutline) => void;
+  onBack: () => void;
+}
+
+export default function OutlineReview({
+  config,
+  characters,
+  maxPages,
+  onOutlineApproved,
+  onBack,
+}: OutlineReviewProps) {
+  const pageLimit = Math.min(MAX_BEATS, maxPages ?? MAX_BEATS);
+  // Coming back from the script step keeps the outline that was approved
+  const [outline, setOutline] = useState<StoryOutline | null>(
+    config.outline || null
+  );
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showApiKeyModal, setShowApiKeyModal] = useState(false);
+  const [apiKey, setApiKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!outline) setShowApiKeyModal(true);
+  }, []);
+
+  const handleApiKeySubmit = (submittedApiKey: string) => {
+    setApiKey(submittedApiKey);
+    setShowApiKeyModal(false);
+    generateOutline(submittedApiKey);
+  };
+
+  const handleCloseApiKeyModal = () => {
+    setShowApiKeyModal(false);
+    if (!outline) onBack();
+  };
+
+  const generateOutline = async (apiKeyToUse: string) => {
+    setIsGenerating(true);
+    setError(null);
+
+    try {
+      const generated = await geminiService.generateStoryOutline(
+        apiKeyToUse,
+        config,
+        characters
+      );
+      setOutline(generated);
+    } catch (err: any) {
+      console.error("[OUTLINE_REVIEW] Error generating outline:", err);
+      setError(err.message || "Failed to plan the story");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleRegenerate = () => {
+    if (apiKey) {
+      generateOutline(apiKey);
+    } else {
+      setShowApiKeyModal(true);
+    }
+  };
+
+  const updateBeats = (update: (beats: StoryBeat[]) => StoryBeat[]) => {
+    if (!outline) return;
+    setOutline({ ...outline, beats: update(outline.beats) });
+  };
+
+  const editBeat = (beatId: string, summary: string) =>
+    updateBeats((beats) =>
+      beats.map((beat) => (beat.id === beatId ? { ...beat, summary } : beat))
+    );
+
+  const moveBeat = (index: number, offset: number) =>
+    updateBeats((beats) => {
+      const target = index + offset;
+      if (target < 0 || target >= beats.length) return beats;
+      const reordered = [...beats];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+
+  const deleteBeat = (beatId: string) =>
+    updateBeats((beats) => beats.filter((beat) => beat.id !== beatId));
+
+  const addBeat = () =>
+    updateBeats((beats) => [...beats, { id: `beat-${generateId()}`, summary: "" }]);
+
+  const canApprove =
+    !!outline &&
+    outline.title.trim() !== "" &&
+    outline.beats.length > 0 &&
+    outline.beats.length <= pageLimit &&
+    outline.beats.every((beat) => beat.summary.trim() !== "");
+
+  const handleApprove = () => {
+    if (!outline || !canApprove) return;
+    onOutlineApproved({
+      ...outline,
+      title: outline.title.trim(),
+      beats: outline.beats.map((beat) => ({
+        ...beat,
+        summary: beat.summary.trim(),
+      })),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-comic-yellow p-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <motion.header
+          initial={{ y: -50, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          className="mb-6"
+        >
+          <div className="mb-4">
+            <Button onClick={onBack} variant="outline">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Characters
+            </Button>
+          </div>
+          <div className="text-center">
+            <h1 className="comic-title text-4xl md:text-5xl mb-4">
+              Story Outline
+            </h1>
+            <p className="comic-text text-lg">
+              Shape the plot before we write and illustrate every page
+            </p>
+          </div>
+        </motion.header>
+
+        {/* Loading */}
+        {isGenerating && (
+          <Card className="animate-bounce-in comic-panel">
+            <CardContent className="py-12 text-center">
+              <div className="animate-spin w-12 h-12 border-4 border-black border-t-comic-blue rounded-full mx-auto mb-4" />
+              <p className="comic-text">Planning your story...</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Error */}
+        {error && !isGenerating && (
+          <div className="bg-comic-red text-white border-4 border-black p-4 text-center mb-6">
+            <p className="font-bold mb-2 flex items-center justify-center gap-2">
+              <AlertTriangle className="w-5 h-5" />
+              Oops! Something went wrong:
+            </p>
+            <p className="text-sm mb-4">{error}</p>
+            <Button onClick={handleRegenerate} variant="secondary" size="sm">
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Try Again
+            </Button>
+          </div>
+        )}
+
+        {outline && !isGenerating && (
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className="space-y-6"
+          >
+            {/* Title */}
+            <Card className="comic-panel">
+              <CardHeader>
+                <CardTitle>Title</CardTitle>
+                <CardDescription>
+                  Pick a suggestion or write your own
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  {outline.titleOptions.map((title) => (
+                    <button
+                      key={title}
+                      onClick={() => setOutline({ ...outline, title })}
+                      className={cn(
+                        "px-3 py-1 border-2 border-black rounded-full text-sm font-bold transition-colors",
+                        outline.title === title
+                          ? "bg-comic-blue text-white"
+                          : "bg-white hover:bg-gray-100"
+                      )}
+                    >
+                      {title}
+                    </button>
+                  ))}
+                </div>
+                <Input
+                  value={outline.title}
+                  onChange={(e) =>
+                    setOutline({ ...outline, title: e.target.value })
+                  }
+                  placeholder="Story title"
+                />
+              </CardContent>
+            </Card>
+
+            {/* Beats */}
+            <Card className="comic-panel">
+              <CardHeader>
+                <CardTitle>Pages</CardTitle>
+                <CardDescription>
+                  One beat per page. Edit, reorder or remove beats; the script
+                  and pictures follow this plan.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {outline.beats.map((beat, index) => (
+                  <div
+                    key={beat.id}
+                    className="flex gap-3 items-start border-2 border-black rounded-lg p-3 bg-white"
+                  >
+                    <div className="comic-text font-bold text-sm w-14 pt-2 flex-shrink-0">
+                      Page {index + 1}
+                    </div>
+                    <Textarea
+                      value={beat.summary}
+                      onChange={(e) => editBeat(beat.id, e.target.value)}
+                      rows={2}
+                      placeholder="What happens on this page?"
+                      className="flex-1"
+                    />
+                    <div className="flex flex-col gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => moveBeat(index, -1)}
+                        disabled={index === 0}
+                        aria-label="Move up"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => moveBeat(index, 1)}
+                        disabled={index === outline.beats.length - 1}
+                        aria-label="Move down"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                        onClick={() => deleteBeat(beat.id)}
+                        disabled={outline.beats.length === 1}
+                        aria-label="Delete page"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={addBeat}
+                  disabled={outline.beats.length >= pageLimit}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Page
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Actions */}
+            <div className="flex justify-between items-center">
+              <Button onClick={handleRegenerate} variant="outline">
+                <RefreshCw className="w-4 h-4 mr-2" />
+                New Outline
+              </Button>
+              <Button
+                onClick={handleApprove}
+                size="lg"
+                className="px-6 py-3"
+                disabled={!canApprove}
+              >
+                <Sparkles className="w-4 h-4 mr-2" />
+                Write My Story ({outline.beats.length} pages)
+              </Button>
+            </div>
+          </motion.div>
+        )}
+
+        {/* API Key Modal */}
+        <ApiKeyModal
+          isOpen={showApiKeyModal}
+          onClose={handleCloseApiKeyModal}
+          onSubmit={handleApiKeySubmit}
+          isLoading={isGenerating}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import React from "react";
+import { ShieldAlert } from "lucide-react";
+import { ModerationIssue } from "@/lib/safety";
+
+interface SafetyNoticeProps {
+  issues: ModerationIssue[];
+  title?: string;
+}
+
+// Explains why a story was held back and what to change, one line per problem
+export default function SafetyNotice({
+  issues,
+  title = "Let's keep this story kid-friendly",
+}: SafetyNoticeProps) {
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border-4 border-black p-4 mb-6">
+      <p className="font-bold mb-2 flex items-center gap-2">
+        <ShieldAlert className="w-5 h-5 text-amber-600" />
+        {title}
+      </p>
+      <ul className="text-sm space-y-1">
+        {issues.map((issue, index) => (
+          <li key={`${issue.label}-${issue.term || issue.category}-${index}`}>
+            <span className="font-bold">{issue.label}:</span> {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,413 @@
+"use client";
+
+import React, { useState, useEffect, useRef } from "react";
+import { motion } from "framer-motion";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Paintbrush,
+  RefreshCw,
+  Wand2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Character, Panel, StoryConfig } from "@/lib/types";
+import { StoryScript, storyGenerator } from "@/lib/ai-services/story-generator";
+import { getPanelCharacters } from "@/lib/ai-services/character-resolver";
+import { BudgetExceededError, UsageLedger } from "@/lib/usage/usage-ledger";
+import {
+  ContentRejectedError,
+  ModerationIssue,
+  contentModerator,
+  getAgeGroup,
+  getScriptTexts,
+} from "@/lib/safety";
+import ApiKeyModal from "@/components/ui/api-key-modal";
+import SafetyNotice from "./safety-notice";
+
+interface ScriptReviewProps {
+  config: StoryConfig;
+  characters: Character[];
+  onScriptApproved: (script: StoryScript) => void;
+  onBack: () => void;
+}
+
+export default function ScriptReview({
+  config,
+  characters,
+  onScriptApproved,
+  onBack,
+}: ScriptReviewProps) {
+  const [script, setScript] = useState<StoryScript | null>(null);
+  const [isWriting, setIsWriting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [currentStep, setCurrentStep] = useState("");
+  const [rewritingPage, setRewritingPage] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [safetyIssues, setSafetyIssues] = useState<ModerationIssue[]>([]);
+  const [showApiKeyModal, setShowApiKeyModal] = useState(false);
+  const [apiKey, setApiKey] = useState<string | null>(null);
+  // Writing and rewriting the script counts towards the book's budget
+  const ledgerRef = useRef(new UsageLedger({ budget: config.budget }));
+
+  useEffect(() => {
+    setShowApiKeyModal(true);
+  }, []);
+
+  const handleApiKeySubmit = (submittedApiKey: string) => {
+    setApiKey(submittedApiKey);
+    setShowApiKeyModal(false);
+    writeScript(submittedApiKey);
+  };
+
+  const handleCloseApiKeyModal = () => {
+    setShowApiKeyModal(false);
+    if (!script) onBack();
+  };
+
+  const writeScript = async (apiKeyToUse: string) => {
+    setIsWriting(true);
+    setError(null);
+    setSafetyIssues([]);
+    setProgress(0);
+
+    try {
+      const prepared = await storyGenerator
+        .withLedger(ledgerRef.current)
+        .prepareScript(apiKeyToUse, config, characters, (message, value) => {
+          setCurrentStep(message);
+          setProgress(value);
+        });
+      setScript(prepared);
+    } catch (err: any) {
+      console.error("[SCRIPT_REVIEW] Error writing script:", err);
+      if (err instanceof ContentRejectedError) {
+        setSafetyIssues(err.issues);
+      } else {
+        setError(err.message || "Failed to write the story");
+      }
+    } finally {
+      setIsWriting(false);
+    }
+  };
+
+  const handleRetry = () => {
+    if (apiKey) {
+      writeScript(apiKey);
+    } else {
+      setShowApiKeyModal(true);
+    }
+  };
+
+  const rewritePage = async (pageIndex: number) => {
+    if (!script || !apiKey) return;
+    setRewritingPage(pageIndex);
+
+    try {
+      setScript(
+        await storyGenerator
+          .withLedger(ledgerRef.current)
+          .rewriteScriptPage(apiKey, config, script, pageIndex)
+      );
+      toast.success(`Page ${pageIndex + 1} rewritten`);
+    } catch (err: any) {
+      console.error("[SCRIPT_REVIEW] Error rewriting page:", err);
+      toast.error(
+        err instanceof BudgetExceededError || err instanceof ContentRejectedError
+          ? err.message
+          : "Couldn't rewrite this page. Try again in a moment."
+      );
+    } finally {
+      setRewritingPage(null);
+    }
+  };
+
+  const updatePanel = (
+    pageIndex: number,
+    panelIndex: number,
+    updates: Partial<Panel>
+  ) => {
+    if (!script) return;
+    setScript({
+      ...script,
+      storyData: {
+        ...script.storyData,
+        pages: script.storyData.pages.map((page, pi) =>
+          pi !== pageIndex
+            ? page
+            : {
+                ...page,
+                panels: page.panels.map((panel, pj) =>
+                  pj === panelIndex ? { ...panel, ...updates } : panel
+                ),
+              }
+        ),
+      },
+    });
+  };
+
+  const handleApprove = () => {
+    if (!script) return;
+    // Edits are checked too, so nothing unsuitable reaches the illustrator
+    const issues = contentModerator.checkLocally(
+      getScriptTexts(script.storyData),
+      getAgeGroup(config)
+    );
+    setSafetyIssues(issues);
+    if (issues.length > 0) {
+      toast.error("Please change a few words before illustrating");
+      return;
+    }
+    // Blank dialogue lines are left over from editing
+    onScriptApproved({
+      ...script,
+      usage: ledgerRef.current.getEntries(),
+      storyData: {
+        ...script.storyData,
+        title: script.storyData.title.trim() || script.storyData.title,
+        pages: script.storyData.pages.map((page) => ({
+          ...page,
+          panels: page.panels.map((panel) => ({
+            ...panel,
+            dialogue: (panel.dialogue || [])
+              .map((line) => line.trim())
+              .filter(Boolean),
+          })),
+        })),
+      },
+    });
+  };
+
+  const panelCount = script
+    ? script.storyData.pages.reduce((acc, page) => acc + page.panels.length, 0)
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-comic-yellow p-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <motion.header
+          initial={{ y: -50, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          className="mb-6"
+        >
+          <div className="mb-4">
+            <Button onClick={onBack} variant="outline">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Outline
+            </Button>
+          </div>
+          <div className="text-center">
+            <h1 className="comic-title text-4xl md:text-5xl mb-4">
+              Story Script
+            </h1>
+            <p className="comic-text text-lg">
+              Check every page before the pictures are drawn
+            </p>
+          </div>
+        </motion.header>
+
+        {/* Writing */}
+        {isWriting && (
+          <Card className="animate-bounce-in comic-panel">
+            <CardContent className="py-12 space-y-4 text-center">
+              <div className="animate-spin w-12 h-12 border-4 border-black border-t-comic-blue rounded-full mx-auto" />
+              <p className="comic-text">{currentStep || "Writing your story..."}</p>
+              <Progress value={progress} className="h-4 border-2 border-black" />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Error */}
+        {error && !isWriting && (
+          <div className="bg-comic-red text-white border-4 border-black p-4 text-center mb-6">
+            <p className="font-bold mb-2 flex items-center justify-center gap-2">
+              <AlertTriangle className="w-5 h-5" />
+              Oops! Something went wrong:
+            </p>
+            <p className="text-sm mb-4">{error}</p>
+            <Button onClick={handleRetry} variant="secondary" size="sm">
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Try Again
+            </Button>
+          </div>
+        )}
+
+        {!isWriting && (
+          <SafetyNotice
+            issues={safetyIssues}
+            title={
+              script
+                ? "Let's keep this story kid-friendly"
+                : "We couldn't write a kid-friendly version of this story"
+            }
+          />
+        )}
+        {!script && !isWriting && safetyIssues.length > 0 && (
+          <div className="flex justify-center gap-2 mb-6">
+            <Button onClick={onBack} variant="outline" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Change the Outline
+            </Button>
+            <Button onClick={handleRetry} variant="secondary" size="sm">
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Try Again
+            </Button>
+          </div>
+        )}
+
+        {script && !isWriting && (
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className="space-y-6"
+          >
+            {/* Title */}
+            <Card className="comic-panel">
+              <CardContent className="pt-6">
+                <label className="text-sm font-medium">Title</label>
+                <Input
+                  value={script.storyData.title}
+                  onChange={(e) =>
+                    setScript({
+                      ...script,
+                      storyData: { ...script.storyData, title: e.target.value },
+                    })
+                  }
+                />
+              </CardContent>
+            </Card>
+
+            {/* Pages */}
+            {script.storyData.pages.map((page, pageIndex) => (
+              <Card key={page.id || pageIndex} className="comic-panel">
+                <CardHeader>
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <CardTitle>Page {pageIndex + 1}</CardTitle>
+                      {config.outline?.beats[pageIndex] && (
+                        <CardDescription>
+                          {config.outline.beats[pageIndex].summary}
+                        </CardDescription>
+                      )}
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => rewritePage(pageIndex)}
+                      disabled={rewritingPage !== null}
+                    >
+                      <Wand2
+                        className={`w-4 h-4 mr-2 ${
+                          rewritingPage === pageIndex ? "animate-pulse" : ""
+                        }`}
+                      />
+                      {rewritingPage === pageIndex ? "Rewriting..." : "Rewrite Page"}
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {page.panels.map((panel, panelIndex) => (
+                    <div
+                      key={`${panel.id}-${panelIndex}`}
+                      className="border-2 border-black rounded-lg p-3 bg-white space-y-2"
+                    >
+                      <div className="flex items-center justify-between text-xs text-gray-600">
+                        <span className="font-bold">Panel {panelIndex + 1}</span>
+                        <span>
+                          {getPanelCharacters(panel, script.characters)
+                            .map((char) => char.name)
+                            .join(", ") || "No characters"}
+                        </span>
+                      </div>
+                      <div className="space-y-1">
+                        <label className="text-xs font-medium">Scene</label>
+                        <Textarea
+                          value={panel.description}
+                          onChange={(e) =>
+                            updatePanel(pageIndex, panelIndex, {
+                              description: e.target.value,
+                            })
+                          }
+                          rows={2}
+                          disabled={rewritingPage === pageIndex}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <label className="text-xs font-medium">
+                          Dialogue (one line per speech bubble)
+                        </label>
+                        <Textarea
+                          value={(panel.dialogue || []).join("\n")}
+                          onChange={(e) =>
+                            updatePanel(pageIndex, panelIndex, {
+                              dialogue: e.target.value.split("\n"),
+                            })
+                          }
+                          rows={2}
+                          disabled={rewritingPage === pageIndex}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <label className="text-xs font-medium">Narration</label>
+                        <Textarea
+                          value={panel.narration || ""}
+                          onChange={(e) =>
+                            updatePanel(pageIndex, panelIndex, {
+                              narration: e.target.value,
+                            })
+                          }
+                          rows={2}
+                          disabled={rewritingPage === pageIndex}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+
+            {/* Actions */}
+            <div className="flex justify-between items-center">
+              <Button
+                onClick={handleRetry}
+                variant="outline"
+                disabled={rewritingPage !== null}
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Rewrite Everything
+              </Button>
+              <Button
+                onClick={handleApprove}
+                size="lg"
+                className="px-6 py-3"
+                disabled={rewritingPage !== null}
+              >
+                <Paintbrush className="w-4 h-4 mr-2" />
+                Illustrate {panelCount} Pictures
+              </Button>
+            </div>
+          </motion.div>
+        )}
+
+        {/* API Key Modal */}
+        <ApiKeyModal
+          isOpen={showApiKeyModal}
+          onClose={handleCloseApiKeyModal}
+          onSubmit={handleApiKeySubmit}
+          isLoading={isWriting}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,15 @@
 "use client"
 
-import React, { useState, useEffect } from "react"
+import React, { useState, useEffect, useRef } from "react"
 import { motion } from "framer-motion"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
-import { AlertTriangle, RefreshCw } from "lucide-react"
+import { AlertTriangle, RefreshCw, XCircle } from "lucide-react"
 import { StoryConfig, Character, GeneratedStory } from "@/lib/types"
-import { storyGenerator } from "@/lib/ai-services/story-generator"
+import { StoryScript, storyGenerator } from "@/lib/ai-services/story-generator"
+import { storyJobClient } from "@/lib/jobs/story-job-client"
+import { RESUMABLE_JOB_STATUSES, StoryJobStatus, StoryJobSummary } from "@/lib/jobs/types"
 import ApiKeyModal from "@/components/ui/api-key-modal"
 
 interface StoryGeneratorProps {
@@ -15,13 +17,19 @@ interface StoryGeneratorProps {
   characters: Character[]
   onStoryGenerated: (story: GeneratedStory) => void
   onBack: () => void
+  // Reattach to a server-side job that is already running (e.g. after a page reload)
+  resumeJobId?: string
+  // Approved script; only the illustrations are generated
+  script?: StoryScript
 }
 
 export default function StoryGeneratorComponent({ 
   config, 
   characters, 
   onStoryGenerated, 
-  onBack 
+  onBack,
+  resumeJobId,
+  script
 }: StoryGeneratorProps) {
   const [isGenerating, setIsGenerating] = useState(false)
   const [progress, setProgress] = useState(0)
@@ -30,17 +38,74 @@ export default function StoryGeneratorComponent({
   const [generatedStory, setGeneratedStory] = useState<GeneratedStory | null>(null)
   const [showApiKeyModal, setShowApiKeyModal] = useState(false)
   const [apiKey, setApiKey] = useState<string | null>(null)
+  const [jobId, setJobId] = useState<string | null>(resumeJobId || null)
+  const [jobStatus, setJobStatus] = useState<StoryJobStatus | null>(null)
+  const unsubscribeRef = useRef<(() => void) | null>(null)
 
   useEffect(() => {
-    if (!isGenerating && !error && !generatedStory && !showApiKeyModal) {
+    if (resumeJobId) {
+      attachToJob(resumeJobId)
+    } else if (!isGenerating && !error && !generatedStory && !showApiKeyModal) {
       setShowApiKeyModal(true)
     }
+
+    return () => unsubscribeRef.current?.()
   }, [])
 
   const handleApiKeySubmit = (submittedApiKey: string) => {
     setApiKey(submittedApiKey)
     setShowApiKeyModal(false)
-    handleStartGeneration(submittedApiKey)
+    if (jobId && jobStatus && RESUMABLE_JOB_STATUSES.includes(jobStatus)) {
+      handleResumeJob(jobId, submittedApiKey)
+    } else {
+      handleStartGeneration(submittedApiKey)
+    }
+  }
+
+  const handleJobUpdate = async (summary: StoryJobSummary) => {
+    setJobStatus(summary.status)
+    setCurrentStep(summary.message)
+    setProgress(summary.progress)
+
+    if (summary.status === "completed") {
+      try {
+        const { story } = await storyJobClient.getJob(summary.id)
+        if (!story) {
+          throw new Error("The finished story could not be loaded")
+        }
+
+        // The server cannot reach this browser's library, so save the book here
+        await storyGenerator.saveToLibrary(story)
+        storyJobClient.clearActiveJobId()
+
+        setGeneratedStory(story)
+        setIsGenerating(false)
+        onStoryGenerated(story)
+      } catch (err: any) {
+        console.error('[STORY_GENERATION] Error loading finished story:', err)
+        setError(err.message || "Failed to load story")
+        setIsGenerating(false)
+      }
+    } else if (summary.status === "failed" || summary.status === "cancelled" || summary.status === "interrupted") {
+      setError(summary.error || summary.message)
+      setIsGenerating(false)
+    }
+  }
+
+  const attachToJob = (jobIdToAttach: string) => {
+    unsubscribeRef.current?.()
+    setJobId(jobIdToAttach)
+    setIsGenerating(true)
+    setError(null)
+
+    unsubscribeRef.current = storyJobClient.subscribe(
+      jobIdToAttach,
+      handleJobUpdate,
+      (err) => {
+        setError(err.message)
+        setIsGenerating(false)
+      }
+    )
   }
 
   const handleStartGeneration = async (apiKeyToUse: string) => {
@@ -50,20 +115,8 @@ export default function StoryGeneratorComponent({
     setCurrentStep("Initializing AI story creation...")
 
     try {
-      const story = await storyGenerator.generateCompleteStory(
-        apiKeyToUse,
-        config,
-        characters,
-        (message, progressValue) => {
-          setCurrentStep(message)
-          setProgress(progressValue)
-        }
-      )
-
-      setGeneratedStory(story)
-      setIsGenerating(false)
-      onStoryGenerated(story)
-      
+      const job = await storyJobClient.createJob(apiKeyToUse, config, characters, script)
+      attachToJob(job.id)
     } catch (err: any) {
       console.error('[STORY_GENERATION] Error:', err)
       setError(err.message || "Failed to generate story")
@@ -71,19 +124,51 @@ export default function StoryGeneratorComponent({
     }
   }
 
+  const handleResumeJob = async (jobIdToResume: string, apiKeyToUse: string) => {
+    setIsGenerating(true)
+    setError(null)
+
+    try {
+      await storyJobClient.resumeJob(jobIdToResume, apiKeyToUse)
+      attachToJob(jobIdToResume)
+    } catch (err: any) {
+      console.error('[STORY_GENERATION] Error resuming job:', err)
+      setError(err.message || "Failed to resume story")
+      setIsGenerating(false)
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!jobId) return
+    try {
+      await storyJobClient.cancelJob(jobId)
+    } catch (err: any) {
+      console.error('[STORY_GENERATION] Error cancelling job:', err)
+    }
+  }
+
   const handleRetry = () => {
     setError(null)
     setGeneratedStory(null)
-    if (apiKey) {
-      handleStartGeneration(apiKey)
-    } else {
+    if (!apiKey) {
       setShowApiKeyModal(true)
+    } else if (jobId && jobStatus && RESUMABLE_JOB_STATUSES.includes(jobStatus)) {
+      // Continue from the last saved step instead of starting over
+      handleResumeJob(jobId, apiKey)
+    } else {
+      handleStartGeneration(apiKey)
     }
   }
 
+  const handleBack = () => {
+    unsubscribeRef.current?.()
+    storyJobClient.clearActiveJobId()
+    onBack()
+  }
+
   const handleCloseApiKeyModal = () => {
     setShowApiKeyModal(false)
-    onBack()
+    handleBack()
   }
 
   return (
@@ -190,9 +275,9 @@ export default function StoryGeneratorComponent({
                   <div className="flex gap-2 justify-center">
                     <Button onClick={handleRetry} variant="secondary" size="sm">
                       <RefreshCw className="w-4 h-4 mr-2" />
-                      Try Again
+                      {jobStatus && RESUMABLE_JOB_STATUSES.includes(jobStatus) ? "Resume" : "Try Again"}
                     </Button>
-                    <Button onClick={onBack} variant="outline" size="sm">
+                    <Button onClick={handleBack} variant="outline" size="sm">
                       Go Back
                     </Button>
                   </div>
@@ -207,10 +292,23 @@ export default function StoryGeneratorComponent({
                 </div>
               )}
 
+              {/* Cancel Button */}
+              {isGenerating && jobId && (
+                <div className="text-center pt-4">
+                  <Button onClick={handleCancel} variant="outline">
+                    <XCircle className="w-4 h-4 mr-2" />
+                    Cancel
+                  </Button>
+                  <p className="text-xs mt-2 opacity-70">
+                    You can close this tab — your book keeps generating and will be here when you come back.
+                  </p>
+                </div>
+              )}
+
               {/* Back Button */}
               {!isGenerating && !generatedStory && (
                 <div className="text-center pt-4">
-                  <Button onClick={onBack} variant="outline">
+                  <Button onClick={handleBack} variant="outline">
                     Back to Characters
                   </Button>
                 </div>
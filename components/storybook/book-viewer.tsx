@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -17,18 +17,94 @@ import {
   Maximize,
   Minimize,
   Video,
+  ImagePlus,
+  Pencil,
+  Undo2,
+  Redo2,
+  Check,
+  Move,
+  Languages,
+  Volume2,
+  Square,
+  BookOpen,
+  Link2,
+  Copy,
+  Unlink,
+  ScanFace,
+  AlertTriangle,
+  RefreshCw,
+  Receipt,
 } from "lucide-react";
-import { GeneratedStory } from "@/lib/types";
+import {
+  GeneratedStory,
+  Panel,
+  PanelTextLayout,
+  StoryLanguage,
+} from "@/lib/types";
 import { cn } from "@/lib/utils";
 import { pdfGenerator } from "@/lib/export/pdf-generator";
-import { shareService } from "@/lib/sharing/share-service";
+import { epubGenerator } from "@/lib/export/epub-generator";
+import { PDFExportOptions } from "@/lib/export/print-profiles";
+import { PublishedLink, shareService } from "@/lib/sharing/share-service";
+import { SHARE_EXPIRY_OPTIONS } from "@/lib/sharing/types";
+import {
+  CONSISTENCY_THRESHOLD,
+  storyGenerator,
+} from "@/lib/ai-services/story-generator";
+import { geminiService } from "@/lib/ai-services/gemini-service";
+import { storyStorage } from "@/lib/storage/story-storage";
+import { readerStorage } from "@/lib/storage/reader-storage";
+import { BudgetExceededError, UsageLedger } from "@/lib/usage/usage-ledger";
+import { formatCost } from "@/lib/usage/pricing";
+import { usesTextOverlay } from "@/lib/layout/text-overlay";
+import {
+  NarrationPosition,
+  getNarrationRate,
+  narrationPlayer,
+} from "@/lib/narration";
+import {
+  STORY_LANGUAGES,
+  canTranslateStory,
+  getAvailableLanguages,
+  getLanguageName,
+  getStoryInLanguage,
+  getStoryLanguage,
+  isTranslationStale,
+} from "@/lib/i18n/languages";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { toast } from "sonner";
+import ApiKeyModal from "@/components/ui/api-key-modal";
 import CoverVideoGenerator from "./cover-video-generator";
+import PanelEditor from "./panel-editor";
+import PdfExportDialog from "./pdf-export-dialog";
+import TextOverlay from "./text-overlay";
+import UsageSummary from "./usage-summary";
+
+const MAX_EDIT_HISTORY = 50;
+// Pause between pages while reading aloud, long enough for the page turn
+const NARRATION_PAGE_PAUSE_MS = 800;
+
+interface NarrationState {
+  pageIndex: number;
+  panelIndex: number;
+  position: NarrationPosition | null;
+}
 
 interface BookViewerProps {
   story: GeneratedStory;
   onHome: () => void;
   onRegenerate?: () => void;
+  onStoryUpdated?: (story: GeneratedStory) => void;
+  // Public share pages: reading, narration and downloads only
+  readOnly?: boolean;
+  // Child whose reading is recorded
+  readerId?: string;
 }
 
 interface BookPage {
@@ -39,26 +115,51 @@ interface BookPage {
   id?: string;
   pageNumber?: number;
   panels?: any[];
+  // Position of the panel in story.pages, used when editing
+  pageIndex?: number;
+  panelIndex?: number;
 }
 
 export default function BookViewer({
   story,
   onHome,
   onRegenerate,
+  onStoryUpdated,
+  readOnly = false,
+  readerId,
 }: BookViewerProps) {
+  const [language, setLanguage] = useState<StoryLanguage>(
+    getStoryLanguage(story)
+  );
+  const [isEditing, setIsEditing] = useState(false);
+
+  // Edits always apply to the original text; reading can use a translation
+  const availableLanguages = getAvailableLanguages(story);
+  const activeLanguage = availableLanguages.includes(language)
+    ? language
+    : getStoryLanguage(story);
+  const displayStory = isEditing
+    ? story
+    : getStoryInLanguage(story, activeLanguage);
+  const translationIsStale =
+    activeLanguage !== getStoryLanguage(story) &&
+    isTranslationStale(story, activeLanguage);
+
   // Create book pages: cover + story pages
   const allPages: BookPage[] = [
     // Cover page
     {
       type: "cover",
-      coverImage: story.coverImage,
-      title: story.title,
-      config: story.config,
+      coverImage: displayStory.coverImage,
+      title: displayStory.title,
+      config: displayStory.config,
     },
     // Story pages - each panel becomes a full page
-    ...story.pages.flatMap((page) =>
-      page.panels.map((panel) => ({
+    ...displayStory.pages.flatMap((page, pageIndex) =>
+      page.panels.map((panel, panelIndex) => ({
         type: "story" as const,
+        pageIndex,
+        panelIndex,
         id: panel.id,
         imageUrl: panel.imageUrl,
         description: panel.description,
@@ -70,14 +171,344 @@ export default function BookViewer({
   ];
 
   const [currentSpread, setCurrentSpread] = useState(0);
+  const readingStarted = useRef<Promise<unknown> | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showShareMenu, setShowShareMenu] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [publishedLink, setPublishedLink] = useState<PublishedLink | null>(
+    null
+  );
+  const [shareExpiry, setShareExpiry] = useState("30");
+  const [isPublishing, setIsPublishing] = useState(false);
   const [showVideoGenerator, setShowVideoGenerator] = useState(false);
   const [isAnimating, setIsAnimating] = useState(false);
   // Page aspect ratio (width / height). Default assumes 2:3 portrait pages => spread is 4:3
   const [pageAspect, setPageAspect] = useState(2 / 3);
+  const [apiKey, setApiKey] = useState<string | null>(null);
+  const [showApiKeyModal, setShowApiKeyModal] = useState(false);
+  const [fillProgress, setFillProgress] = useState<{
+    completed: number;
+    total: number;
+  } | null>(null);
+
+  const [reviewProgress, setReviewProgress] = useState<{
+    completed: number;
+    total: number;
+  } | null>(null);
+
+  const [isArrangingText, setIsArrangingText] = useState(false);
+  const [translatingTo, setTranslatingTo] = useState<StoryLanguage | null>(
+    null
+  );
+  const [narration, setNarration] = useState<NarrationState | null>(null);
+  const [isExportingEpub, setIsExportingEpub] = useState(false);
+  const [showPdfExport, setShowPdfExport] = useState(false);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+  const narrationAbort = useRef<AbortController | null>(null);
+  const [undoStack, setUndoStack] = useState<GeneratedStory[]>([]);
+  const [redoStack, setRedoStack] = useState<GeneratedStory[]>([]);
+  // "pageIndex:panelIndex" of the panel whose illustration is being redrawn
+  const [renderingPanel, setRenderingPanel] = useState<string | null>(null);
+  const pendingApiKeyAction = useRef<((key: string) => void) | null>(null);
+  // The story as of the last edit. AI actions read it after their await, so edits
+  // made while they ran are kept instead of being overwritten
+  const storyRef = useRef(story);
+  const lastStoryProp = useRef(story);
+  if (lastStoryProp.current !== story) {
+    lastStoryProp.current = story;
+    storyRef.current = story;
+  }
+
+  const missingPanels = storyGenerator.getPanelsMissingArt(story);
+  const panelsToReview = storyGenerator.getPanelsToReview(story);
+
+  // AI calls made from the viewer count towards the book's usage and budget
+  const createLedger = () =>
+    new UsageLedger({
+      entries: storyRef.current.usage,
+      budget: storyRef.current.config.budget,
+    });
+
+  // Adds the calls a ledger recorded to the latest story, keeping calls other actions recorded meanwhile
+  const withLedgerUsage = (
+    latest: GeneratedStory,
+    ledger: UsageLedger
+  ): GeneratedStory => {
+    const known = new Set(latest.usage || []);
+    return {
+      ...latest,
+      usage: [
+        ...(latest.usage || []),
+        ...ledger.getEntries().filter((entry) => !known.has(entry)),
+      ],
+    };
+  };
+
+  const describeError = (error: unknown, fallback: string) =>
+    error instanceof BudgetExceededError ? error.message : fallback;
+
+  const requireApiKey = (action: (key: string) => void) => {
+    if (apiKey) {
+      action(apiKey);
+    } else {
+      pendingApiKeyAction.current = action;
+      setShowApiKeyModal(true);
+    }
+  };
+
+  const persistStory = (updatedStory: GeneratedStory) => {
+    storyRef.current = updatedStory;
+    onStoryUpdated?.(updatedStory);
+    storyStorage.saveStory(updatedStory).then((saved) => {
+      if (!saved) toast.error("Couldn't save your changes to the library");
+    });
+  };
+
+  // Apply an edit and remember the previous version for undo
+  const commitEdit = (updatedStory: GeneratedStory) => {
+    const previous = storyRef.current;
+    setUndoStack((prev) => [...prev, previous].slice(-MAX_EDIT_HISTORY));
+    setRedoStack([]);
+    persistStory(updatedStory);
+  };
+
+  const handleUndo = () => {
+    const previous = undoStack[undoStack.length - 1];
+    if (!previous) return;
+    const current = storyRef.current;
+    setUndoStack((prev) => prev.slice(0, -1));
+    setRedoStack((prev) => [...prev, current]);
+    // Undo reverts edits, not what they cost
+    persistStory({ ...previous, usage: current.usage });
+  };
+
+  const handleRedo = () => {
+    const next = redoStack[redoStack.length - 1];
+    if (!next) return;
+    const current = storyRef.current;
+    setRedoStack((prev) => prev.slice(0, -1));
+    setUndoStack((prev) => [...prev, current]);
+    persistStory({ ...next, usage: current.usage });
+  };
+
+  const withPanel = (
+    source: GeneratedStory,
+    pageIndex: number,
+    panelIndex: number,
+    updates: Partial<Panel>
+  ): GeneratedStory => ({
+    ...source,
+    pages: source.pages.map((page, pi) =>
+      pi !== pageIndex
+        ? page
+        : {
+            ...page,
+            panels: page.panels.map((panel, pj) =>
+              pj === panelIndex ? { ...panel, ...updates } : panel
+            ),
+          }
+    ),
+  });
+
+  const handleSavePanel = (
+    pageIndex: number,
+    panelIndex: number,
+    updates: Partial<Panel>
+  ) => {
+    commitEdit(withPanel(storyRef.current, pageIndex, panelIndex, updates));
+    toast.success("Panel updated");
+  };
+
+  const handleRerenderPanel = (
+    pageIndex: number,
+    panelIndex: number,
+    updates: Partial<Panel>
+  ) => {
+    requireApiKey(async (key) => {
+      const editedStory = withPanel(
+        storyRef.current,
+        pageIndex,
+        panelIndex,
+        updates
+      );
+      const editedPanel = editedStory.pages[pageIndex].panels[panelIndex];
+      setRenderingPanel(`${pageIndex}:${panelIndex}`);
+      const ledger = createLedger();
+
+      try {
+        const imageUrl = await geminiService.withLedger(ledger).generatePanelIllustration(
+          key,
+          editedPanel,
+          editedStory.characters,
+          editedStory.config.style,
+          editedStory.config.textMode
+        );
+        commitEdit(
+          withLedgerUsage(
+            withPanel(storyRef.current, pageIndex, panelIndex, {
+              ...updates,
+              imageUrl,
+              consistency: undefined,
+            }),
+            ledger
+          )
+        );
+        toast.success("Picture redrawn!");
+      } catch (error) {
+        // Keep the text edits even if the picture could not be redrawn
+        commitEdit(
+          withLedgerUsage(
+            withPanel(storyRef.current, pageIndex, panelIndex, updates),
+            ledger
+          )
+        );
+        toast.error(
+          describeError(error, "Saved the text, but couldn't redraw the picture")
+        );
+      } finally {
+        setRenderingPanel(null);
+      }
+    });
+  };
+
+  // One-click redraw for a panel flagged by the consistency review
+  const handleRedrawPanel = (pageIndex: number, panelIndex: number) => {
+    requireApiKey(async (key) => {
+      const panel = storyRef.current.pages[pageIndex].panels[panelIndex];
+      const characters = storyRef.current.characters;
+      const { style, textMode } = storyRef.current.config;
+      setRenderingPanel(`${pageIndex}:${panelIndex}`);
+      const ledger = createLedger();
+      const generator = storyGenerator.withLedger(ledger);
+
+      try {
+        const redrawn = await generator.regeneratePanel(
+          key,
+          panel,
+          characters,
+          style,
+          textMode
+        );
+        const reviewed = await generator.reviewPanel(
+          key,
+          redrawn,
+          characters
+        );
+        // Only the picture is merged, so text edited meanwhile is kept
+        commitEdit(
+          withLedgerUsage(
+            withPanel(storyRef.current, pageIndex, panelIndex, {
+              imageUrl: reviewed.imageUrl,
+              consistency: reviewed.consistency,
+            }),
+            ledger
+          )
+        );
+
+        if (
+          reviewed.consistency &&
+          reviewed.consistency.score < CONSISTENCY_THRESHOLD
+        ) {
+          toast.warning(
+            "Redrawn, but the characters still look different. Try again or edit the scene."
+          );
+        } else {
+          toast.success("Picture redrawn!");
+        }
+      } catch (error) {
+        toast.error(describeError(error, "Couldn't redraw the picture"));
+      } finally {
+        setRenderingPanel(null);
+      }
+    });
+  };
+
+  const stopNarration = () => {
+    narrationAbort.current?.abort();
+    narrationAbort.current = null;
+    setNarration(null);
+  };
+
+  // Reads every story page from the current spread on, turning pages as it goes
+  const startNarration = async () => {
+    if (!narrationPlayer.isAvailable()) {
+      toast.error("Read aloud isn't supported in this browser");
+      return;
+    }
+
+    const controller = new AbortController();
+    narrationAbort.current = controller;
+    const rate = getNarrationRate(story.config.targetAge);
+    let shownSpread = currentSpread;
+
+    try {
+      for (let i = currentSpread * 2; i < allPages.length; i++) {
+        const page = allPages[i];
+        if (page.pageIndex === undefined || page.panelIndex === undefined) {
+          continue;
+        }
+
+        const { pageIndex, panelIndex } = page;
+        const spread = Math.floor(i / 2);
+        if (spread !== shownSpread) {
+          shownSpread = spread;
+          setIsAnimating(true);
+          setCurrentSpread(spread);
+          setTimeout(() => setIsAnimating(false), 600);
+        }
+        setNarration({ pageIndex, panelIndex, position: null });
+
+        await narrationPlayer.narratePanel(
+          displayStory.pages[pageIndex].panels[panelIndex],
+          activeLanguage,
+          {
+            signal: controller.signal,
+            rate,
+            onPosition: (position) =>
+              setNarration({ pageIndex, panelIndex, position }),
+          }
+        );
+        if (controller.signal.aborted) return;
+
+        await new Promise((resolve) =>
+          setTimeout(resolve, NARRATION_PAGE_PAUSE_MS)
+        );
+        if (controller.signal.aborted) return;
+      }
+    } catch (error) {
+      console.error("[BOOK_VIEWER] Read aloud failed:", error);
+      toast.error("Read aloud stopped unexpectedly");
+    } finally {
+      if (narrationAbort.current === controller) {
+        narrationAbort.current = null;
+        setNarration(null);
+      }
+    }
+  };
+
+  // Stop reading when the viewer goes away
+  useEffect(() => () => narrationAbort.current?.abort(), []);
+
+  // Each opening of the book is a new reading; edits to the story are not
+  useEffect(() => {
+    if (!readerId || readOnly) return;
+    readingStarted.current = readerStorage.startReading(
+      readerId,
+      story,
+      allPages.length
+    );
+  }, [readerId, story.id]);
+
+  useEffect(() => {
+    if (!readerId || readOnly) return;
+    const pagesRead = Math.min(allPages.length, currentSpread * 2 + 2);
+    readingStarted.current?.then(() =>
+      readerStorage.recordProgress(readerId, story.id, pagesRead)
+    );
+  }, [readerId, story.id, currentSpread]);
 
   const nextSpread = () => {
+    stopNarration();
     if (isAnimating) return;
     const maxSpread = Math.ceil(allPages.length / 2) - 1;
     if (currentSpread < maxSpread) {
@@ -88,6 +519,7 @@ export default function BookViewer({
   };
 
   const prevSpread = () => {
+    stopNarration();
     if (isAnimating) return;
     if (currentSpread > 0) {
       setIsAnimating(true);
@@ -138,18 +570,225 @@ export default function BookViewer({
 
   const { leftPage, rightPage, spreadNumber, totalSpreads } = getSpreadPages();
 
-  const handleDownload = async () => {
+  const handleDownload = async (options: PDFExportOptions) => {
+    setIsExportingPdf(true);
     try {
-      await pdfGenerator.downloadPDF(story);
+      await pdfGenerator.downloadPDF(displayStory, options);
       toast.success("Storybook downloaded successfully!");
+      setShowPdfExport(false);
     } catch (error) {
       toast.error("Failed to download storybook");
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  const handleDownloadEpub = async () => {
+    setIsExportingEpub(true);
+    try {
+      await epubGenerator.downloadEPUB(displayStory, {
+        includeNarration: epubGenerator.canEmbedNarration(),
+      });
+      toast.success("EPUB downloaded successfully!");
+    } catch (error) {
+      toast.error("Failed to download EPUB");
+    } finally {
+      setIsExportingEpub(false);
+    }
+  };
+
+  const fillMissingPanels = async (apiKeyToUse: string) => {
+    setFillProgress({ completed: 0, total: missingPanels.length });
+    const ledger = createLedger();
+    try {
+      const result = await storyGenerator
+        .withLedger(ledger)
+        .fillMissingPanels(apiKeyToUse, storyRef.current, {
+          onProgress: (completed, total) => setFillProgress({ completed, total }),
+          // Only the picture is merged, so text edited meanwhile is kept
+          onPanelFilled: (pageIndex, panelIndex, panel) => {
+            const latest =
+              storyRef.current.pages[pageIndex]?.panels[panelIndex];
+            if (!latest || latest.imageUrl) return;
+            persistStory(
+              withLedgerUsage(
+                withPanel(storyRef.current, pageIndex, panelIndex, {
+                  imageUrl: panel.imageUrl,
+                  consistency: undefined,
+                }),
+                ledger
+              )
+            );
+          },
+        });
+
+      if (result.failed > 0) {
+        toast.error(
+          `Filled ${result.filled} picture${result.filled === 1 ? "" : "s"}, ${result.failed} still missing. Try again in a moment.`
+        );
+      } else {
+        toast.success("All missing pictures have been filled in!");
+      }
+    } catch (error) {
+      toast.error(describeError(error, "Failed to fill in missing pictures"));
+    } finally {
+      setFillProgress(null);
+    }
+  };
+
+  const reviewConsistency = async (apiKeyToUse: string) => {
+    setReviewProgress({ completed: 0, total: panelsToReview.length });
+    const ledger = createLedger();
+    try {
+      const result = await storyGenerator
+        .withLedger(ledger)
+        .reviewConsistency(apiKeyToUse, storyRef.current, {
+          onProgress: (completed, total) => setReviewProgress({ completed, total }),
+          // A score only applies to the picture it was given for, so redrawn panels are skipped
+          onPanelReviewed: (pageIndex, panelIndex, panel) => {
+            const latest =
+              storyRef.current.pages[pageIndex]?.panels[panelIndex];
+            if (!latest || latest.imageUrl !== panel.imageUrl) return;
+            persistStory(
+              withLedgerUsage(
+                withPanel(storyRef.current, pageIndex, panelIndex, {
+                  consistency: panel.consistency,
+                }),
+                ledger
+              )
+            );
+          },
+        });
+
+      if (result.flagged > 0) {
+        toast.warning(
+          `${result.flagged} picture${result.flagged === 1 ? "" : "s"} may show characters differently. Look for the flag to redraw.`
+        );
+      } else if (result.reviewed > 0) {
+        toast.success("The characters look consistent on every page!");
+      } else {
+        toast.error("Couldn't check the pictures. Try again in a moment.");
+      }
+    } catch (error) {
+      toast.error(describeError(error, "Failed to check character consistency"));
+    } finally {
+      setReviewProgress(null);
+    }
+  };
+
+  const handleTextLayoutChange = (
+    pageIndex: number,
+    panelIndex: number,
+    textLayout: PanelTextLayout
+  ) => {
+    commitEdit(
+      withPanel(storyRef.current, pageIndex, panelIndex, { textLayout })
+    );
+  };
+
+  const translateStory = async (apiKeyToUse: string, target: StoryLanguage) => {
+    setTranslatingTo(target);
+    const ledger = createLedger();
+    try {
+      const translated = await storyGenerator
+        .withLedger(ledger)
+        .translateStory(apiKeyToUse, storyRef.current, target);
+      // Only the new translation is merged, so edits made meanwhile are kept
+      const latest = storyRef.current;
+      commitEdit(
+        withLedgerUsage(
+          {
+            ...latest,
+            translations: {
+              ...latest.translations,
+              [target]: translated.translations?.[target],
+            },
+          },
+          ledger
+        )
+      );
+      setLanguage(target);
+      toast.success(`Translated to ${getLanguageName(target)}!`);
+    } catch (error) {
+      console.error("[BOOK_VIEWER] Translation failed:", error);
+      toast.error(
+        describeError(
+          error,
+          `Couldn't translate to ${getLanguageName(target)}. Please try again.`
+        )
+      );
+    } finally {
+      setTranslatingTo(null);
+    }
+  };
+
+  const handleTranslate = (target: StoryLanguage) => {
+    requireApiKey((key) => translateStory(key, target));
+  };
+
+  const handleFillMissingPanels = () => {
+    requireApiKey(fillMissingPanels);
+  };
+
+  const handleReviewConsistency = () => {
+    requireApiKey(reviewConsistency);
+  };
+
+  const handleApiKeySubmit = (submittedApiKey: string) => {
+    setApiKey(submittedApiKey);
+    setShowApiKeyModal(false);
+    pendingApiKeyAction.current?.(submittedApiKey);
+    pendingApiKeyAction.current = null;
+  };
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    if (!readOnly) setPublishedLink(shareService.getPublishedLink(story.id));
+  }, [story.id, readOnly]);
+
+  // A shared page links to itself; the owner's viewer links to the published copy
+  const getShareUrl = () =>
+    readOnly ? window.location.href : publishedLink?.url;
+
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    try {
+      const days = shareExpiry === "never" ? null : parseInt(shareExpiry, 10);
+      const link = await shareService.publishStory(story, days);
+      setPublishedLink(link);
+      await shareService.copyLink(link.url);
+      toast.success("Public link created and copied to clipboard!");
+    } catch (error: any) {
+      console.error("[BOOK_VIEWER] Error publishing story:", error);
+      toast.error(error.message || "Failed to create public link");
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!publishedLink) return;
+    await shareService.copyLink(publishedLink.url);
+    toast.success("Link copied to clipboard!");
+  };
+
+  const handleRevoke = async () => {
+    setIsPublishing(true);
+    try {
+      await shareService.revokeStory(story.id);
+      setPublishedLink(null);
+      toast.success("Public link revoked");
+    } catch (error: any) {
+      console.error("[BOOK_VIEWER] Error revoking link:", error);
+      toast.error(error.message || "Failed to revoke link");
+    } finally {
+      setIsPublishing(false);
     }
   };
 
   const handleShare = async () => {
     try {
-      await shareService.shareStory(story);
+      await shareService.shareStory(story, getShareUrl());
       toast.success("Storybook shared successfully!");
       setShowShareMenu(false);
     } catch (error) {
@@ -161,13 +800,13 @@ export default function BookViewer({
     try {
       switch (platform) {
         case "twitter":
-          shareService.shareToTwitter(story);
+          shareService.shareToTwitter(story, getShareUrl());
           break;
         case "facebook":
-          shareService.shareToFacebook(story);
+          shareService.shareToFacebook(story, getShareUrl());
           break;
         case "email":
-          shareService.shareViaEmail(story);
+          shareService.shareViaEmail(story, getShareUrl());
           break;
       }
       toast.success(`Shared to ${platform}!`);
@@ -180,6 +819,10 @@ export default function BookViewer({
   // Keyboard navigation
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
+      // Don't hijack keys while typing in the panel editor
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea")) return;
+
       if (e.key === "ArrowRight") nextSpread();
       if (e.key === "ArrowLeft") prevSpread();
       if (e.key === "f" || e.key === "F") toggleFullscreen();
@@ -211,7 +854,7 @@ export default function BookViewer({
             className="text-center mb-4"
           >
             <h1 className="text-3xl font-bold text-amber-900 mb-2">
-              {story.title}
+              {displayStory.title}
             </h1>
             <div className="flex justify-center items-center gap-4 mb-4">
               <span className="text-amber-800">
@@ -220,11 +863,95 @@ export default function BookViewer({
               </span>
             </div>
 
+            {/* Language Controls */}
+            {(!readOnly || availableLanguages.length > 1) && (
+              <div className="flex justify-center items-center gap-2 mb-4">
+                <Languages className="w-4 h-4 text-amber-800" />
+                {availableLanguages.length > 1 && (
+                  <Select
+                    value={activeLanguage}
+                    onValueChange={(value: StoryLanguage) => setLanguage(value)}
+                    disabled={isEditing}
+                  >
+                    <SelectTrigger className="w-40 h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableLanguages.map((lang) => (
+                        <SelectItem key={lang} value={lang}>
+                          {getLanguageName(lang)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {!readOnly && !canTranslateStory(story) && (
+                  <span className="text-sm text-amber-800">
+                    Only books made with Editable Text can be translated
+                  </span>
+                )}
+                {!readOnly && canTranslateStory(story) && (
+                  <Select
+                    value=""
+                    onValueChange={(value: StoryLanguage) => handleTranslate(value)}
+                    disabled={translatingTo !== null || isEditing}
+                  >
+                    <SelectTrigger className="w-48 h-9">
+                      <SelectValue
+                        placeholder={
+                          translatingTo
+                            ? `Translating to ${getLanguageName(translatingTo)}...`
+                            : "Translate this book..."
+                        }
+                      />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STORY_LANGUAGES.filter(
+                        (lang) => !availableLanguages.includes(lang.value)
+                      ).map((lang) => (
+                        <SelectItem key={lang.value} value={lang.value}>
+                          {lang.label} ({lang.nativeLabel})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
+            {translationIsStale && !isEditing && (
+              <div className="flex justify-center items-center gap-2 mb-4">
+                <AlertTriangle className="w-4 h-4 text-amber-600" />
+                <span className="text-sm text-amber-800">
+                  The story has been edited since this{" "}
+                  {getLanguageName(activeLanguage)} translation was made.
+                </span>
+                {!readOnly && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7"
+                    onClick={() => handleTranslate(activeLanguage)}
+                    disabled={translatingTo !== null}
+                  >
+                    <RefreshCw
+                      className={cn(
+                        "w-3 h-3 mr-1",
+                        translatingTo === activeLanguage && "animate-spin"
+                      )}
+                    />
+                    {translatingTo === activeLanguage
+                      ? "Retranslating..."
+                      : "Retranslate"}
+                  </Button>
+                )}
+              </div>
+            )}
+
             {/* Action Buttons */}
             <div className="flex justify-center gap-2 mb-4">
               <Button onClick={onHome} variant="outline" size="sm">
                 <Home className="w-4 h-4 mr-2" />
-                New Story
+                {readOnly ? "Create Your Own" : "New Story"}
               </Button>
               {onRegenerate && (
                 <Button onClick={onRegenerate} variant="secondary" size="sm">
@@ -233,7 +960,14 @@ export default function BookViewer({
                 </Button>
               )}
               <div className="relative">
-                <Button variant="secondary" size="sm" onClick={handleShare}>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={
+                    // Owners get the menu so they can manage the public link
+                    readOnly ? handleShare : () => setShowShareMenu(!showShareMenu)
+                  }
+                >
                   <Share2 className="w-4 h-4 mr-2" />
                   Share
                 </Button>
@@ -241,6 +975,17 @@ export default function BookViewer({
                 {showShareMenu && (
                   <div className="absolute top-full left-0 mt-2 bg-white border-2 border-amber-300 shadow-xl z-20 rounded-lg">
                     <div className="p-2 space-y-2 min-w-[150px]">
+                      {!readOnly && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="w-full justify-start hover:bg-amber-50"
+                          onClick={handleShare}
+                        >
+                          <Share2 className="w-4 h-4 mr-2" />
+                          Share...
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="sm"
@@ -269,27 +1014,234 @@ export default function BookViewer({
                         Email
                       </Button>
                     </div>
+
+                    {/* Public Link */}
+                    {!readOnly && (
+                      <div className="p-2 border-t-2 border-amber-200 space-y-2 min-w-[220px]">
+                        <div className="text-xs font-bold text-amber-900">
+                          Public link
+                        </div>
+                        {publishedLink ? (
+                          <>
+                            <div className="text-xs text-amber-800 break-all">
+                              {publishedLink.url}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {publishedLink.expiresAt
+                                ? `Expires ${new Date(
+                                    publishedLink.expiresAt
+                                  ).toLocaleDateString()}`
+                                : "Never expires"}
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="w-full justify-start hover:bg-amber-50"
+                              onClick={handleCopyLink}
+                            >
+                              <Copy className="w-4 h-4 mr-2" />
+                              Copy link
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="w-full justify-start hover:bg-red-50 text-red-700"
+                              onClick={handleRevoke}
+                              disabled={isPublishing}
+                            >
+                              <Unlink className="w-4 h-4 mr-2" />
+                              Revoke link
+                            </Button>
+                          </>
+                        ) : (
+                          <>
+                            <Select
+                              value={shareExpiry}
+                              onValueChange={setShareExpiry}
+                              disabled={isPublishing}
+                            >
+                              <SelectTrigger className="h-8 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {SHARE_EXPIRY_OPTIONS.map((option) => (
+                                  <SelectItem
+                                    key={option.label}
+                                    value={option.days ? String(option.days) : "never"}
+                                  >
+                                    Expires: {option.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="w-full justify-start hover:bg-amber-50"
+                              onClick={handlePublish}
+                              disabled={isPublishing}
+                            >
+                              <Link2 className="w-4 h-4 mr-2" />
+                              {isPublishing ? "Publishing..." : "Create public link"}
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
-              <Button variant="secondary" size="sm" onClick={handleDownload}>
+              {!readOnly && !!story.usage?.length && (
+                <div className="relative">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowUsage(!showUsage)}
+                  >
+                    <Receipt className="w-4 h-4 mr-2" />
+                    {formatCost(
+                      story.usage.reduce((acc, entry) => acc + entry.cost, 0)
+                    )}
+                  </Button>
+
+                  {showUsage && (
+                    <div className="absolute top-full left-0 mt-2 bg-white border-2 border-amber-300 shadow-xl z-20 rounded-lg">
+                      <UsageSummary
+                        usage={story.usage}
+                        budget={story.config.budget}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+              {!readOnly && missingPanels.length > 0 && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={handleFillMissingPanels}
+                  disabled={fillProgress !== null}
+                >
+                  <ImagePlus className="w-4 h-4 mr-2" />
+                  {fillProgress
+                    ? `Filling ${fillProgress.completed}/${fillProgress.total}...`
+                    : `Fill in missing art (${missingPanels.length})`}
+                </Button>
+              )}
+              {!readOnly && panelsToReview.length > 0 && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={handleReviewConsistency}
+                  disabled={reviewProgress !== null}
+                >
+                  <ScanFace className="w-4 h-4 mr-2" />
+                  {reviewProgress
+                    ? `Checking ${reviewProgress.completed}/${reviewProgress.total}...`
+                    : `Check characters (${panelsToReview.length})`}
+                </Button>
+              )}
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => setShowPdfExport(true)}
+              >
                 <Download className="w-4 h-4 mr-2" />
                 Download PDF
               </Button>
-              <Button 
-                variant="secondary" 
-                size="sm" 
-                onClick={() => setShowVideoGenerator(true)}
-                disabled={!story.coverImage}
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={handleDownloadEpub}
+                disabled={isExportingEpub}
               >
-                <Video className="w-4 h-4 mr-2" />
-                Generate Video
+                <BookOpen className="w-4 h-4 mr-2" />
+                {isExportingEpub ? "Building EPUB..." : "Download EPUB"}
               </Button>
+              {!readOnly && (
+                <Button 
+                  variant="secondary" 
+                  size="sm" 
+                  onClick={() => setShowVideoGenerator(true)}
+                  disabled={!story.coverImage}
+                >
+                  <Video className="w-4 h-4 mr-2" />
+                  Generate Video
+                </Button>
+              )}
               <Button variant="outline" size="sm" onClick={toggleFullscreen}>
                 <Maximize className="w-4 h-4 mr-2" />
                 Fullscreen
               </Button>
+              <Button
+                variant={narration ? "default" : "outline"}
+                size="sm"
+                onClick={narration ? stopNarration : startNarration}
+                disabled={isEditing}
+              >
+                {narration ? (
+                  <Square className="w-4 h-4 mr-2" />
+                ) : (
+                  <Volume2 className="w-4 h-4 mr-2" />
+                )}
+                {narration ? "Stop Reading" : "Read Aloud"}
+              </Button>
+              {!readOnly && usesTextOverlay(story.config) && (
+                <Button
+                  variant={isArrangingText ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => {
+                    setIsArrangingText(!isArrangingText);
+                    setIsEditing(false);
+                  }}
+                >
+                  <Move className="w-4 h-4 mr-2" />
+                  {isArrangingText ? "Done Arranging" : "Arrange Text"}
+                </Button>
+              )}
+              {!readOnly && (
+                <Button
+                  variant={isEditing ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => {
+                    stopNarration();
+                    setIsEditing(!isEditing);
+                    setIsArrangingText(false);
+                    setLanguage(getStoryLanguage(story));
+                  }}
+                >
+                  {isEditing ? (
+                    <Check className="w-4 h-4 mr-2" />
+                  ) : (
+                    <Pencil className="w-4 h-4 mr-2" />
+                  )}
+                  {isEditing ? "Done Editing" : "Edit"}
+                </Button>
+              )}
             </div>
+
+            {/* Edit history controls */}
+            {(isEditing || isArrangingText) && (
+              <div className="flex justify-center gap-2 mb-4">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleUndo}
+                  disabled={undoStack.length === 0 || renderingPanel !== null}
+                >
+                  <Undo2 className="w-4 h-4 mr-2" />
+                  Undo
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleRedo}
+                  disabled={redoStack.length === 0 || renderingPanel !== null}
+                >
+                  <Redo2 className="w-4 h-4 mr-2" />
+                  Redo
+                </Button>
+              </div>
+            )}
           </motion.header>
         )}
 
@@ -340,9 +1292,18 @@ export default function BookViewer({
                   >
                     <BookPageComponent
                       page={leftPage}
-                      story={story}
+                      story={displayStory}
                       isLeft={true}
                       isFullscreen={isFullscreen}
+                      isEditing={isEditing}
+                      renderingPanel={renderingPanel}
+                      onSavePanel={handleSavePanel}
+                      onRerenderPanel={handleRerenderPanel}
+                      onRedrawPanel={readOnly ? undefined : handleRedrawPanel}
+                      onTextLayoutChange={
+                        isArrangingText ? handleTextLayoutChange : undefined
+                      }
+                      narration={narration}
                     />
                   </motion.div>
                 </AnimatePresence>
@@ -367,9 +1328,18 @@ export default function BookViewer({
                   >
                     <BookPageComponent
                       page={rightPage}
-                      story={story}
+                      story={displayStory}
                       isLeft={false}
                       isFullscreen={isFullscreen}
+                      isEditing={isEditing}
+                      renderingPanel={renderingPanel}
+                      onSavePanel={handleSavePanel}
+                      onRerenderPanel={handleRerenderPanel}
+                      onRedrawPanel={readOnly ? undefined : handleRedrawPanel}
+                      onTextLayoutChange={
+                        isArrangingText ? handleTextLayoutChange : undefined
+                      }
+                      narration={narration}
                     />
                   </motion.div>
                 </AnimatePresence>
@@ -436,6 +1406,27 @@ export default function BookViewer({
           </Button>
         )}
 
+        {/* PDF Export Dialog */}
+        <PdfExportDialog
+          isOpen={showPdfExport}
+          onClose={() => setShowPdfExport(false)}
+          onExport={handleDownload}
+          isExporting={isExportingPdf}
+        />
+
+        {/* API Key Modal for AI actions (missing art, redraws, translations) */}
+        <ApiKeyModal
+          isOpen={showApiKeyModal}
+          onClose={() => setShowApiKeyModal(false)}
+          onSubmit={handleApiKeySubmit}
+          isLoading={
+            fillProgress !== null ||
+            reviewProgress !== null ||
+            renderingPanel !== null ||
+            translatingTo !== null
+          }
+        />
+
         {/* Video Generator Modal */}
         {showVideoGenerator && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -473,6 +1464,13 @@ interface BookPageComponentProps {
   story: GeneratedStory;
   isLeft: boolean;
   isFullscreen: boolean;
+  isEditing?: boolean;
+  renderingPanel?: string | null;
+  onSavePanel?: (pageIndex: number, panelIndex: number, updates: Partial<Panel>) => void;
+  onRerenderPanel?: (pageIndex: number, panelIndex: number, updates: Partial<Panel>) => void;
+  onTextLayoutChange?: (pageIndex: number, panelIndex: number, layout: PanelTextLayout) => void;
+  onRedrawPanel?: (pageIndex: number, panelIndex: number) => void;
+  narration?: NarrationState | null;
 }
 
 function BookPageComponent({
@@ -480,6 +1478,13 @@ function BookPageComponent({
   story,
   isLeft,
   isFullscreen,
+  isEditing = false,
+  renderingPanel = null,
+  onSavePanel,
+  onRerenderPanel,
+  onTextLayoutChange,
+  onRedrawPanel,
+  narration = null,
 }: BookPageComponentProps) {
   if (!page) {
     return (
@@ -528,15 +1533,110 @@ function BookPageComponent({
     );
   }
 
+  // Story page in edit mode - inline editor over the illustration
+  if (
+    isEditing &&
+    page.pageIndex !== undefined &&
+    page.panelIndex !== undefined
+  ) {
+    const pageIndex = page.pageIndex;
+    const panelIndex = page.panelIndex;
+    const panel = story.pages[pageIndex]?.panels[panelIndex];
+
+    if (panel) {
+      return (
+        <div className="w-full h-full relative bg-white">
+          {panel.imageUrl && (
+            <img
+              src={panel.imageUrl}
+              alt={panel.description}
+              className="absolute inset-0 w-full h-full object-cover object-top opacity-30"
+            />
+          )}
+          <div className="relative w-full h-full">
+            <PanelEditor
+              panel={panel}
+              isRendering={renderingPanel === `${pageIndex}:${panelIndex}`}
+              onSave={(updates) => onSavePanel?.(pageIndex, panelIndex, updates)}
+              onSaveAndRerender={(updates) =>
+                onRerenderPanel?.(pageIndex, panelIndex, updates)
+              }
+            />
+          </div>
+        </div>
+      );
+    }
+  }
+
+  // Text-free illustrations get their dialogue and narration laid over as HTML
+  const overlayPanel =
+    usesTextOverlay(story.config) && page.pageIndex !== undefined && page.panelIndex !== undefined
+      ? story.pages[page.pageIndex]?.panels[page.panelIndex]
+      : undefined;
+
+  // Panels whose characters drifted from their designs get a redraw flag
+  const storyPanel =
+    page.pageIndex !== undefined && page.panelIndex !== undefined
+      ? story.pages[page.pageIndex]?.panels[page.panelIndex]
+      : undefined;
+  const consistency = onRedrawPanel ? storyPanel?.consistency : undefined;
+  const isRedrawing =
+    renderingPanel === `${page.pageIndex}:${page.panelIndex}`;
+
   // Story page - full image display
   return (
     <div className="w-full h-full relative bg-white">
       {(page as any).imageUrl ? (
-        <img
-          src={(page as any).imageUrl}
-          alt={(page as any).description || "Story page"}
-          className="w-full h-full object-cover object-top block"
-        />
+        <>
+          <img
+            src={(page as any).imageUrl}
+            alt={(page as any).description || "Story page"}
+            className="w-full h-full object-cover object-top block"
+          />
+          {overlayPanel && (
+            <TextOverlay
+              panel={overlayPanel}
+              language={getStoryLanguage(story)}
+              isFullscreen={isFullscreen}
+              highlight={
+                narration &&
+                narration.pageIndex === page.pageIndex &&
+                narration.panelIndex === page.panelIndex
+                  ? narration.position
+                  : null
+              }
+              onLayoutChange={
+                onTextLayoutChange
+                  ? (layout) =>
+                      onTextLayoutChange(page.pageIndex!, page.panelIndex!, layout)
+                  : undefined
+              }
+            />
+          )}
+          {consistency && consistency.score < CONSISTENCY_THRESHOLD && (
+            <div
+              className="absolute top-2 left-2 z-20 max-w-[80%] flex items-center gap-2 bg-amber-100 border-2 border-black rounded-lg px-2 py-1 shadow-md"
+              title={consistency.issues.join("\n")}
+            >
+              <AlertTriangle className="w-4 h-4 text-amber-600 flex-shrink-0" />
+              <span className="text-xs font-bold text-amber-900">
+                Characters look different ({consistency.score}%)
+              </span>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-6 px-2 text-xs"
+                onClick={() => onRedrawPanel?.(page.pageIndex!, page.panelIndex!)}
+                disabled={renderingPanel !== null}
+              >
+                <RefreshCw
+                  className={cn("w-3 h-3 mr-1", isRedrawing && "animate-spin")}
+                />
+                {isRedrawing ? "Redrawing..." : "Redraw"}
+              </Button>
+            </div>
+          )}
+        </>
       ) : (
         <div className="w-full h-full bg-gradient-to-br from-blue-200 to-purple-300 flex items-center justify-center p-8">
           <div className="text-center text-white">
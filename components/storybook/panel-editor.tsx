@@ -0,0 +1,139 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus, Trash2, Save, Wand2 } from "lucide-react";
+import { Panel } from "@/lib/types";
+
+type PanelTextFields = Pick<Panel, "description" | "dialogue" | "narration">;
+
+interface PanelEditorProps {
+  panel: Panel;
+  isRendering?: boolean;
+  onSave: (updates: PanelTextFields) => void;
+  onSaveAndRerender: (updates: PanelTextFields) => void;
+}
+
+export default function PanelEditor({
+  panel,
+  isRendering = false,
+  onSave,
+  onSaveAndRerender,
+}: PanelEditorProps) {
+  const [description, setDescription] = useState(panel.description);
+  const [narration, setNarration] = useState(panel.narration || "");
+  const [dialogue, setDialogue] = useState<string[]>(panel.dialogue || []);
+
+  // Reset the draft when the panel changes underneath us (e.g. after undo)
+  useEffect(() => {
+    setDescription(panel.description);
+    setNarration(panel.narration || "");
+    setDialogue(panel.dialogue || []);
+  }, [panel]);
+
+  const isDirty =
+    description !== panel.description ||
+    narration !== (panel.narration || "") ||
+    JSON.stringify(dialogue) !== JSON.stringify(panel.dialogue || []);
+
+  const getUpdates = (): PanelTextFields => ({
+    description: description.trim(),
+    narration: narration.trim(),
+    dialogue: dialogue.map((line) => line.trim()).filter(Boolean),
+  });
+
+  const updateLine = (index: number, value: string) => {
+    setDialogue((prev) => prev.map((line, i) => (i === index ? value : line)));
+  };
+
+  return (
+    <div className="w-full h-full overflow-y-auto bg-white/95 p-4 space-y-3 text-left">
+      <div className="space-y-1">
+        <label className="text-xs font-bold uppercase">Scene</label>
+        <Textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={3}
+          className="text-sm"
+          disabled={isRendering}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-xs font-bold uppercase">Narration</label>
+        <Textarea
+          value={narration}
+          onChange={(e) => setNarration(e.target.value)}
+          rows={2}
+          className="text-sm"
+          disabled={isRendering}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-xs font-bold uppercase">Dialogue</label>
+        {dialogue.map((line, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              value={line}
+              onChange={(e) => updateLine(index, e.target.value)}
+              className="text-sm h-8"
+              disabled={isRendering}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setDialogue((prev) => prev.filter((_, i) => i !== index))}
+              disabled={isRendering}
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setDialogue((prev) => [...prev, ""])}
+          disabled={isRendering}
+          className="text-xs"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add line
+        </Button>
+      </div>
+
+      {panel.unresolvedCharacters && panel.unresolvedCharacters.length > 0 && (
+        <p className="text-xs text-amber-800 bg-amber-50 border border-amber-300 rounded p-2">
+          Not matched to a character, drawn without a reference:{" "}
+          {panel.unresolvedCharacters.join(", ")}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2 pt-2">
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => onSave(getUpdates())}
+          disabled={!isDirty || isRendering}
+        >
+          <Save className="w-4 h-4 mr-2" />
+          Save text
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => onSaveAndRerender(getUpdates())}
+          disabled={isRendering || !description.trim()}
+        >
+          {isRendering ? (
+            <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full mr-2" />
+          ) : (
+            <Wand2 className="w-4 h-4 mr-2" />
+          )}
+          {isRendering ? "Redrawing..." : "Save & redraw picture"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+"use client";
+
+import React, { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, Printer, X } from "lucide-react";
+import {
+  ColorMode,
+  PDFExportOptions,
+  PRINT_PROFILES,
+  PrintProfileId,
+  getDefaultExportOptions,
+  getPrintProfile,
+} from "@/lib/export/print-profiles";
+
+interface PdfExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onExport: (options: PDFExportOptions) => void;
+  isExporting?: boolean;
+}
+
+export default function PdfExportDialog({
+  isOpen,
+  onClose,
+  onExport,
+  isExporting = false,
+}: PdfExportDialogProps) {
+  const [options, setOptions] = useState<PDFExportOptions>(
+    getDefaultExportOptions()
+  );
+  const profile = getPrintProfile(options.profileId);
+
+  const handleProfileChange = (profileId: PrintProfileId) => {
+    // Each profile brings its own bleed and margins; keep the layout choice
+    setOptions({ ...getDefaultExportOptions(profileId), spreads: options.spreads });
+  };
+
+  const handleClose = () => {
+    if (!isExporting) onClose();
+  };
+
+  const toggle = (key: "includeTitlePage" | "pageNumbers" | "spreads") => (
+    <input
+      type="checkbox"
+      checked={options[key]}
+      onChange={(e) => setOptions({ ...options, [key]: e.target.checked })}
+      disabled={isExporting}
+      className="w-4 h-4 accent-purple-600"
+    />
+  );
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        {/* Backdrop */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+          onClick={handleClose}
+        />
+
+        {/* Modal */}
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.9, y: 20 }}
+          className="relative w-full max-w-md"
+        >
+          <Card className="comic-panel bg-white">
+            <CardHeader className="pb-4">
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2 text-xl">
+                  <Printer className="w-6 h-6 text-purple-600" />
+                  Export PDF
+                </CardTitle>
+                {!isExporting && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleClose}
+                    className="h-8 w-8 p-0"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+
+            <CardContent className="space-y-4">
+              {/* Page Size */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Page size</label>
+                <Select
+                  value={options.profileId}
+                  onValueChange={(value: PrintProfileId) =>
+                    handleProfileChange(value)
+                  }
+                  disabled={isExporting}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRINT_PROFILES.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        <div>
+                          <div className="font-bold">{option.label}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {option.description}
+                          </div>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Bleed and Margins */}
+              {profile.print && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium">Bleed (mm)</label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={10}
+                      step={0.1}
+                      value={options.bleed}
+                      onChange={(e) =>
+                        setOptions({
+                          ...options,
+                          bleed: Math.max(0, parseFloat(e.target.value) || 0),
+                        })
+                      }
+                      disabled={isExporting}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium">Safe margin (mm)</label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={25}
+                      step={0.1}
+                      value={options.safeMargin}
+                      onChange={(e) =>
+                        setOptions({
+                          ...options,
+                          safeMargin: Math.max(0, parseFloat(e.target.value) || 0),
+                        })
+                      }
+                      disabled={isExporting}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Color */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Colour</label>
+                <Select
+                  value={options.colorMode}
+                  onValueChange={(value: ColorMode) =>
+                    setOptions({ ...options, colorMode: value })
+                  }
+                  disabled={isExporting}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="rgb">
+                      <div>
+                        <div className="font-bold">Screen colours (RGB)</div>
+                        <div className="text-xs text-muted-foreground">
+                          Brightest on screens and home printers
+                        </div>
+                      </div>
+                    </SelectItem>
+                    <SelectItem value="print-safe">
+                      <div>
+                        <div className="font-bold">Print-safe colours</div>
+                        <div className="text-xs text-muted-foreground">
+                          Tones down colours presses struggle with, pure black text. Pictures stay RGB
+                        </div>
+                      </div>
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Layout Options */}
+              <div className="space-y-2 text-sm">
+                <label className="flex items-center gap-2">
+                  {toggle("includeTitlePage")}
+                  Title and credits page
+                </label>
+                <label className="flex items-center gap-2">
+                  {toggle("pageNumbers")}
+                  Page numbers
+                </label>
+                <label className="flex items-center gap-2">
+                  {toggle("spreads")}
+                  Two-page spreads (like the book viewer)
+                </label>
+              </div>
+
+              {/* Action Buttons */}
+              <div className="flex gap-3 pt-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleClose}
+                  disabled={isExporting}
+                  className="flex-1"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => onExport(options)}
+                  disabled={isExporting}
+                  className="flex-1 bg-purple-600 hover:bg-purple-700"
+                >
+                  {isExporting ? (
+                    <>
+                      <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full mr-2" />
+                      Building PDF...
+                    </>
+                  ) : (
+                    <>
+                      <Download className="w-4 h-4 mr-2" />
+                      Download
+                    </>
+                  )}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+    </AnimatePresence>
+  );
+}
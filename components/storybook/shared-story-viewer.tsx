@@ -0,0 +1,23 @@
+"use client";
+
+import React from "react";
+import { useRouter } from "next/navigation";
+import { GeneratedStory } from "@/lib/types";
+import BookViewer from "./book-viewer";
+
+interface SharedStoryViewerProps {
+  story: GeneratedStory;
+}
+
+export default function SharedStoryViewer({ story }: SharedStoryViewerProps) {
+  const router = useRouter();
+
+  // Dates do not survive the trip from the server component
+  const sharedStory = { ...story, createdAt: new Date(story.createdAt) };
+
+  return (
+    <div className="min-h-screen bg-comic-yellow">
+      <BookViewer story={sharedStory} onHome={() => router.push("/")} readOnly />
+    </div>
+  );
+}
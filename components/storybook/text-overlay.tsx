@@ -0,0 +1,179 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Panel, PanelTextLayout, StoryLanguage, TextBoxPlacement } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import {
+  ResolvedTextLayout,
+  clampPlacement,
+  resolvePanelTextLayout,
+} from "@/lib/layout/text-overlay";
+import { NarrationPosition } from "@/lib/narration";
+import { getTextDirection } from "@/lib/i18n/languages";
+
+interface TextOverlayProps {
+  panel: Panel;
+  // Language of the text shown, so right-to-left scripts read the right way
+  language?: StoryLanguage;
+  isFullscreen?: boolean;
+  // Segment and word currently being read aloud
+  highlight?: NarrationPosition | null;
+  // When set, bubbles can be dragged and the new layout is reported on drop
+  onLayoutChange?: (layout: PanelTextLayout) => void;
+}
+
+type DragTarget = { kind: "narration" } | { kind: "dialogue"; index: number };
+
+interface DragState {
+  target: DragTarget;
+  startX: number;
+  startY: number;
+  origin: TextBoxPlacement;
+}
+
+export default function TextOverlay({
+  panel,
+  language = "en",
+  isFullscreen = false,
+  highlight = null,
+  onLayoutChange,
+}: TextOverlayProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [layout, setLayout] = useState<ResolvedTextLayout>(() =>
+    resolvePanelTextLayout(panel)
+  );
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const isEditable = !!onLayoutChange;
+
+  useEffect(() => {
+    setLayout(resolvePanelTextLayout(panel));
+  }, [panel]);
+
+  const placementOf = (target: DragTarget): TextBoxPlacement | undefined =>
+    target.kind === "narration"
+      ? layout.narration
+      : layout.dialogue[target.index];
+
+  const handlePointerDown = (target: DragTarget) => (e: React.PointerEvent) => {
+    const origin = placementOf(target);
+    if (!isEditable || !origin) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ target, startX: e.clientX, startY: e.clientY, origin });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const bounds = containerRef.current?.getBoundingClientRect();
+    if (!drag || !bounds) return;
+
+    const moved = clampPlacement({
+      ...drag.origin,
+      x: drag.origin.x + ((e.clientX - drag.startX) / bounds.width) * 100,
+      y: drag.origin.y + ((e.clientY - drag.startY) / bounds.height) * 100,
+    });
+
+    setLayout((prev) =>
+      drag.target.kind === "narration"
+        ? { ...prev, narration: moved }
+        : {
+            ...prev,
+            dialogue: prev.dialogue.map((placement, index) =>
+              drag.target.kind === "dialogue" && index === drag.target.index
+                ? moved
+                : placement
+            ),
+          }
+    );
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    setDrag(null);
+    onLayoutChange?.({ narration: layout.narration, dialogue: layout.dialogue });
+  };
+
+  const boxStyle = (placement: TextBoxPlacement): React.CSSProperties => ({
+    left: `${placement.x}%`,
+    top: `${placement.y}%`,
+    width: `${placement.width}%`,
+  });
+
+  const textSize = isFullscreen ? "text-base" : "text-xs md:text-sm";
+
+  const isReading = (kind: "narration" | "dialogue", index: number) =>
+    highlight?.segment.kind === kind && highlight.segment.index === index;
+
+  const renderText = (
+    text: string,
+    kind: "narration" | "dialogue",
+    index: number
+  ) => {
+    const word = isReading(kind, index) ? highlight?.word : undefined;
+    if (!word) return text;
+
+    const end = word.charIndex + word.charLength;
+    return (
+      <>
+        {text.slice(0, word.charIndex)}
+        <mark className="bg-yellow-300 rounded px-0.5">
+          {text.slice(word.charIndex, end)}
+        </mark>
+        {text.slice(end)}
+      </>
+    );
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      lang={language}
+      dir={getTextDirection(language)}
+      className={cn("absolute inset-0", !isEditable && "pointer-events-none")}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {(panel.dialogue || []).map((line, index) => {
+        const placement = layout.dialogue[index];
+        if (!placement) return null;
+        return (
+          <div
+            key={`dialogue-${index}`}
+            className={cn(
+              "absolute bg-white border-2 border-black rounded-2xl px-3 py-2 font-bold leading-snug shadow-[3px_3px_0_0_rgba(0,0,0,1)]",
+              textSize,
+              isEditable && "cursor-move select-none ring-2 ring-blue-400",
+              isReading("dialogue", index) && "ring-4 ring-yellow-400"
+            )}
+            style={boxStyle(placement)}
+            onPointerDown={handlePointerDown({ kind: "dialogue", index })}
+          >
+            {renderText(line, "dialogue", index)}
+            {/* Bubble tail */}
+            <span
+              className={cn(
+                "absolute -bottom-2 w-4 h-4 bg-white border-b-2 border-r-2 border-black rotate-45",
+                index % 2 === 0 ? "left-6" : "right-6"
+              )}
+            />
+          </div>
+        );
+      })}
+
+      {panel.narration && layout.narration && (
+        <div
+          className={cn(
+            "absolute bg-yellow-100 border-2 border-black px-3 py-2 italic leading-snug",
+            textSize,
+            isEditable && "cursor-move select-none ring-2 ring-blue-400",
+            isReading("narration", 0) && "ring-4 ring-yellow-400"
+          )}
+          style={boxStyle(layout.narration)}
+          onPointerDown={handlePointerDown({ kind: "narration" })}
+        >
+          {renderText(panel.narration, "narration", 0)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import React from "react";
+import { UsageEntry } from "@/lib/types";
+import { summarizeUsage } from "@/lib/usage/usage-ledger";
+import { formatCost } from "@/lib/usage/pricing";
+
+const PURPOSE_LABELS: Record<string, string> = {
+  "character-descriptions": "Character descriptions",
+  "character-design": "Character designs",
+  "character-turnaround": "Poses & expressions",
+  "story-outline": "Outline",
+  story: "Script",
+  "story-page": "Page rewrites",
+  "story-translation": "Translations",
+  "content-moderation": "Safety checks",
+  "panel-illustration": "Panel pictures",
+  "panel-consistency": "Character checks",
+  "cover-image": "Cover",
+  "cover-video": "Cover video",
+};
+
+interface UsageSummaryProps {
+  usage?: UsageEntry[];
+  budget?: number;
+}
+
+export default function UsageSummary({ usage, budget }: UsageSummaryProps) {
+  const summary = summarizeUsage(usage);
+
+  return (
+    <div className="p-3 space-y-2 min-w-[240px] text-sm">
+      <div className="flex justify-between font-bold text-amber-900">
+        <span>Estimated cost</span>
+        <span>{formatCost(summary.totalCost)}</span>
+      </div>
+      {budget ? (
+        <div className="text-xs text-muted-foreground">
+          Budget {formatCost(budget)} ·{" "}
+          {formatCost(Math.max(0, budget - summary.totalCost))} left
+        </div>
+      ) : null}
+
+      <div className="border-t-2 border-amber-200 pt-2 space-y-1">
+        {summary.byPurpose.map((group) => (
+          <div key={group.purpose} className="flex justify-between gap-4 text-xs">
+            <span>
+              {PURPOSE_LABELS[group.purpose] || group.purpose}{" "}
+              <span className="text-muted-foreground">×{group.calls}</span>
+            </span>
+            <span>{formatCost(group.cost)}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="border-t-2 border-amber-200 pt-2 text-xs text-muted-foreground">
+        {summary.calls} calls · {summary.images} pictures ·{" "}
+        {(summary.inputTokens + summary.outputTokens).toLocaleString()} tokens
+        {summary.videoSeconds > 0 && ` · ${summary.videoSeconds}s video`}
+      </div>
+    </div>
+  );
+}
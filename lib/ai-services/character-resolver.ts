@@ -0,0 +1,129 @@
+import { Character, Panel, StoryPage } from "@/lib/types";
+
+// Shortest name fragment that may match by prefix ("Max" -> "Maxwell")
+const MIN_PREFIX_LENGTH = 3;
+
+export interface ResolvedPages {
+    pages: StoryPage[];
+    unresolved: string[];
+}
+
+// "The Max's!" -> "max", "Zoë" -> "zoe"
+export function normalizeCharacterName(name: string): string {
+    return name
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/['’]s\b/g, '')
+        .replace(/[^a-z0-9\s-]/g, ' ')
+        .replace(/^\s*(the|a|an|little|young|old|mr|mrs|ms|miss|dr)\s+/, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function editDistance(a: string, b: string): number {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let previous = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const current = row[j];
+            row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+            previous = current;
+        }
+    }
+    return row[b.length];
+}
+
+// One typo for short names, two for long ones
+function isNearMatch(a: string, b: string): boolean {
+    const allowed = Math.min(a.length, b.length) >= 7 ? 2 : Math.min(a.length, b.length) >= 4 ? 1 : 0;
+    return allowed > 0 && Math.abs(a.length - b.length) <= allowed && editDistance(a, b) <= allowed;
+}
+
+function isPrefixMatch(a: string, b: string): boolean {
+    const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+    return shorter.length >= MIN_PREFIX_LENGTH && longer.startsWith(shorter);
+}
+
+/**
+ * Maps a character reference from model output to one of the story's characters.
+ * Tries, in order: the id, the exact name, a single name part ("Max" for "Max Power"),
+ * a name prefix ("Max" for "Maxwell") and a near spelling ("Lilly" for "Lily").
+ * Each step only counts when exactly one character matches, so two "Max" characters
+ * are never confused; ambiguous and unknown references resolve to null.
+ */
+export function resolveCharacterReference(reference: string, characters: Character[]): Character | null {
+    const byId = characters.find(char => char.id === reference.trim());
+    if (byId) return byId;
+
+    const target = normalizeCharacterName(reference);
+    if (!target) return null;
+
+    const candidates = characters.map(char => {
+        const name = normalizeCharacterName(char.name);
+        return { char, name, parts: name.split(' ') };
+    });
+    const targetParts = target.split(' ');
+
+    const steps: ((candidate: typeof candidates[number]) => boolean)[] = [
+        ({ name }) => name === target,
+        ({ parts }) => parts.includes(target) || targetParts.includes(parts[0]),
+        ({ name, parts }) => isPrefixMatch(name, target) || isPrefixMatch(parts[0], targetParts[0]),
+        ({ name, parts }) => isNearMatch(name, target) || isNearMatch(parts[0], targetParts[0]),
+    ];
+
+    for (const step of steps) {
+        const matches = candidates.filter(step);
+        if (matches.length === 1) return matches[0].char;
+        if (matches.length > 1) return null;
+    }
+    return null;
+}
+
+// Rewrites panel.characters as ids, recording references that matched nobody
+export function resolvePanelCharacters(panel: Panel, characters: Character[]): Panel {
+    const ids: string[] = [];
+    const unresolved: string[] = [];
+
+    panel.characters.forEach(reference => {
+        const match = resolveCharacterReference(reference, characters);
+        if (!match) {
+            unresolved.push(reference);
+        } else if (!ids.includes(match.id)) {
+            ids.push(match.id);
+        }
+    });
+
+    const { unresolvedCharacters, ...rest } = panel;
+    return unresolved.length > 0
+        ? { ...rest, characters: ids, unresolvedCharacters: unresolved }
+        : { ...rest, characters: ids };
+}
+
+export function resolveStoryCharacters(pages: StoryPage[], characters: Character[]): ResolvedPages {
+    const unresolved = new Set<string>();
+    const resolvedPages = pages.map(page => ({
+        ...page,
+        panels: page.panels.map(panel => {
+            const resolved = resolvePanelCharacters(panel, characters);
+            resolved.unresolvedCharacters?.forEach(name => unresolved.add(name));
+            return resolved;
+        })
+    }));
+
+    if (unresolved.size > 0) {
+        console.warn(`[CHARACTER_RESOLVER] Could not match to a character: ${Array.from(unresolved).join(', ')}`);
+    }
+    return { pages: resolvedPages, unresolved: Array.from(unresolved) };
+}
+
+// Characters in a panel; also accepts panels from stories saved with names instead of ids
+export function getPanelCharacters(panel: Panel, characters: Character[]): Character[] {
+    const found: Character[] = [];
+    panel.characters.forEach(reference => {
+        const match = resolveCharacterReference(reference, characters);
+        if (match && !found.includes(match)) found.push(match);
+    });
+    return found;
+}
@@ -1,90 +1,294 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { StoryConfig, Character, Panel, StoryPage } from "@/lib/types";
-
-// Helper function to create Gemini client with API key
-function createGeminiClient(apiKey: string): GoogleGenAI {
-  return new GoogleGenAI({ apiKey });
-}
-
-// Helper function to try API call with fallback
-async function callGeminiWithFallback<T>(
-  apiKey: string,
-  apiCall: (client: GoogleGenAI) => Promise<T>
-): Promise<T> {
-  const client = createGeminiClient(apiKey);
-  return await apiCall(client);
-}
-
-// Proper schema definitions using Type enum for AI responses
-const characterSchema = {
-    type: Type.OBJECT,
+import {
+    StoryConfig,
+    Character,
+    Panel,
+    StoryPage,
+    TextRenderMode,
+    GeneratedStory,
+    StoryLanguage,
+    StoryTranslation,
+    CharacterTurnaround,
+    PanelConsistency,
+    StoryOutline,
+    AgeGroup,
+    ReadingLevel,
+    StoryReader,
+} from "@/lib/types";
+import { generateId } from "@/lib/utils";
+import { BudgetExceededError, UsageLedger } from "@/lib/usage/usage-ledger";
+import { ModerationIssue, ModerationText, SafetyCategory } from "@/lib/safety/types";
+import { getLanguageName, getStoryLanguage, getTranslationSource } from "@/lib/i18n/languages";
+import { getThemeLabel } from "@/lib/story-options";
+import { getPanelCharacters, resolveStoryCharacters } from "./character-resolver";
+import { TURNAROUND_EXPRESSIONS, TURNAROUND_POSES, selectCharacterReferences } from "./reference-selector";
+import {
+    AIProvider,
+    ContentBlockedError,
+    ImageGenerationRequest,
+    ImageReference,
+    MeteredProvider,
+    ResponseSchema,
+    SchemaType,
+    dataUrlToReference,
+    getAIProvider,
+    toDataUrl,
+} from "./providers";
+
+// Provider-neutral schema definitions for AI responses
+const characterSchema: ResponseSchema = {
+    type: SchemaType.OBJECT,
     properties: {
-        name: { type: Type.STRING },
-        description: { type: Type.STRING },
-        personality: { type: Type.STRING },
-        appearance: { type: Type.STRING },
-        role: { type: Type.STRING }
+        name: { type: SchemaType.STRING },
+        description: { type: SchemaType.STRING },
+        personality: { type: SchemaType.STRING },
+        appearance: { type: SchemaType.STRING },
+        role: { type: SchemaType.STRING }
     },
     required: ['name', 'description', 'personality', 'appearance', 'role']
 };
 
-const panelSchema = {
-    type: Type.OBJECT,
+const panelSchema: ResponseSchema = {
+    type: SchemaType.OBJECT,
     properties: {
-        id: { type: Type.STRING },
-        description: { type: Type.STRING },
-        characters: { type: Type.ARRAY, items: { type: Type.STRING } },
-        dialogue: { type: Type.ARRAY, items: { type: Type.STRING } },
-        narration: { type: Type.STRING, nullable: true }
+        id: { type: SchemaType.STRING },
+        description: { type: SchemaType.STRING },
+        characters: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+        dialogue: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+        narration: { type: SchemaType.STRING, nullable: true }
     },
     required: ['id', 'description', 'characters']
 };
 
-const storyPageSchema = {
-    type: Type.OBJECT,
+const storyPageSchema: ResponseSchema = {
+    type: SchemaType.OBJECT,
     properties: {
-        id: { type: Type.STRING },
-        pageNumber: { type: Type.NUMBER },
-        panels: { type: Type.ARRAY, items: panelSchema }
+        id: { type: SchemaType.STRING },
+        pageNumber: { type: SchemaType.NUMBER },
+        panels: { type: SchemaType.ARRAY, items: panelSchema }
     },
     required: ['id', 'pageNumber', 'panels']
 };
 
-const storySchema = {
-    type: Type.OBJECT,
+const storySchema: ResponseSchema = {
+    type: SchemaType.OBJECT,
     properties: {
-        title: { type: Type.STRING },
-        pages: { type: Type.ARRAY, items: storyPageSchema },
-        characters: { type: Type.ARRAY, items: characterSchema }
+        title: { type: SchemaType.STRING },
+        pages: { type: SchemaType.ARRAY, items: storyPageSchema },
+        characters: { type: SchemaType.ARRAY, items: characterSchema }
     },
     required: ['title', 'pages', 'characters']
 };
 
-const characterDescriptionSchema = {
-    type: Type.ARRAY,
+const characterDescriptionSchema: ResponseSchema = {
+    type: SchemaType.ARRAY,
     items: {
-        type: Type.OBJECT,
+        type: SchemaType.OBJECT,
         properties: {
-            name: { type: Type.STRING },
-            description: { type: Type.STRING },
-            personality: { type: Type.STRING },
-            appearance: { type: Type.STRING },
-            role: { type: Type.STRING }
+            name: { type: SchemaType.STRING },
+            description: { type: SchemaType.STRING },
+            personality: { type: SchemaType.STRING },
+            appearance: { type: SchemaType.STRING },
+            role: { type: SchemaType.STRING }
         },
         required: ['name', 'description', 'personality', 'appearance', 'role']
     }
 };
 
+// Panels are sent and returned as one flat list, in reading order
+const storyTranslationSchema: ResponseSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        title: { type: SchemaType.STRING },
+        panels: {
+            type: SchemaType.ARRAY,
+            items: {
+                type: SchemaType.OBJECT,
+                properties: {
+                    dialogue: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+                    narration: { type: SchemaType.STRING, nullable: true }
+                },
+                required: ['dialogue']
+            }
+        }
+    },
+    required: ['title', 'panels']
+};
+
+// Age-appropriate content guidelines
+const AGE_GUIDELINES: Record<AgeGroup, { vocabulary: string; complexity: string; themes: string; dialogue: string }> = {
+    '3-5': {
+        vocabulary: 'very simple words and short sentences',
+        complexity: 'basic concepts and simple storylines',
+        themes: 'everyday activities, friendship, and basic emotions',
+        dialogue: 'short, simple phrases that preschoolers can understand'
+    },
+    '6-8': {
+        vocabulary: 'elementary reading level with some challenging words',
+        complexity: 'clear storylines with simple problem-solving',
+        themes: 'adventures, learning new things, overcoming small challenges',
+        dialogue: 'conversational but age-appropriate language'
+    },
+    '9-12': {
+        vocabulary: 'intermediate vocabulary with more complex sentence structures',
+        complexity: 'multi-layered plots with character development',
+        themes: 'more complex adventures, personal growth, friendship challenges',
+        dialogue: 'natural conversations with some sophisticated language'
+    },
+    '13+': {
+        vocabulary: 'advanced vocabulary and complex sentence structures',
+        complexity: 'sophisticated plots with deeper themes and character arcs',
+        themes: 'coming-of-age, identity, complex relationships, moral dilemmas',
+        dialogue: 'realistic teen/young adult conversations'
+    }
+};
+
+// Layered on top of the age guidelines: two children of the same age can read very differently
+const READING_LEVEL_GUIDELINES: Record<ReadingLevel, string> = {
+    listener: 'the story is read aloud to them, so favor rhythm, repetition and sounds that are fun to hear',
+    beginner: 'they are sounding out words, so keep sentences very short and use mostly familiar, easy-to-decode words',
+    independent: 'they read simple books alone, so use short paragraphs and explain any unusual word through context',
+    confident: 'they read longer books with ease, so richer vocabulary and longer sentences are welcome',
+};
+
+// Tells the model who the book is for; empty when no reader profile was picked
+function describeReader(reader?: StoryReader): string {
+    if (!reader) return '';
+
+    const favorites = reader.favoriteThemes.length > 0
+        ? `\n- Favorite kinds of stories: ${reader.favoriteThemes.map(getThemeLabel).join(', ')}`
+        : '';
+    return `
+PERSONALIZATION - this book is for ${reader.name}, age ${reader.age}:
+- Reading level: ${READING_LEVEL_GUIDELINES[reader.readingLevel]}${favorites}
+- Write it so ${reader.name} feels it was made for them, but only include ${reader.name} as a character if they are in the character list
+`;
+}
+
+const storyOutlineSchema: ResponseSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        titleOptions: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+        beats: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } }
+    },
+    required: ['titleOptions', 'beats']
+};
+
+// Categories the model may flag; the blocklist and contact details are checked locally
+const MODERATION_CATEGORIES: SafetyCategory[] = ['violence', 'weapons', 'scary', 'romance', 'substances', 'profanity', 'self-harm'];
+
+const contentModerationSchema: ResponseSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        flagged: {
+            type: SchemaType.ARRAY,
+            items: {
+                type: SchemaType.OBJECT,
+                properties: {
+                    index: { type: SchemaType.INTEGER, description: 'Number of the text, as given in brackets' },
+                    category: { type: SchemaType.STRING, enum: MODERATION_CATEGORIES },
+                    suggestion: { type: SchemaType.STRING, description: 'What to change, in one sentence for a parent' }
+                },
+                required: ['index', 'category', 'suggestion']
+            }
+        }
+    },
+    required: ['flagged']
+};
+
+const panelConsistencySchema: ResponseSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        score: { type: SchemaType.INTEGER, description: '0-100, 100 means every character matches its design' },
+        issues: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } }
+    },
+    required: ['score', 'issues']
+};
+
 export class GeminiService {
+    private provider: AIProvider | null;
+    private ledger: UsageLedger | null;
+
+    constructor(provider?: AIProvider, ledger?: UsageLedger) {
+        this.provider = provider || null;
+        this.ledger = ledger || null;
+    }
+
+    // Explicitly injected provider wins; otherwise follow the shared registry
+    private get ai(): AIProvider {
+        const provider = this.provider || getAIProvider();
+        return this.ledger ? new MeteredProvider(provider, this.ledger) : provider;
+    }
+
+    // A service whose calls are recorded in (and limited by) the given ledger
+    withLedger(ledger: UsageLedger): GeminiService {
+        return new GeminiService(this.provider || undefined, ledger);
+    }
+
+    setProvider(provider: AIProvider | null): void {
+        this.provider = provider;
+    }
+
     private async callWithFallback<T>(apiKey: string, apiCall: () => Promise<T>): Promise<T> {
         try {
             return await apiCall();
         } catch (error: any) {
+            if (error instanceof BudgetExceededError) {
+                throw error;
+            }
             console.error('[GEMINI] API call failed:', error.message);
             throw new Error(`AI service failed: ${error.message}`);
         }
     }
 
+    // Runs an image request up to twice, returning a data URL for the first image produced
+    private async generateImageWithRetries(
+        apiKey: string,
+        request: ImageGenerationRequest,
+        label: string,
+        onBlocked?: () => Promise<string>
+    ): Promise<string> {
+        let lastError: Error | null = null;
+
+        for (let attempt = 1; attempt <= 2; attempt++) {
+            try {
+                console.log(`[GEMINI] Attempt ${attempt}/2 - Calling ${this.ai.name} provider for ${label}...`);
+
+                const image = await this.ai.generateImage(apiKey, request);
+
+                console.log(`[GEMINI] Received ${label} response from ${this.ai.name} provider`);
+
+                if (image) {
+                    console.log(`[GEMINI] Generated ${label}: ${image.mimeType}, size: ${Math.round(image.data.length / 1024)}KB`);
+                    return toDataUrl(image);
+                }
+
+                const errorMsg = `${label} failed: No image data in response (attempt ${attempt}/2)`;
+                console.error(`[GEMINI] ${errorMsg}`);
+                lastError = new Error(errorMsg);
+            } catch (error) {
+                if (error instanceof BudgetExceededError) {
+                    throw error;
+                }
+                if (error instanceof ContentBlockedError && onBlocked) {
+                    console.warn(`[GEMINI] Content was flagged as prohibited during ${label}. Trying with modified prompt...`);
+                    return onBlocked();
+                }
+
+                const errorMsg = `${label} attempt ${attempt}/2 failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+                console.error(`[GEMINI] ${errorMsg}`);
+                lastError = new Error(errorMsg);
+            }
+
+            if (attempt < 2) {
+                console.log(`[GEMINI] Retrying ${label}...`);
+                await new Promise(resolve => setTimeout(resolve, 1000));
+            }
+        }
+
+        console.error(`[GEMINI] All ${label} attempts failed`);
+        throw lastError || new Error(`${label} failed after 2 attempts`);
+    }
+
     async generateCharacterDescriptions(apiKey: string, characters: Character[], config?: StoryConfig): Promise<Character[]> {
         console.log('[GEMINI] Generating character descriptions...');
         console.log(`[GEMINI] Describing characters: ${characters.map(c => c.name).join(', ')}`);
@@ -118,19 +322,13 @@ Return as JSON array with objects containing: name, description, personality, ap
         `;
 
         return this.callWithFallback(apiKey, async () => {
-            const response = await callGeminiWithFallback(apiKey, async (client) => 
-                client.models.generateContent({
-                    model: "gemini-2.5-flash",
-                    contents: [{ role: 'user', parts: [{ text: prompt }] }],
-                    config: {
-                        responseMimeType: "application/json",
-                        responseSchema: characterDescriptionSchema,
-                    },
-                })
-            );
+            const jsonText = await this.ai.generateJson(apiKey, {
+                prompt,
+                schema: characterDescriptionSchema,
+                purpose: 'character-descriptions',
+            });
 
-            console.log('[GEMINI] Received character description response from Gemini API');
-            const jsonText = response.text || '';
+            console.log(`[GEMINI] Received character description response from ${this.ai.name} provider`);
             console.log(`[GEMINI] Character description response length: ${jsonText.length} characters`);
             
             try {
@@ -186,174 +384,141 @@ GENERATE A CONSISTENT CHARACTER DESIGN NOW.`;
 
         return this.callWithFallback(apiKey, async () => {
             const textParts = [{ text: basePrompt }];
-            const imageParts: any[] = [];
+            const references: ImageReference[] = [];
             
             // If character has uploaded image, use it as reference
             if (character.base64Image && character.mimeType) {
-                imageParts.push({
-                    inlineData: {
-                        data: character.base64Image,
-                        mimeType: character.mimeType
-                    }
-                });
+                references.push({ data: character.base64Image, mimeType: character.mimeType });
                 textParts.push({
                     text: "\n\nUse the uploaded photo as reference for facial features and general appearance while creating a consistent cartoon character design. Maintain the person's distinctive features but render in a professional ${style} book character sheet style."
                 });
             }
 
-            console.log(`[GEMINI] Using ${imageParts.length} reference images for character design`);
+            console.log(`[GEMINI] Using ${references.length} reference images for character design`);
 
-            let lastError: Error | null = null;
-            
-            for (let attempt = 1; attempt <= 2; attempt++) {
-                try {
-                    console.log(`[GEMINI] Attempt ${attempt}/2 - Calling Gemini API for character design generation...`);
-
-                    const response = await callGeminiWithFallback(apiKey, async (client) =>
-                        client.models.generateContent({
-                            model: 'gemini-2.5-flash-image-preview',
-                            contents: [
-                                { role: 'user', parts: [...imageParts, ...textParts] }
-                            ],
-                            config: {
-                                responseModalities: [Modality.IMAGE, Modality.TEXT],
-                            },
-                        })
-                    );
-
-                    console.log('[GEMINI] Received character design response from Gemini API');
-                    
-                    if (response.candidates?.[0]?.content?.parts) {
-                        for (const part of response.candidates[0].content.parts) {
-                            if (part.inlineData) {
-                                const { data, mimeType } = part.inlineData;
-                                if (data) {
-                                    console.log(`[GEMINI] Generated character design: ${mimeType}, size: ${Math.round(data.length / 1024)}KB`);
-                                    return `data:${mimeType};base64,${data}`;
-                                }
-                            }
-                        }
-                    }
-
-                    const errorMsg = `Character design generation failed: No image data in response (attempt ${attempt}/2)`;
-                    console.error(`[GEMINI] ${errorMsg}`);
-                    lastError = new Error(errorMsg);
-                    
-                    if (attempt < 2) {
-                        console.log('[GEMINI] Retrying character design generation...');
-                        await new Promise(resolve => setTimeout(resolve, 1000));
-                    }
-                    
-                } catch (error) {
-                    const errorMsg = `Character design generation attempt ${attempt}/2 failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
-                    console.error(`[GEMINI] ${errorMsg}`);
-                    lastError = new Error(errorMsg);
-                    
-                    if (attempt < 2) {
-                        console.log('[GEMINI] Retrying after error...');
-                        await new Promise(resolve => setTimeout(resolve, 1000));
-                    }
-                }
-            }
-
-            console.error('[GEMINI] All character design generation attempts failed');
-            throw lastError || new Error("Character design generation failed after 2 attempts");
+            return this.generateImageWithRetries(
+                apiKey,
+                { prompt: textParts.map(part => part.text), references, purpose: 'character-design' },
+                'character design'
+            );
         });
     }
 
-    async generateCartoonCharacterImage(apiKey: string, character: Character, style: string): Promise<string> {
-        console.log(`[GEMINI] Generating cartoon image for ${character.name}...`);
+    // Draws extra poses and expressions from the approved design; views that fail are left out
+    async generateCharacterTurnaround(
+        apiKey: string,
+        character: Character,
+        style: string,
+        onProgress?: (label: string, completed: number, total: number) => void
+    ): Promise<CharacterTurnaround> {
+        if (!character.generatedDesignImage) {
+            throw new Error(`${character.name} needs a character design before drawing a turnaround`);
+        }
+        console.log(`[GEMINI] Generating turnaround sheet for ${character.name}...`);
+
+        const design = dataUrlToReference(character.generatedDesignImage);
+        const turnaround: CharacterTurnaround = { poses: {}, expressions: {}, createdAt: new Date() };
+        const views = [
+            ...TURNAROUND_POSES.map(view => ({
+                ...view,
+                save: (image: string) => { turnaround.poses[view.value] = image; }
+            })),
+            ...TURNAROUND_EXPRESSIONS.map(view => ({
+                ...view,
+                save: (image: string) => { turnaround.expressions[view.value] = image; }
+            })),
+        ];
+
+        for (let i = 0; i < views.length; i++) {
+            const view = views[i];
+            onProgress?.(view.label, i, views.length);
 
-        const basePrompt = `IMPORTANT: You MUST generate an image. This is required.
+            const prompt = `IMPORTANT: You MUST generate an image. This is required.
 
-Style: A colorful cartoon character illustration in ${style} book style. Vertical 9:16 aspect ratio. DO NOT add any text, speech bubbles, or titles into the image.
+Draw ${character.name} from the reference image: ${view.prompt}.
 
 Character: ${character.name}
-Description: ${character.description || character.generatedDescription}
+Description: ${character.generatedDescription || character.description}
 
-Art Requirements:
-- Bright, colorful, child-friendly cartoon with bold outlines
-- Vibrant colors suitable for children's books
-- Simple white or transparent background
-- High-resolution digital illustration quality
-- ${style} book illustration aesthetic
+CRITICAL REQUIREMENTS:
+- The character must be IDENTICAL to the reference image: same face, hair, colors, outfit and proportions
+- ${style} book illustration style with bold outlines and bright colors
+- Simple white background, no props or scenery
+- DO NOT add any text, labels or titles into the image
 
-GENERATE A CHARACTER IMAGE NOW.`;
+GENERATE THE ${view.label.toUpperCase()} NOW.`;
 
-        return this.callWithFallback(apiKey, async () => {
-            const textParts = [{ text: basePrompt }];
-            const imageParts: any[] = [];
-            
-            // If character has uploaded image, use it as reference
-            if (character.base64Image && character.mimeType) {
-                imageParts.push({
-                    inlineData: {
-                        data: character.base64Image,
-                        mimeType: character.mimeType
-                    }
-                });
-                textParts.push({
-                    text: "\n\nUse the uploaded photo as reference for facial features while creating a cartoon-style version. Maintain the person's distinctive features but render in a friendly cartoon style."
-                });
+            try {
+                const image = await this.callWithFallback(apiKey, () =>
+                    this.generateImageWithRetries(
+                        apiKey,
+                        { prompt, references: [design], purpose: 'character-turnaround' },
+                        `${character.name} ${view.label.toLowerCase()}`
+                    )
+                );
+                view.save(image);
+            } catch (error) {
+                console.warn(`[GEMINI] Skipping ${view.label} for ${character.name}:`, error);
             }
+        }
 
-            console.log(`[GEMINI] Using ${imageParts.length} character reference images`);
+        return turnaround;
+    }
 
-            let lastError: Error | null = null;
-            
-            for (let attempt = 1; attempt <= 2; attempt++) {
-                try {
-                    console.log(`[GEMINI] Attempt ${attempt}/2 - Calling Gemini API for character image generation...`);
-
-                    const response = await callGeminiWithFallback(apiKey, async (client) =>
-                        client.models.generateContent({
-                            model: 'gemini-2.5-flash-image-preview',
-                            contents: [
-                                { role: 'user', parts: [...imageParts, ...textParts] }
-                            ],
-                            config: {
-                                responseModalities: [Modality.IMAGE, Modality.TEXT],
-                            },
-                        })
-                    );
-
-                    console.log('[GEMINI] Received character image response from Gemini API');
-                    
-                    if (response.candidates?.[0]?.content?.parts) {
-                        for (const part of response.candidates[0].content.parts) {
-                            if (part.inlineData) {
-                                const { data, mimeType } = part.inlineData;
-                                if (data) {
-                                    console.log(`[GEMINI] Generated character image: ${mimeType}, size: ${Math.round(data.length / 1024)}KB`);
-                                    return `data:${mimeType};base64,${data}`;
-                                }
-                            }
-                        }
-                    }
+    // Title options and a one-line beat per page, reviewed by the user before the script is written
+    async generateStoryOutline(apiKey: string, config: StoryConfig, characters: Character[]): Promise<StoryOutline> {
+        const pageCount = config.pageCount || 5;
+        const targetAge = config.targetAge || '6-8';
+        const currentAgeGroup = AGE_GUIDELINES[targetAge];
+        const language = config.language || 'en';
 
-                    const errorMsg = `Character image generation failed: No image data in response (attempt ${attempt}/2)`;
-                    console.error(`[GEMINI] ${errorMsg}`);
-                    lastError = new Error(errorMsg);
-                    
-                    if (attempt < 2) {
-                        console.log('[GEMINI] Retrying character image generation...');
-                        await new Promise(resolve => setTimeout(resolve, 1000));
-                    }
-                    
-                } catch (error) {
-                    const errorMsg = `Character image generation attempt ${attempt}/2 failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
-                    console.error(`[GEMINI] ${errorMsg}`);
-                    lastError = new Error(errorMsg);
-                    
-                    if (attempt < 2) {
-                        console.log('[GEMINI] Retrying after error...');
-                        await new Promise(resolve => setTimeout(resolve, 1000));
-                    }
-                }
+        console.log(`[GEMINI] Generating story outline with ${pageCount} beats...`);
+
+        const prompt = `
+You are an expert children's storybook creator. Plan a ${config.theme} story in ${config.style} format for ages ${targetAge}.
+
+STORY DETAILS:
+Prompt: ${config.prompt}
+Setting: ${config.setting}
+Characters:
+${characters.map(char => `- ${char.name}: ${char.description || char.generatedDescription}`).join('\n')}
+
+OUTLINE REQUIREMENTS:
+- Suggest 3 short, catchy title options
+- Write EXACTLY ${pageCount} beats, one per page, in reading order
+- Each beat is one or two sentences saying what happens on that page
+- The first beat sets up the story and the last beat resolves it
+- Keep it suitable for ${targetAge} year olds: ${currentAgeGroup.themes}
+- Write the titles and beats in ${getLanguageName(language)}
+${describeReader(config.reader)}        `;
+
+        return this.callWithFallback(apiKey, async () => {
+            const jsonText = await this.ai.generateJson(apiKey, {
+                prompt,
+                schema: storyOutlineSchema,
+                purpose: 'story-outline',
+            });
+
+            let outline: { titleOptions: string[]; beats: string[] };
+            try {
+                outline = JSON.parse(jsonText);
+            } catch (e) {
+                console.error('[GEMINI] Failed to parse outline as JSON:', jsonText);
+                throw new Error('The AI returned an invalid outline format.');
+            }
+
+            const titleOptions = outline.titleOptions.map(title => title.trim()).filter(Boolean);
+            const beats = outline.beats.map(summary => summary.trim()).filter(Boolean);
+            if (titleOptions.length === 0 || beats.length === 0) {
+                throw new Error('The AI returned an empty outline.');
             }
 
-            console.error('[GEMINI] All character image generation attempts failed');
-            throw lastError || new Error("Character image generation failed after 2 attempts");
+            console.log(`[GEMINI] Generated outline with ${beats.length} beats and ${titleOptions.length} titles`);
+            return {
+                title: titleOptions[0],
+                titleOptions,
+                beats: beats.map(summary => ({ id: `beat-${generateId()}`, summary }))
+            };
         });
     }
 
@@ -364,41 +529,29 @@ GENERATE A CHARACTER IMAGE NOW.`;
         console.log('[GEMINI] Generating complete story...');
         console.log(`[GEMINI] Story theme: ${config.theme}, style: ${config.style}`);
         console.log(`[GEMINI] Characters: ${characters.map(c => c.name).join(', ')}`);
+        if (config.reader) {
+            console.log(`[GEMINI] Personalized for reader: ${config.reader.name}`);
+        }
 
-        const pageCount = config.pageCount || 5;
+        // An approved outline fixes the title and the number of pages
+        const outline = config.outline;
+        const pageCount = outline ? outline.beats.length : config.pageCount || 5;
         const targetAge = config.targetAge || '6-8';
         
         console.log(`[GEMINI] Target age: ${targetAge}, Page count: ${pageCount}`);
         
-        // Age-appropriate content guidelines
-        const ageGuidelines = {
-            '3-5': {
-                vocabulary: 'very simple words and short sentences',
-                complexity: 'basic concepts and simple storylines',
-                themes: 'everyday activities, friendship, and basic emotions',
-                dialogue: 'short, simple phrases that preschoolers can understand'
-            },
-            '6-8': {
-                vocabulary: 'elementary reading level with some challenging words',
-                complexity: 'clear storylines with simple problem-solving',
-                themes: 'adventures, learning new things, overcoming small challenges',
-                dialogue: 'conversational but age-appropriate language'
-            },
-            '9-12': {
-                vocabulary: 'intermediate vocabulary with more complex sentence structures',
-                complexity: 'multi-layered plots with character development',
-                themes: 'more complex adventures, personal growth, friendship challenges',
-                dialogue: 'natural conversations with some sophisticated language'
-            },
-            '13+': {
-                vocabulary: 'advanced vocabulary and complex sentence structures',
-                complexity: 'sophisticated plots with deeper themes and character arcs',
-                themes: 'coming-of-age, identity, complex relationships, moral dilemmas',
-                dialogue: 'realistic teen/young adult conversations'
-            }
-        };
-
-        const currentAgeGroup = ageGuidelines[targetAge];
+        const currentAgeGroup = AGE_GUIDELINES[targetAge];
+        const language = config.language || 'en';
+        const languageRequirement = language === 'en'
+            ? ''
+            : `\n- Write the title, all dialogue and all narration in ${getLanguageName(language)}. Keep panel descriptions and character names in English`;
+        const outlineSection = outline
+            ? `
+APPROVED OUTLINE - follow it exactly, one page per beat, in this order:
+Title: ${outline.title}
+${outline.beats.map((beat, index) => `- Page ${index + 1}: ${beat.summary}`).join('\n')}
+`
+            : '';
 
         const system_prompt = `
 You are an expert children's storybook creator. Create a complete, engaging ${config.theme} story in ${config.style} format for ages ${targetAge}.
@@ -409,7 +562,7 @@ STORY REQUIREMENTS:
 - Each panel must have clear visual descriptions suitable for illustration
 - Include age-appropriate dialogue and narration for ${targetAge} year olds
 - Ensure story has beginning, middle, and satisfying conclusion
-- Use all characters meaningfully throughout the story
+- Use all characters meaningfully throughout the story${languageRequirement}
 
 AGE-APPROPRIATE CONTENT for ${targetAge} year olds:
 - Vocabulary: ${currentAgeGroup.vocabulary}
@@ -424,14 +577,14 @@ Theme: ${config.theme}
 Style: ${config.style}
 Target Age: ${targetAge} years old
 Number of Pages: ${pageCount}
-
-Characters:
-${characters.map(char => `- ${char.name}: ${char.description || char.generatedDescription}`).join('\n')}
+${outlineSection}${describeReader(config.reader)}
+Characters (id in brackets):
+${characters.map(char => `- [${char.id}] ${char.name}: ${char.description || char.generatedDescription}`).join('\n')}
 
 PANEL STRUCTURE:
 - Each panel needs an id (e.g., "panel-1", "panel-2")
 - Detailed description of the visual scene for illustration
-- List of character names present in the panel
+- List of the ids of the characters present in the panel, exactly as given in brackets above
 - Dialogue array (if any characters speak) - appropriate for ${targetAge} year olds
 - Narration text (if needed for storytelling) - written for ${targetAge} reading level
 
@@ -447,21 +600,13 @@ Return as structured JSON with title, characters array, and pages array.
         `;
 
         return this.callWithFallback(apiKey, async () => {
-            const response = await callGeminiWithFallback(apiKey, async (client) =>
-                client.models.generateContent({
-                    model: "gemini-2.5-flash",
-                    contents: [
-                        { role: 'user', parts: [{ text: system_prompt }] }
-                    ],
-                    config: {
-                        responseMimeType: "application/json",
-                        responseSchema: storySchema,
-                    },
-                })
-            );
+            const jsonText = await this.ai.generateJson(apiKey, {
+                prompt: system_prompt,
+                schema: storySchema,
+                purpose: 'story',
+            });
 
-            console.log('[GEMINI] Received story response from Gemini API');
-            const jsonText = response.text || '';
+            console.log(`[GEMINI] Received story response from ${this.ai.name} provider`);
             console.log(`[GEMINI] Story response length: ${jsonText.length} characters`);
             
             try {
@@ -476,16 +621,25 @@ Return as structured JSON with title, characters array, and pages array.
                 const totalPanels = storyData.pages.reduce((acc: number, page: any) => acc + page.panels.length, 0);
                 console.log(`[GEMINI] Total panels created: ${totalPanels}`);
 
-                return {
-                    title: storyData.title,
-                    pages: storyData.pages.map((page: any) => ({
-                        ...page,
-                        panels: page.panels.map((panel: any) => ({
-                            ...panel,
-                            dialogue: panel.dialogue || [],
-                            narration: panel.narration || ''
-                        }))
+                const pages: StoryPage[] = storyData.pages.map((page: any) => ({
+                    ...page,
+                    panels: page.panels.map((panel: any) => ({
+                        ...panel,
+                        characters: panel.characters || [],
+                        dialogue: panel.dialogue || [],
+                        narration: panel.narration || ''
                     }))
+                }));
+
+                // The model may answer with names, nicknames or typos instead of ids
+                const resolved = resolveStoryCharacters(pages, characters);
+                if (resolved.unresolved.length > 0) {
+                    console.warn(`[GEMINI] Unmatched characters in story: ${resolved.unresolved.join(', ')}`);
+                }
+
+                return {
+                    title: outline?.title || storyData.title,
+                    pages: resolved.pages
                 };
             } catch (e) {
                 console.error("[GEMINI] Failed to parse story as JSON:", jsonText);
@@ -494,6 +648,154 @@ Return as structured JSON with title, characters array, and pages array.
         });
     }
 
+    // Rewrites the text of one page, keeping the rest of the script as context
+    async generateStoryPage(
+        apiKey: string,
+        config: StoryConfig,
+        characters: Character[],
+        story: { title: string; pages: StoryPage[] },
+        pageIndex: number,
+        guidance?: string // Extra instruction, e.g. what a safety review asked to change
+    ): Promise<StoryPage> {
+        const page = story.pages[pageIndex];
+        const targetAge = config.targetAge || '6-8';
+        const currentAgeGroup = AGE_GUIDELINES[targetAge];
+        const language = config.language || 'en';
+        const beat = config.outline?.beats[pageIndex];
+
+        console.log(`[GEMINI] Rewriting page ${page.pageNumber} of "${story.title}"...`);
+
+        const describePage = (other: StoryPage) => `Page ${other.pageNumber}:\n${other.panels.map(panel =>
+            `- ${panel.description}${panel.narration ? ` Narration: ${panel.narration}` : ''}${panel.dialogue?.length ? ` Dialogue: ${panel.dialogue.join(' / ')}` : ''}`
+        ).join('\n')}`;
+
+        const languageRequirement = language === 'en'
+            ? ''
+            : `\n- Write all dialogue and narration in ${getLanguageName(language)}. Keep panel descriptions in English`;
+
+        const prompt = `
+You are an expert children's storybook creator. Rewrite page ${page.pageNumber} of the ${config.theme} story "${story.title}" for ages ${targetAge}.
+
+REQUIREMENTS:
+- Write a fresh version of page ${page.pageNumber} with EXACTLY 2-3 panels
+- It must fit between the pages before and after it
+- Each panel needs a detailed visual description for illustration
+- List the ids of the characters present in each panel, exactly as given in brackets below
+- Dialogue: ${currentAgeGroup.dialogue}
+- Vocabulary: ${currentAgeGroup.vocabulary}${languageRequirement}
+${beat ? `- This page must cover: ${beat.summary}\n` : ''}${guidance ? `- ${guidance}\n` : ''}${describeReader(config.reader)}
+Characters (id in brackets):
+${characters.map(char => `- [${char.id}] ${char.name}: ${char.description || char.generatedDescription}`).join('\n')}
+
+THE WHOLE STORY SO FAR:
+${story.pages.map(describePage).join('\n\n')}
+
+Return the new page ${page.pageNumber} as structured JSON.
+        `;
+
+        return this.callWithFallback(apiKey, async () => {
+            const jsonText = await this.ai.generateJson(apiKey, {
+                prompt,
+                schema: storyPageSchema,
+                purpose: 'story-page',
+            });
+
+            let generated: { panels: any[] };
+            try {
+                generated = JSON.parse(jsonText);
+            } catch (e) {
+                console.error('[GEMINI] Failed to parse page as JSON:', jsonText);
+                throw new Error('The AI returned an invalid page format.');
+            }
+
+            const panels = generated.panels.map((panel: any) => ({
+                ...panel,
+                characters: panel.characters || [],
+                dialogue: panel.dialogue || [],
+                narration: panel.narration || ''
+            }));
+            const resolved = resolveStoryCharacters([{ ...page, panels }], characters);
+
+            console.log(`[GEMINI] Rewrote page ${page.pageNumber} with ${panels.length} panels`);
+            // Keep the page's identity and position; only the text is new
+            return { ...page, panels: resolved.pages[0].panels };
+        });
+    }
+
+    async translateStory(apiKey: string, story: GeneratedStory, language: StoryLanguage): Promise<StoryTranslation> {
+        const sourceLanguage = getLanguageName(getStoryLanguage(story));
+        const targetLanguage = getLanguageName(language);
+        console.log(`[GEMINI] Translating "${story.title}" from ${sourceLanguage} to ${targetLanguage}...`);
+
+        const sourcePanels = story.pages.flatMap(page =>
+            page.panels.map(panel => ({
+                dialogue: panel.dialogue || [],
+                narration: panel.narration || ''
+            }))
+        );
+
+        const prompt = `
+You are translating a children's storybook for ages ${story.config.targetAge || '6-8'} from ${sourceLanguage} to ${targetLanguage}.
+
+TRANSLATION REQUIREMENTS:
+- Translate the title and every panel's dialogue and narration into ${targetLanguage}
+- Return EXACTLY ${sourcePanels.length} panels, in the same order as the input
+- Keep the same number of dialogue lines in each panel
+- Keep character names unchanged, including any "Name:" prefix on dialogue lines
+- Keep the tone playful and the vocabulary right for the reader's age
+- Leave narration empty where the input narration is empty
+
+TITLE:
+${story.title}
+
+PANELS (JSON):
+${JSON.stringify(sourcePanels, null, 2)}
+        `;
+
+        return this.callWithFallback(apiKey, async () => {
+            const jsonText = await this.ai.generateJson(apiKey, {
+                prompt,
+                schema: storyTranslationSchema,
+                purpose: 'story-translation',
+            });
+
+            console.log(`[GEMINI] Received translation response from ${this.ai.name} provider`);
+
+            let translated: { title: string; panels: { dialogue?: string[]; narration?: string | null }[] };
+            try {
+                translated = JSON.parse(jsonText);
+            } catch (e) {
+                console.error('[GEMINI] Failed to parse translation as JSON:', jsonText);
+                throw new Error('The AI returned an invalid translation format.');
+            }
+
+            if (translated.panels.length !== sourcePanels.length) {
+                throw new Error(`The translation has ${translated.panels.length} panels, expected ${sourcePanels.length}.`);
+            }
+
+            // Rebuild the page/panel structure from the flat list
+            let index = 0;
+            const panels = story.pages.map(page =>
+                page.panels.map(() => {
+                    const panel = translated.panels[index++];
+                    return {
+                        dialogue: panel.dialogue || [],
+                        narration: panel.narration || ''
+                    };
+                })
+            );
+
+            console.log(`[GEMINI] Translated ${sourcePanels.length} panels to ${targetLanguage}`);
+            return {
+                language,
+                title: translated.title,
+                panels,
+                createdAt: new Date(),
+                source: getTranslationSource(story)
+            };
+        });
+    }
+
     async generateCoverImage(apiKey: string, story: { title: string, config: any, characters: Character[] }): Promise<string> {
         console.log(`[GEMINI] Generating cover image for: ${story.title}`);
 
@@ -530,94 +832,37 @@ GENERATE A STUNNING BOOK COVER NOW.` }
         ];
 
         // Add character reference images if available
-        const imageParts: any[] = [];
+        const references: ImageReference[] = [];
         story.characters.forEach(char => {
             if (char.generatedDesignImage) {
-                const base64Data = char.generatedDesignImage.split(',')[1];
-                const mimeType = char.generatedDesignImage.match(/data:([^;]+)/)?.[1] || 'image/png';
-                
-                imageParts.push({
-                    inlineData: {
-                        data: base64Data,
-                        mimeType: mimeType,
-                    }
-                });
+                references.push(dataUrlToReference(char.generatedDesignImage));
             } else if (char.base64Image && char.mimeType) {
-                imageParts.push({
-                    inlineData: {
-                        data: char.base64Image,
-                        mimeType: char.mimeType,
-                    }
-                });
+                references.push({ data: char.base64Image, mimeType: char.mimeType });
             }
         });
 
         return this.callWithFallback(apiKey, async () => {
-            let lastError: Error | null = null;
-            
-            for (let attempt = 1; attempt <= 2; attempt++) {
-                try {
-                    console.log(`[GEMINI] Attempt ${attempt}/2 - Calling Gemini API for cover generation...`);
-
-                    const response = await callGeminiWithFallback(apiKey, async (client) =>
-                        client.models.generateContent({
-                            model: 'gemini-2.5-flash-image-preview',
-                            contents: [
-                                { role: 'user', parts: [...imageParts, ...textParts] }
-                            ],
-                            config: {
-                                responseModalities: [Modality.IMAGE, Modality.TEXT],
-                            },
-                        })
-                    );
-
-                    console.log('[GEMINI] Received cover image response from Gemini API');
-                    
-                    if (response.candidates?.[0]?.content?.parts) {
-                        for (const part of response.candidates[0].content.parts) {
-                            if (part.inlineData) {
-                                const { data, mimeType } = part.inlineData;
-                                if (data) {
-                                    console.log(`[GEMINI] Generated cover image: ${mimeType}, size: ${Math.round(data.length / 1024)}KB`);
-                                    return `data:${mimeType};base64,${data}`;
-                                }
-                            }
-                        }
-                    }
-
-                    const errorMsg = `Cover image generation failed: No image data in response (attempt ${attempt}/2)`;
-                    console.error(`[GEMINI] ${errorMsg}`);
-                    lastError = new Error(errorMsg);
-                    
-                    if (attempt < 2) {
-                        console.log('[GEMINI] Retrying cover generation...');
-                        await new Promise(resolve => setTimeout(resolve, 1000));
-                    }
-                    
-                } catch (error) {
-                    const errorMsg = `Cover generation attempt ${attempt}/2 failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
-                    console.error(`[GEMINI] ${errorMsg}`);
-                    lastError = new Error(errorMsg);
-                    
-                    if (attempt < 2) {
-                        console.log('[GEMINI] Retrying after error...');
-                        await new Promise(resolve => setTimeout(resolve, 1000));
-                    }
-                }
-            }
-
-            console.error('[GEMINI] All cover generation attempts failed');
-            throw lastError || new Error("Cover generation failed after 2 attempts");
+            return this.generateImageWithRetries(
+                apiKey,
+                { prompt: textParts.map(part => part.text), references, purpose: 'cover-image' },
+                'cover image'
+            );
         });
     }
 
-    async generatePanelIllustration(apiKey: string, panel: Panel, characters: Character[], storyStyle: string): Promise<string> {
-        console.log(`[GEMINI] Generating illustration for panel ${panel.id}...`);
+    async generatePanelIllustration(
+        apiKey: string,
+        panel: Panel,
+        characters: Character[],
+        storyStyle: string,
+        textMode: TextRenderMode = 'baked'
+    ): Promise<string> {
+        console.log(`[GEMINI] Generating illustration for panel ${panel.id} (text: ${textMode})...`);
         console.log(`[GEMINI] Panel description: ${panel.description.substring(0, 100)}...`);
-        console.log(`[GEMINI] Characters in panel: ${panel.characters.join(', ')}`);
+        const panelCharacters = getPanelCharacters(panel, characters);
+        console.log(`[GEMINI] Characters in panel: ${panelCharacters.map(char => char.name).join(', ')}`);
 
-        const characterDescriptions = characters
-            .filter(char => panel.characters.includes(char.name))
+        const characterDescriptions = panelCharacters
             .map(char => `- ${char.name}: ${char.generatedDescription || char.description}`)
             .join('\n');
 
@@ -631,7 +876,36 @@ GENERATE A STUNNING BOOK COVER NOW.` }
         
         const textContent = [dialogueText, narrationText].filter(Boolean).join('\n');
 
-        const textParts = [
+        // In overlay mode the viewer lays the text out as HTML, so the art must stay text-free
+        const textFreeParts = [
+            { text: `IMPORTANT: You MUST generate an image. This is required.
+
+Style: A full-page dynamic colorful ${storyStyle} illustration. Create a complete scene that fills the entire page.
+
+Panel Scene: ${panel.description}
+
+Characters in this Panel:
+${characterDescriptions}
+
+CRITICAL REQUIREMENTS:
+- DO NOT draw any text, letters, words, speech bubbles, captions or titles anywhere in the image
+- Create a FULL PAGE illustration that fills the entire image space
+- Use the provided character reference images to maintain consistency
+- Match character appearances exactly to the reference images
+- Keep the top quarter and the bottom fifth of the image free of important details, text will be placed there later
+- Make the illustration detailed and engaging, suitable for a full page
+
+Art Requirements:
+- ${storyStyle} book illustration style
+- Bright, vibrant colors suitable for children
+- Clear, bold outlines and professional children's book quality
+- Character consistency with reference images
+- Full-page composition with rich background details
+
+GENERATE A FULL-PAGE TEXT-FREE STORY ILLUSTRATION NOW.` }
+        ];
+
+        const bakedTextParts = [
             { text: `IMPORTANT: You MUST generate an image. This is required.
 
 Style: A full-page dynamic colorful ${storyStyle} illustration. Create a complete scene that fills the entire page with integrated text elements.
@@ -668,138 +942,159 @@ Art Requirements:
 GENERATE A FULL-PAGE STORY ILLUSTRATION WITH INTEGRATED TEXT NOW.` }
         ];
 
+        const textParts = textMode === 'overlay' ? textFreeParts : bakedTextParts;
+
         // Add character reference images - prioritize generated designs over uploaded images
-        const imageParts: any[] = [];
-        characters
-            .filter(char => panel.characters.includes(char.name))
-            .forEach(char => {
-                // Use generated character design if available, otherwise use uploaded image
-                if (char.generatedDesignImage) {
-                    // Extract base64 data from data URL
-                    const base64Data = char.generatedDesignImage.split(',')[1];
-                    const mimeType = char.generatedDesignImage.match(/data:([^;]+)/)?.[1] || 'image/png';
-                    
-                    imageParts.push({
-                        inlineData: {
-                            data: base64Data,
-                            mimeType: mimeType,
-                        }
-                    });
-                } else if (char.base64Image && char.mimeType) {
-                    imageParts.push({
-                        inlineData: {
-                            data: char.base64Image,
-                            mimeType: char.mimeType,
-                        }
-                    });
-                }
+        const references: ImageReference[] = [];
+        const referenceLabels: string[] = [];
+        panelCharacters.forEach(char => {
+            // Generated design plus any turnaround pose/expression that fits this panel
+            const selected = selectCharacterReferences(char, panel);
+            if (selected.length > 0) {
+                selected.forEach(reference => {
+                    references.push(dataUrlToReference(reference.image));
+                    referenceLabels.push(reference.label);
+                });
+            } else if (char.base64Image && char.mimeType) {
+                references.push({ data: char.base64Image, mimeType: char.mimeType });
+                referenceLabels.push(`${char.name} - photo`);
+            }
+        });
+
+        if (referenceLabels.length > panelCharacters.length) {
+            textParts.push({
+                text: `\n\nReference images, in order:\n${referenceLabels.map((label, i) => `${i + 1}. ${label}`).join('\n')}\nUse the pose and expression references to draw each character in this scene, keeping them identical to their main design.`
             });
+        }
 
-        const charactersWithImages = characters.filter(char => panel.characters.includes(char.name) && char.base64Image && char.mimeType);
+        const charactersWithImages = panelCharacters.filter(char => char.base64Image && char.mimeType);
         console.log(`[GEMINI] Using ${charactersWithImages.length} character reference images`);
-        console.log(`[GEMINI] Using ${characters.filter(char => panel.characters.includes(char.name)).length - charactersWithImages.length} generated character descriptions`);
+        console.log(`[GEMINI] Using ${panelCharacters.length - charactersWithImages.length} generated character descriptions`);
+
+        const conservativeTextParts = [
+            { text: `Style: A completely wholesome, safe ${storyStyle} illustration. Vertical 9:16 aspect ratio. Show only positive, friendly interactions between characters. DO NOT add any text, speech bubbles, or titles into the image.` },
+            { text: `Scene: Characters having a calm, friendly conversation or meeting in ${panel.description.includes('indoor') ? 'an indoor setting' : 'an outdoor setting'}` },
+            { text: `Content: A peaceful scene with characters talking or interacting positively` },
+            { text: `Characters: All characters are smiling, talking calmly, or standing peacefully together` }
+        ];
 
         return this.callWithFallback(apiKey, async () => {
-            let lastError: Error | null = null;
-            
-            for (let attempt = 1; attempt <= 2; attempt++) {
-                try {
-                    console.log(`[GEMINI] Attempt ${attempt}/2 - Calling Gemini API for panel illustration...`);
-
-                    const response = await callGeminiWithFallback(apiKey, async (client) =>
-                        client.models.generateContent({
-                            model: 'gemini-2.5-flash-image-preview',
-                            contents: [
-                                { role: 'user', parts: [...imageParts, ...textParts] }
-                            ],
-                            config: {
-                                responseModalities: [Modality.IMAGE, Modality.TEXT],
-                            },
-                        })
-                    );
-
-                    console.log('[GEMINI] Received panel illustration response from Gemini API');
-                    
-                    if (!response.candidates || !response.candidates[0]) {
-                        console.error('[GEMINI] No candidates in response:', response);
-                        throw new Error('Invalid response from Gemini API - no candidates');
-                    }
-                    
-                    const candidate = response.candidates[0];
-                    
-                    // Handle content policy violations
-                    if (candidate.finishReason === 'PROHIBITED_CONTENT') {
-                        console.warn('[GEMINI] Content was flagged as prohibited. Trying with modified prompt...');
-                        
-                        const conservativeTextParts = [
-                            { text: `Style: A completely wholesome, safe ${storyStyle} illustration. Vertical 9:16 aspect ratio. Show only positive, friendly interactions between characters. DO NOT add any text, speech bubbles, or titles into the image.` },
-                            { text: `Scene: Characters having a calm, friendly conversation or meeting in ${panel.description.includes('indoor') ? 'an indoor setting' : 'an outdoor setting'}` },
-                            { text: `Content: A peaceful scene with characters talking or interacting positively` },
-                            { text: `Characters: All characters are smiling, talking calmly, or standing peacefully together` }
-                        ];
-                        
-                        const retryResponse = await callGeminiWithFallback(apiKey, async (client) =>
-                            client.models.generateContent({
-                                model: 'gemini-2.5-flash-image-preview',
-                                contents: [
-                                    { role: 'user', parts: [...imageParts, ...conservativeTextParts] }
-                                ],
-                                config: {
-                                    responseModalities: [Modality.IMAGE, Modality.TEXT],
-                                },
-                            })
-                        );
-                        
-                        if (retryResponse.candidates?.[0]?.content?.parts) {
-                            for (const part of retryResponse.candidates[0].content.parts) {
-                                if (part.inlineData) {
-                                    const { data, mimeType } = part.inlineData;
-                                    if (data) {
-                                        console.log(`[GEMINI] Generated panel illustration (conservative): ${mimeType}, size: ${Math.round(data.length / 1024)}KB`);
-                                        return `data:${mimeType};base64,${data}`;
-                                    }
-                                }
-                            }
-                        } else {
-                            throw new Error('Content repeatedly flagged as prohibited. Please try with different story content.');
-                        }
-                    }
-                    
-                    if (response.candidates?.[0]?.content?.parts) {
-                        for (const part of response.candidates[0].content.parts) {
-                            if (part.inlineData) {
-                                const { data, mimeType } = part.inlineData;
-                                if (data) {
-                                    console.log(`[GEMINI] Generated panel illustration: ${mimeType}, size: ${Math.round(data.length / 1024)}KB`);
-                                    return `data:${mimeType};base64,${data}`;
-                                }
-                            }
-                        }
-                    }
+            return this.generateImageWithRetries(
+                apiKey,
+                { prompt: textParts.map(part => part.text), references, purpose: 'panel-illustration' },
+                'panel illustration',
+                async () => {
+                    const retryImage = await this.ai.generateImage(apiKey, {
+                        prompt: conservativeTextParts.map(part => part.text),
+                        references,
+                        purpose: 'panel-illustration',
+                    });
 
-                    const errorMsg = `Panel illustration generation failed: No image data in response (attempt ${attempt}/2)`;
-                    console.error(`[GEMINI] ${errorMsg}`);
-                    lastError = new Error(errorMsg);
-                    
-                    if (attempt < 2) {
-                        console.log('[GEMINI] Retrying panel illustration generation...');
-                        await new Promise(resolve => setTimeout(resolve, 1000));
-                    }
-                    
-                } catch (error) {
-                    const errorMsg = `Panel illustration generation attempt ${attempt}/2 failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
-                    console.error(`[GEMINI] ${errorMsg}`);
-                    lastError = new Error(errorMsg);
-                    
-                    if (attempt < 2) {
-                        console.log('[GEMINI] Retrying after error...');
-                        await new Promise(resolve => setTimeout(resolve, 1000));
+                    if (!retryImage) {
+                        throw new Error('Content repeatedly flagged as prohibited. Please try with different story content.');
                     }
+
+                    console.log(`[GEMINI] Generated panel illustration (conservative): ${retryImage.mimeType}, size: ${Math.round(retryImage.data.length / 1024)}KB`);
+                    return toDataUrl(retryImage);
                 }
+            );
+        });
+    }
+
+    // Asks the model which texts are not suitable for the reader's age, in any language.
+    // Resolves to an empty list when everything is suitable; rejects when no review could be made.
+    async moderateContent(apiKey: string, texts: ModerationText[], ageGroup: AgeGroup): Promise<ModerationIssue[]> {
+        if (texts.length === 0) {
+            return [];
+        }
+
+        console.log(`[GEMINI] Moderating ${texts.length} texts for ages ${ageGroup}...`);
+
+        const prompt = `
+You are the content safety reviewer for a children's storybook app. The reader is ${ageGroup} years old.
+
+Flag any text below that is not suitable for that age: ${MODERATION_CATEGORIES.join(', ')}.
+Judge the way a careful parent would. Mild peril, friendly monsters and cartoon slapstick are fine for ages 6 and up; older readers can handle more tension, but never graphic violence, sexual content, drugs or self-harm.
+Texts may be in any language.
+
+Only list texts that need changing. Return an empty list when everything is suitable.
+
+TEXTS:
+${texts.map((entry, index) => `[${index + 1}] ${entry.text}`).join('\n')}
+        `;
+
+        return this.callWithFallback(apiKey, async () => {
+            const jsonText = await this.ai.generateJson(apiKey, {
+                prompt,
+                schema: contentModerationSchema,
+                purpose: 'content-moderation',
+            });
+
+            let review: { flagged?: { index: number; category: SafetyCategory; suggestion: string }[] };
+            try {
+                review = JSON.parse(jsonText);
+            } catch (e) {
+                console.error('[GEMINI] Failed to parse moderation result as JSON:', jsonText);
+                throw new Error('The AI returned an invalid moderation result.');
+            }
+
+            const issues = (review.flagged || [])
+                .filter(flag => texts[flag.index - 1] && MODERATION_CATEGORIES.includes(flag.category))
+                .map(flag => {
+                    const { label, pageIndex, panelIndex } = texts[flag.index - 1];
+                    return { label, pageIndex, panelIndex, category: flag.category, message: flag.suggestion };
+                });
+
+            console.log(`[GEMINI] Moderation flagged ${issues.length} of ${texts.length} texts`);
+            return issues;
+        });
+    }
+
+    // Compares a finished panel with the approved designs of the characters in it.
+    // Resolves to null when there is nothing to compare against.
+    async checkPanelConsistency(apiKey: string, panel: Panel, characters: Character[]): Promise<PanelConsistency | null> {
+        const designed = getPanelCharacters(panel, characters).filter(char => char.generatedDesignImage);
+        if (!panel.imageUrl || designed.length === 0) {
+            return null;
+        }
+
+        console.log(`[GEMINI] Checking consistency of panel ${panel.id} against ${designed.length} character designs`);
+
+        const references: ImageReference[] = [
+            dataUrlToReference(panel.imageUrl),
+            ...designed.map(char => dataUrlToReference(char.generatedDesignImage!))
+        ];
+
+        const prompt = `
+You are reviewing an illustration from a children's picture book for character consistency.
+
+The first image is the illustration. The following images are the approved character designs, in this order:
+${designed.map((char, index) => `${index + 1}. ${char.name}`).join('\n')}
+
+For each character, check that they appear in the illustration with the same face, hair, skin tone, clothing, colours and proportions as their design. Ignore differences in pose, expression, lighting and camera angle.
+
+Return a score from 0 to 100, where 100 means every character clearly matches their design and 0 means they are unrecognisable. List each mismatch as a short issue naming the character, e.g. "Mia's jacket is red instead of blue". Return an empty list when nothing is wrong.
+        `;
+
+        return this.callWithFallback(apiKey, async () => {
+            const jsonText = await this.ai.generateJson(apiKey, {
+                prompt,
+                schema: panelConsistencySchema,
+                references,
+                purpose: 'panel-consistency',
+            });
+
+            let review: { score: number; issues?: string[] };
+            try {
+                review = JSON.parse(jsonText);
+            } catch (e) {
+                console.error('[GEMINI] Failed to parse consistency review as JSON:', jsonText);
+                throw new Error('The AI returned an invalid consistency review.');
             }
 
-            console.error('[GEMINI] All panel illustration generation attempts failed');
-            throw lastError || new Error("Panel illustration generation failed after 2 attempts");
+            const score = Math.round(Math.min(100, Math.max(0, Number(review.score) || 0)));
+            console.log(`[GEMINI] Panel ${panel.id} consistency score: ${score}`);
+            return { score, issues: review.issues || [] };
         });
     }
 }
@@ -0,0 +1,132 @@
+import {
+    AIProvider,
+    GeneratedImage,
+    GenerationPurpose,
+    ImageGenerationRequest,
+    JsonGenerationRequest,
+    ResponseSchema,
+    SchemaType,
+    TextGenerationRequest,
+} from "./types";
+
+type TextFixture = string | ((request: TextGenerationRequest) => string);
+type JsonFixture = unknown | ((request: JsonGenerationRequest) => unknown);
+type ImageFixture = GeneratedImage | null | ((request: ImageGenerationRequest) => GeneratedImage | null);
+
+export interface FixtureProviderOptions {
+    // Canned responses keyed by request purpose; anything else is synthesized
+    text?: Record<GenerationPurpose, TextFixture>;
+    json?: Record<GenerationPurpose, JsonFixture>;
+    images?: Record<GenerationPurpose, ImageFixture>;
+    // Number of items produced for array schemas when no fixture matches
+    arrayLength?: number;
+}
+
+// Small, stable string hash (FNV-1a) so the same prompt always yields the same output
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function promptText(prompt: string | string[]): string {
+    return Array.isArray(prompt) ? prompt.join('\n') : prompt;
+}
+
+/**
+ * Deterministic offline provider. Produces the same text, JSON and images for the
+ * same request without any network access, so the story pipeline can run in tests.
+ */
+export class FixtureProvider implements AIProvider {
+    readonly name = 'fixture';
+    private options: FixtureProviderOptions;
+
+    constructor(options: FixtureProviderOptions = {}) {
+        this.options = options;
+    }
+
+    resolveModel(): string {
+        return this.name;
+    }
+
+    async generateText(apiKey: string, request: TextGenerationRequest): Promise<string> {
+        request.onUsage?.({ model: this.name, inputTokens: 0, outputTokens: 0, images: 0 });
+        const fixture = request.purpose ? this.options.text?.[request.purpose] : undefined;
+        if (fixture !== undefined) {
+            return typeof fixture === 'function' ? fixture(request) : fixture;
+        }
+
+        return `Fixture response ${hashString(request.prompt).toString(16)}`;
+    }
+
+    async generateJson(apiKey: string, request: JsonGenerationRequest): Promise<string> {
+        request.onUsage?.({ model: this.name, inputTokens: 0, outputTokens: 0, images: 0 });
+        const fixtures = this.options.json;
+        if (request.purpose && fixtures && request.purpose in fixtures) {
+            const fixture = fixtures[request.purpose];
+            const value = typeof fixture === 'function' ? fixture(request) : fixture;
+            return JSON.stringify(value);
+        }
+
+        const seed = hashString(request.prompt);
+        return JSON.stringify(this.synthesize(request.schema, request.purpose || 'value', seed));
+    }
+
+    async generateImage(apiKey: string, request: ImageGenerationRequest): Promise<GeneratedImage | null> {
+        request.onUsage?.({ model: this.name, inputTokens: 0, outputTokens: 0, images: 1 });
+        const fixtures = this.options.images;
+        if (request.purpose && fixtures && request.purpose in fixtures) {
+            const fixture = fixtures[request.purpose];
+            return typeof fixture === 'function' ? fixture(request) : fixture;
+        }
+
+        return this.placeholderImage(promptText(request.prompt), request.references?.length || 0);
+    }
+
+    private synthesize(schema: ResponseSchema, path: string, seed: number): unknown {
+        switch (schema.type) {
+            case SchemaType.OBJECT: {
+                const result: Record<string, unknown> = {};
+                Object.entries(schema.properties || {}).forEach(([key, child]) => {
+                    result[key] = this.synthesize(child, `${path}.${key}`, seed);
+                });
+                return result;
+            }
+            case SchemaType.ARRAY: {
+                const length = this.options.arrayLength ?? 2;
+                return Array.from({ length }, (_, index) =>
+                    schema.items ? this.synthesize(schema.items, `${path}-${index + 1}`, seed) : null
+                );
+            }
+            case SchemaType.NUMBER:
+            case SchemaType.INTEGER:
+                return (hashString(`${seed}:${path}`) % 100) + 1;
+            case SchemaType.BOOLEAN:
+                return hashString(`${seed}:${path}`) % 2 === 0;
+            case SchemaType.STRING:
+            default:
+                if (schema.enum && schema.enum.length > 0) {
+                    return schema.enum[hashString(`${seed}:${path}`) % schema.enum.length];
+                }
+                return `${path} ${(hashString(`${seed}:${path}`) % 10000).toString().padStart(4, '0')}`;
+        }
+    }
+
+    private placeholderImage(prompt: string, referenceCount: number): GeneratedImage {
+        const hash = hashString(`${prompt}:${referenceCount}`);
+        const color = `#${(hash & 0xffffff).toString(16).padStart(6, '0')}`;
+        const svg = `<svg width="512" height="768" xmlns="http://www.w3.org/2000/svg">` +
+            `<rect width="512" height="768" fill="${color}"/>` +
+            `<rect x="24" y="24" width="464" height="720" fill="white" fill-opacity="0.6" stroke="black" stroke-width="4"/>` +
+            `<text x="256" y="384" text-anchor="middle" fill="black" font-size="28" font-weight="bold">Fixture ${hash.toString(16)}</text>` +
+            `</svg>`;
+
+        return {
+            data: btoa(svg),
+            mimeType: 'image/svg+xml',
+        };
+    }
+}
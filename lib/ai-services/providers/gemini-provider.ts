@@ -0,0 +1,124 @@
+import { GenerateContentResponse, GoogleGenAI, Modality, Schema } from "@google/genai";
+import {
+    AIProvider,
+    ContentBlockedError,
+    GeneratedImage,
+    ImageGenerationRequest,
+    JsonGenerationRequest,
+    ModelKind,
+    TextGenerationRequest,
+} from "./types";
+
+export interface GeminiModelConfig {
+    text: string;
+    image: string;
+}
+
+export const DEFAULT_GEMINI_MODELS: GeminiModelConfig = {
+    text: process.env.NEXT_PUBLIC_GEMINI_TEXT_MODEL || 'gemini-2.5-flash',
+    image: process.env.NEXT_PUBLIC_GEMINI_IMAGE_MODEL || 'gemini-2.5-flash-image-preview',
+};
+
+export class GeminiProvider implements AIProvider {
+    readonly name = 'gemini';
+    private models: GeminiModelConfig;
+
+    constructor(models: Partial<GeminiModelConfig> = {}) {
+        this.models = { ...DEFAULT_GEMINI_MODELS, ...models };
+    }
+
+    resolveModel(kind: ModelKind, requested?: string): string {
+        return requested || this.models[kind];
+    }
+
+    private createClient(apiKey: string): GoogleGenAI {
+        return new GoogleGenAI({ apiKey });
+    }
+
+    private reportUsage(
+        request: { onUsage?: TextGenerationRequest['onUsage'] },
+        model: string,
+        response: GenerateContentResponse,
+        images: number = 0
+    ): void {
+        request.onUsage?.({
+            model,
+            inputTokens: response.usageMetadata?.promptTokenCount || 0,
+            outputTokens: response.usageMetadata?.candidatesTokenCount || 0,
+            images,
+        });
+    }
+
+    async generateText(apiKey: string, request: TextGenerationRequest): Promise<string> {
+        const model = this.resolveModel('text', request.model);
+        const response = await this.createClient(apiKey).models.generateContent({
+            model,
+            contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+        });
+
+        this.reportUsage(request, model, response);
+        return response.text || '';
+    }
+
+    async generateJson(apiKey: string, request: JsonGenerationRequest): Promise<string> {
+        const imageParts = (request.references || []).map(ref => ({
+            inlineData: { data: ref.data, mimeType: ref.mimeType }
+        }));
+
+        const model = this.resolveModel('text', request.model);
+        const response = await this.createClient(apiKey).models.generateContent({
+            model,
+            contents: [{ role: 'user', parts: [...imageParts, { text: request.prompt }] }],
+            config: {
+                responseMimeType: "application/json",
+                // Our schema subset uses the same type names as the Gemini Type enum
+                responseSchema: request.schema as Schema,
+            },
+        });
+
+        this.reportUsage(request, model, response);
+        return response.text || '';
+    }
+
+    async generateImage(apiKey: string, request: ImageGenerationRequest): Promise<GeneratedImage | null> {
+        const prompts = Array.isArray(request.prompt) ? request.prompt : [request.prompt];
+        const imageParts = (request.references || []).map(ref => ({
+            inlineData: { data: ref.data, mimeType: ref.mimeType }
+        }));
+        const textParts = prompts.map(text => ({ text }));
+
+        const model = this.resolveModel('image', request.model);
+        const response = await this.createClient(apiKey).models.generateContent({
+            model,
+            contents: [
+                { role: 'user', parts: [...imageParts, ...textParts] }
+            ],
+            config: {
+                responseModalities: [Modality.IMAGE, Modality.TEXT],
+            },
+        });
+
+        if (!response.candidates || !response.candidates[0]) {
+            console.error('[GEMINI_PROVIDER] No candidates in response:', response);
+            throw new Error('Invalid response from Gemini API - no candidates');
+        }
+
+        const candidate = response.candidates[0];
+        const imagePart = (candidate.content?.parts || []).find(part => part.inlineData?.data);
+        // Blocked and image-less answers still consume prompt tokens
+        this.reportUsage(request, model, response, imagePart ? 1 : 0);
+
+        if (candidate.finishReason === 'PROHIBITED_CONTENT') {
+            throw new ContentBlockedError();
+        }
+
+        if (imagePart?.inlineData?.data) {
+            return {
+                data: imagePart.inlineData.data,
+                mimeType: imagePart.inlineData.mimeType || 'image/png',
+            };
+        }
+
+        return null;
+    }
+}
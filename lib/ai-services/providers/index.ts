@@ -0,0 +1,34 @@
+import { AIProvider } from "./types";
+import { GeminiProvider } from "./gemini-provider";
+import { FixtureProvider } from "./fixture-provider";
+
+export * from "./types";
+export { GeminiProvider, DEFAULT_GEMINI_MODELS } from "./gemini-provider";
+export type { GeminiModelConfig } from "./gemini-provider";
+export { FixtureProvider } from "./fixture-provider";
+export type { FixtureProviderOptions } from "./fixture-provider";
+export { MeteredProvider } from "./metered-provider";
+
+function createDefaultProvider(): AIProvider {
+    switch (process.env.NEXT_PUBLIC_AI_PROVIDER) {
+        case 'fixture':
+            return new FixtureProvider();
+        case 'gemini':
+        default:
+            return new GeminiProvider();
+    }
+}
+
+let activeProvider: AIProvider | null = null;
+
+export function getAIProvider(): AIProvider {
+    if (!activeProvider) {
+        activeProvider = createDefaultProvider();
+    }
+    return activeProvider;
+}
+
+// Swap the provider used by all AI services (e.g. a FixtureProvider in tests)
+export function setAIProvider(provider: AIProvider | null): void {
+    activeProvider = provider;
+}
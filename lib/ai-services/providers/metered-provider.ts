@@ -0,0 +1,79 @@
+import {
+    AIProvider,
+    GeneratedImage,
+    ImageGenerationRequest,
+    JsonGenerationRequest,
+    ModelKind,
+    ProviderUsage,
+    TextGenerationRequest,
+} from "./types";
+import { UsageLedger } from "@/lib/usage/usage-ledger";
+import { estimateTokens, getModelPricing } from "@/lib/usage/pricing";
+
+// Generous guesses used to reserve budget before a call; the ledger keeps the real usage
+const EXPECTED_OUTPUT_TOKENS = 4000;
+const TOKENS_PER_REFERENCE_IMAGE = 258;
+
+/**
+ * Wraps a provider so every call is checked against the ledger's budget first and its
+ * reported usage is recorded afterwards.
+ */
+export class MeteredProvider implements AIProvider {
+    readonly name: string;
+    private provider: AIProvider;
+    private ledger: UsageLedger;
+
+    constructor(provider: AIProvider, ledger: UsageLedger) {
+        this.provider = provider;
+        this.ledger = ledger;
+        this.name = provider.name;
+    }
+
+    resolveModel(kind: ModelKind, requested?: string): string {
+        return this.provider.resolveModel(kind, requested);
+    }
+
+    async generateText(apiKey: string, request: TextGenerationRequest): Promise<string> {
+        const estimate = this.estimateTextCost(request.model, estimateTokens(request.prompt));
+        return this.metered(estimate, request, metered => this.provider.generateText(apiKey, metered));
+    }
+
+    async generateJson(apiKey: string, request: JsonGenerationRequest): Promise<string> {
+        const inputTokens = estimateTokens(request.prompt) + (request.references?.length || 0) * TOKENS_PER_REFERENCE_IMAGE;
+        return this.metered(this.estimateTextCost(request.model, inputTokens), request, metered => this.provider.generateJson(apiKey, metered));
+    }
+
+    async generateImage(apiKey: string, request: ImageGenerationRequest): Promise<GeneratedImage | null> {
+        const prompt = Array.isArray(request.prompt) ? request.prompt.join('\n') : request.prompt;
+        const inputTokens = estimateTokens(prompt) + (request.references?.length || 0) * TOKENS_PER_REFERENCE_IMAGE;
+        // Priced as the model that will actually draw it, so a pricier model can't slip past the budget
+        const pricing = getModelPricing(this.resolveModel('image', request.model));
+        const estimate = (inputTokens / 1_000_000) * pricing.inputPerMillion + pricing.perImage;
+        return this.metered(estimate, request, metered => this.provider.generateImage(apiKey, metered));
+    }
+
+    private estimateTextCost(requestedModel: string | undefined, inputTokens: number): number {
+        const pricing = getModelPricing(this.resolveModel('text', requestedModel));
+        return (inputTokens / 1_000_000) * pricing.inputPerMillion +
+            (EXPECTED_OUTPUT_TOKENS / 1_000_000) * pricing.outputPerMillion;
+    }
+
+    private async metered<R extends { purpose?: string; onUsage?: (usage: ProviderUsage) => void }, T>(
+        estimate: number,
+        request: R,
+        call: (request: R) => Promise<T>
+    ): Promise<T> {
+        const release = this.ledger.reserve(estimate);
+        try {
+            return await call({
+                ...request,
+                onUsage: (usage: ProviderUsage) => {
+                    this.ledger.record(request.purpose || 'other', usage.model, usage);
+                    request.onUsage?.(usage);
+                },
+            });
+        } finally {
+            release();
+        }
+    }
+}
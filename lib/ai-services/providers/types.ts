@@ -0,0 +1,101 @@
+// Provider-neutral contracts for the text and image models behind GeminiService.
+// Prompt code builds requests against these types; adapters translate them to a vendor SDK.
+
+export const SchemaType = {
+    OBJECT: 'OBJECT',
+    ARRAY: 'ARRAY',
+    STRING: 'STRING',
+    NUMBER: 'NUMBER',
+    INTEGER: 'INTEGER',
+    BOOLEAN: 'BOOLEAN',
+} as const;
+
+export type SchemaType = typeof SchemaType[keyof typeof SchemaType];
+
+// OpenAPI-style subset understood by structured JSON generation
+export interface ResponseSchema {
+    type: SchemaType;
+    properties?: Record<string, ResponseSchema>;
+    items?: ResponseSchema;
+    required?: string[];
+    nullable?: boolean;
+    enum?: string[];
+    description?: string;
+}
+
+export interface ImageReference {
+    data: string; // base64 without the data URL prefix
+    mimeType: string;
+}
+
+export interface GeneratedImage {
+    data: string; // base64 without the data URL prefix
+    mimeType: string;
+}
+
+// Short label describing why a call is made, e.g. "story" or "panel-illustration"
+export type GenerationPurpose = string;
+
+// What a single call consumed, as reported by the provider
+export interface ProviderUsage {
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+}
+
+export interface TextGenerationRequest {
+    prompt: string;
+    purpose?: GenerationPurpose;
+    model?: string;
+    onUsage?: (usage: ProviderUsage) => void;
+}
+
+export interface JsonGenerationRequest extends TextGenerationRequest {
+    schema: ResponseSchema;
+    // Images sent ahead of the prompt, for answers about pictures
+    references?: ImageReference[];
+}
+
+export interface ImageGenerationRequest {
+    prompt: string | string[];
+    references?: ImageReference[];
+    purpose?: GenerationPurpose;
+    model?: string;
+    onUsage?: (usage: ProviderUsage) => void;
+}
+
+export type ModelKind = 'text' | 'image';
+
+export interface AIProvider {
+    readonly name: string;
+
+    // The model a request will run on, so its cost can be estimated before the call
+    resolveModel(kind: ModelKind, requested?: string): string;
+
+    generateText(apiKey: string, request: TextGenerationRequest): Promise<string>;
+
+    // Returns the raw JSON text; callers own parsing so they can report format errors
+    generateJson(apiKey: string, request: JsonGenerationRequest): Promise<string>;
+
+    // Resolves to null when the model answered without any image data
+    generateImage(apiKey: string, request: ImageGenerationRequest): Promise<GeneratedImage | null>;
+}
+
+export class ContentBlockedError extends Error {
+    constructor(message: string = 'Content was flagged as prohibited') {
+        super(message);
+        this.name = 'ContentBlockedError';
+    }
+}
+
+export function toDataUrl(image: GeneratedImage): string {
+    return `data:${image.mimeType};base64,${image.data}`;
+}
+
+// Splits a data URL (or falls back to raw base64) into an image reference
+export function dataUrlToReference(dataUrl: string, fallbackMimeType: string = 'image/png'): ImageReference {
+    const base64Data = dataUrl.includes(',') ? dataUrl.split(',')[1] : dataUrl;
+    const mimeType = dataUrl.match(/data:([^;]+)/)?.[1] || fallbackMimeType;
+    return { data: base64Data, mimeType };
+}
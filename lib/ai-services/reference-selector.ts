@@ -0,0 +1,89 @@
+import { Character, CharacterExpression, CharacterPose, Panel } from "@/lib/types";
+
+interface TurnaroundView<T extends string> {
+    value: T;
+    label: string;
+    prompt: string; // What to draw
+    keywords?: RegExp; // Panel text that calls for this view
+}
+
+export const TURNAROUND_POSES: TurnaroundView<CharacterPose>[] = [
+    {
+        value: 'front',
+        label: 'Front view',
+        // Never picked for panels: it repeats the main design's neutral pose
+        prompt: 'standing and facing the viewer directly, full body, arms relaxed',
+    },
+    {
+        value: 'side',
+        label: 'Side view',
+        prompt: 'in profile facing left, full body, mid-stride',
+        keywords: /\b(profile|side|walk(s|ing)?|run(s|ning)?|chas(es|ing)|jump(s|ing)?|turns? to|talks? to|looks? at|toward|towards)\b/i,
+    },
+    {
+        value: 'back',
+        label: 'Back view',
+        prompt: 'seen from behind, full body, showing the back of the head and outfit',
+        keywords: /\b(behind|from the back|back to|walks? away|walking away|leav(es|ing)|into the distance|over (his|her|their) shoulder)\b/i,
+    },
+];
+
+export const TURNAROUND_EXPRESSIONS: TurnaroundView<CharacterExpression>[] = [
+    {
+        value: 'happy',
+        label: 'Happy',
+        prompt: 'a big joyful smile, head and shoulders',
+        keywords: /\b(smil(e|es|ing)|laugh(s|ing)?|giggl(e|es|ing)|chee?r(s|ing|ful)?|happ(y|ily)|joy(ful)?|excited|delighted|hooray|yay)\b/i,
+    },
+    {
+        value: 'sad',
+        label: 'Sad',
+        prompt: 'a sad face with teary eyes and a small frown, head and shoulders',
+        keywords: /\b(sad(ly)?|cr(y|ies|ying)|tears?|upset|lonely|frown(s|ing)?|sob(s|bing)?|miss(es)?|sorry|gloomy)\b/i,
+    },
+    {
+        value: 'surprised',
+        label: 'Surprised',
+        prompt: 'wide eyes and an open mouth, amazed, head and shoulders',
+        keywords: /\b(surpris(e|ed|ing)|gasp(s|ed)?|shock(ed)?|amaz(ed|ing)|astonish(ed)?|wow|whoa|oh no|suddenly|startled)\b/i,
+    },
+];
+
+export interface SelectedReference {
+    image: string; // Data URL
+    label: string; // e.g. "Max - side view"
+}
+
+function pickView<T extends string>(views: TurnaroundView<T>[], available: Partial<Record<T, string>>, text: string): TurnaroundView<T> | null {
+    return views.find(view => available[view.value] && view.keywords?.test(text)) || null;
+}
+
+/**
+ * Reference drawings for one character in one panel: the main design first, then the
+ * turnaround pose and expression whose keywords match the panel's text, if any.
+ */
+export function selectCharacterReferences(character: Character, panel: Panel): SelectedReference[] {
+    const references: SelectedReference[] = [];
+    if (character.generatedDesignImage) {
+        references.push({ image: character.generatedDesignImage, label: `${character.name} - main design` });
+    }
+
+    const turnaround = character.turnaround;
+    if (!turnaround) return references;
+
+    const sceneText = panel.description;
+    const moodText = [panel.description, panel.narration || '', ...(panel.dialogue || [])].join(' ');
+
+    // Back cues ("walks away") also read as movement, so check them before side cues
+    const pose = pickView([...TURNAROUND_POSES].reverse(), turnaround.poses, sceneText);
+    if (pose) {
+        references.push({ image: turnaround.poses[pose.value]!, label: `${character.name} - ${pose.label.toLowerCase()}` });
+    }
+
+    const expression = pickView(TURNAROUND_EXPRESSIONS, turnaround.expressions, moodText);
+    if (expression) {
+        references.push({ image: turnaround.expressions[expression.value]!, label: `${character.name} - ${expression.label.toLowerCase()} expression` });
+    }
+
+    return references;
+}
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Character, StoryConfig } from "@/lib/types";
+import { FixtureProvider, setAIProvider } from "./providers";
+import { StoryGenerationCheckpoint, storyGenerator } from "./story-generator";
+import { BudgetExceededError, UsageLedger } from "@/lib/usage/usage-ledger";
+
+const config: StoryConfig = {
+    prompt: 'A little dragon learns to bake cookies',
+    theme: 'funny',
+    style: 'comic',
+    characters: [],
+    setting: 'A cozy village bakery',
+    characterCount: 1,
+    pageCount: 2,
+    targetAge: '6-8',
+    textMode: 'overlay',
+    language: 'en',
+};
+
+const characters: Character[] = [
+    { id: 'char-1', name: 'Ember', generatedDesignImage: 'data:image/png;base64,iVBORw0KGgo=' },
+];
+
+// No rate limit needed when nothing goes over the network
+const illustrationQueue = { requestsPerMinute: 60000 };
+
+const page = (pageNumber: number) => ({
+    id: `page-${pageNumber}`,
+    pageNumber,
+    panels: [
+        {
+            id: `panel-${pageNumber}-1`,
+            description: `Ember mixes cookie dough, scene ${pageNumber}`,
+            characters: ['char-1'],
+            dialogue: ['This will be yummy!'],
+            narration: 'Ember was very busy.',
+        },
+        {
+            id: `panel-${pageNumber}-2`,
+            description: `Ember shares warm cookies, scene ${pageNumber}`,
+            characters: ['Ember'],
+            dialogue: [],
+            narration: 'Everyone smiled.',
+        },
+    ],
+});
+
+describe('StoryGenerator with the fixture provider', () => {
+    beforeEach(() => {
+        setAIProvider(new FixtureProvider({
+            json: {
+                story: { title: 'The Cookie Dragon', pages: [page(1), page(2)], characters: [] },
+            },
+        }));
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        setAIProvider(null);
+        vi.restoreAllMocks();
+    });
+
+    it('runs generateCompleteStory end to end offline', async () => {
+        const checkpoints: StoryGenerationCheckpoint[] = [];
+        const progress: number[] = [];
+
+        const story = await storyGenerator.generateCompleteStory(
+            'offline-key',
+            config,
+            characters,
+            (message, value) => progress.push(value),
+            {
+                useLocalLibrary: false,
+                generateVideo: false,
+                parentalControls: null,
+                illustrationQueue,
+                onCheckpoint: checkpoint => { checkpoints.push(checkpoint); },
+            }
+        );
+
+        expect(story.title).toBe('The Cookie Dragon');
+        expect(story.pages).toHaveLength(2);
+        const panels = story.pages.flatMap(storyPage => storyPage.panels);
+        expect(panels).toHaveLength(4);
+        panels.forEach(panel => {
+            expect(panel.imageUrl).toMatch(/^data:image\/svg\+xml;base64,/);
+            expect(panel.characters).toEqual(['char-1']);
+        });
+        expect(story.coverImage).toMatch(/^data:image\//);
+        expect(story.usage?.length).toBeGreaterThan(0);
+        expect(checkpoints.at(-1)?.storyData?.title).toBe('The Cookie Dragon');
+        expect(progress.at(-1)).toBe(100);
+    });
+
+    it('is deterministic for the same input', async () => {
+        const run = () => storyGenerator.generateCompleteStory('offline-key', config, characters, undefined, {
+            useLocalLibrary: false,
+            generateVideo: false,
+            parentalControls: null,
+            reviewConsistency: false,
+            illustrationQueue,
+        });
+
+        const [first, second] = [await run(), await run()];
+        expect(second.pages.map(storyPage => storyPage.panels.map(panel => panel.imageUrl)))
+            .toEqual(first.pages.map(storyPage => storyPage.panels.map(panel => panel.imageUrl)));
+    });
+
+    it('reserves budget at the priced model\'s rates and keeps the budget error', async () => {
+        const options = { useLocalLibrary: false, generateVideo: false, parentalControls: null, illustrationQueue };
+        const budget = 0.001;
+
+        // The fixture model is free, so a tiny budget is enough
+        const free = await storyGenerator
+            .withLedger(new UsageLedger({ budget }))
+            .generateCompleteStory('offline-key', config, characters, undefined, options);
+        expect(free.pages).toHaveLength(2);
+
+        class PricedFixtureProvider extends FixtureProvider {
+            resolveModel(): string {
+                return 'gemini-2.5-flash';
+            }
+        }
+        setAIProvider(new PricedFixtureProvider({
+            json: {
+                story: { title: 'The Cookie Dragon', pages: [page(1), page(2)], characters: [] },
+            },
+        }));
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        await expect(storyGenerator
+            .withLedger(new UsageLedger({ budget }))
+            .generateCompleteStory('offline-key', config, characters, undefined, options)
+        ).rejects.toBeInstanceOf(BudgetExceededError);
+    });
+});
@@ -1,27 +1,177 @@
-import { geminiService } from "./gemini-service";
+import { GeminiService, geminiService } from "./gemini-service";
 import { videoGenerator } from "./video-generator";
-import { StoryConfig, Character, GeneratedStory, StoryPage, Panel } from "@/lib/types";
+import {
+    StoryConfig,
+    Character,
+    GeneratedStory,
+    StoryPage,
+    Panel,
+    TextRenderMode,
+    StoryLanguage,
+    UsageEntry,
+    ParentalControls,
+} from "@/lib/types";
 import { generateId } from "@/lib/utils";
 import { characterStorage } from "@/lib/storage/character-storage";
 import { storyStorage } from "@/lib/storage/story-storage";
+import { getPanelCharacters } from "./character-resolver";
+import { WorkQueueCancelledError, WorkQueueOptions, WorkQueueResult, runWorkQueue } from "./work-queue";
+import { BudgetExceededError, UsageLedger } from "@/lib/usage/usage-ledger";
+import {
+    AISafetyChecker,
+    ContentRejectedError,
+    ModerationIssue,
+    contentModerator,
+    getAgeGroup,
+    getInputTexts,
+    getScriptTexts,
+} from "@/lib/safety";
+import { ParentalControlsError, getParentalViolations, parentalControlsService } from "@/lib/parental/parental-controls";
+import { canTranslateStory } from "@/lib/i18n/languages";
+
+// Panels scoring below this in the consistency review are flagged for a redraw
+export const CONSISTENCY_THRESHOLD = 70;
+// Panels checked against the character designs at once
+export const CONSISTENCY_REVIEW_CONCURRENCY = 2;
+// Times a page flagged by the safety check is rewritten before the script is rejected
+const SAFETY_REWRITE_ATTEMPTS = 2;
+
+export interface MissingPanel {
+    pageIndex: number;
+    panelIndex: number;
+    panel: Panel;
+}
+
+// Reviews and repairs do their own retrying and are not rate limited beyond their concurrency
+const UNTHROTTLED_QUEUE: WorkQueueOptions = { requestsPerMinute: 60000, maxRetries: 0 };
+
+// Turns a failed item into a queue failure, so no new items start and the error is rethrown
+function stopOnError(_: number, result: WorkQueueResult<unknown>): void {
+    if ('error' in result) {
+        throw result.error;
+    }
+}
+
+export class StoryGenerationCancelledError extends Error {
+    constructor(message: string = 'Story generation was cancelled') {
+        super(message);
+        this.name = 'StoryGenerationCancelledError';
+    }
+}
+
+// Intermediate results saved after every pipeline step so a run can be resumed
+export interface StoryGenerationCheckpoint {
+    storyId?: string;
+    createdAt?: string;
+    characters?: Character[];
+    storyData?: { title: string; pages: StoryPage[] };
+    illustratedPages?: StoryPage[];
+    // "pageIndex:panelIndex" keys of panels that have already been attempted
+    attemptedPanels?: string[];
+    // null means the cover was attempted and failed
+    coverImage?: string | null;
+    usage?: UsageEntry[];
+}
+
+// Characters and panel text approved by the user before any illustration is drawn
+export interface StoryScript {
+    characters: Character[];
+    storyData: { title: string; pages: StoryPage[] };
+    // Calls spent writing the script, carried over to the book
+    usage?: UsageEntry[];
+}
+
+export interface StoryGenerationOptions {
+    signal?: AbortSignal;
+    checkpoint?: StoryGenerationCheckpoint;
+    onCheckpoint?: (checkpoint: StoryGenerationCheckpoint) => void | Promise<void>;
+    // Read and write the browser's localStorage character/story library (client only)
+    useLocalLibrary?: boolean;
+    generateVideo?: boolean;
+    // Limits to enforce; defaults to this browser's parent profile, null for none
+    parentalControls?: ParentalControls | null;
+    // Score each panel against the character designs after illustrating
+    reviewConsistency?: boolean;
+    // Parallelism, rate limit and retries for panel illustrations
+    illustrationQueue?: Omit<WorkQueueOptions, 'signal'>;
+}
 
 export class StoryGenerator {
+    private gemini: GeminiService;
+    private ledger: UsageLedger | null;
+
+    constructor(gemini: GeminiService = geminiService, ledger?: UsageLedger) {
+        this.gemini = gemini;
+        this.ledger = ledger || null;
+    }
+
+    // A generator whose AI calls are recorded in (and limited by) the given ledger
+    withLedger(ledger: UsageLedger): StoryGenerator {
+        return new StoryGenerator(this.gemini.withLedger(ledger), ledger);
+    }
+
     async generateCompleteStory(
         apiKey: string,
         config: StoryConfig,
         characters: Character[],
-        onProgress?: (message: string, progress: number) => void
+        onProgress?: (message: string, progress: number) => void,
+        options: StoryGenerationOptions = {}
     ): Promise<GeneratedStory> {
+        // Every call for the book goes through one ledger, picking up where a resumed run left off
+        if (!this.ledger) {
+            const ledger = new UsageLedger({ entries: options.checkpoint?.usage, budget: config.budget });
+            return this.withLedger(ledger).generateCompleteStory(apiKey, config, characters, onProgress, options);
+        }
+        const ledger = this.ledger;
+
+        const {
+            signal,
+            onCheckpoint,
+            useLocalLibrary = true,
+            generateVideo = config.coverVideo !== false,
+            reviewConsistency = true,
+            illustrationQueue,
+            parentalControls = parentalControlsService.getControls()
+        } = options;
+        const checkpoint: StoryGenerationCheckpoint = {
+            storyId: generateId(),
+            createdAt: new Date().toISOString(),
+            ...options.checkpoint
+        };
+
+        const saveCheckpoint = async (updates: Partial<StoryGenerationCheckpoint>) => {
+            Object.assign(checkpoint, updates, { usage: ledger.getEntries() });
+            await onCheckpoint?.({ ...checkpoint });
+        };
+
         try {
             onProgress?.("Preparing characters...", 5);
+            this.throwIfCancelled(signal);
+
+            this.enforceParentalControls(config, characters, parentalControls);
+
+            // An approved script was already checked when it was written
+            if (!checkpoint.storyData) {
+                await this.moderateInput(apiKey, config, characters);
+            }
 
             // Step 1: Load existing characters from storage or enhance new ones
-            const charactersWithDescriptions = await this.loadAndEnhanceCharacters(apiKey, characters, config, onProgress);
+            if (!checkpoint.characters) {
+                const enhanced = await this.loadAndEnhanceCharacters(apiKey, characters, config, onProgress, useLocalLibrary);
+                await saveCheckpoint({ characters: enhanced });
+            }
+            const charactersWithDescriptions = checkpoint.characters!;
 
             onProgress?.("Creating story structure...", 25);
+            this.throwIfCancelled(signal);
 
             // Step 2: Generate the main story content
-            const storyData = await geminiService.generateStory(apiKey, config, charactersWithDescriptions);
+            if (!checkpoint.storyData) {
+                const generated = await this.gemini.generateStory(apiKey, config, charactersWithDescriptions);
+                const safe = await this.ensureSafeScript(apiKey, config, charactersWithDescriptions, generated, onProgress);
+                await saveCheckpoint({ storyData: safe });
+            }
+            const storyData = checkpoint.storyData!;
 
             onProgress?.("Using approved character designs...", 35);
 
@@ -35,63 +185,77 @@ export class StoryGenerator {
             onProgress?.("Creating panel illustrations...", 45);
 
             // Step 3: Generate panel illustrations using character design references
-            const pagesWithIllustrations = await this.generatePanelArt(
+            let pagesWithIllustrations = await this.generatePanelArt(
                 apiKey,
-                storyData.pages,
+                checkpoint.illustratedPages || storyData.pages,
                 charactersWithDesigns,
                 config.style,
-                onProgress
+                config.textMode,
+                onProgress,
+                {
+                    ...illustrationQueue,
+                    signal,
+                    attemptedPanels: checkpoint.attemptedPanels || [],
+                    onPanelComplete: (pages, attemptedPanels) =>
+                        saveCheckpoint({ illustratedPages: pages, attemptedPanels })
+                }
             );
 
+            // Step 3b: Flag panels where the characters drifted from their designs
+            if (reviewConsistency) {
+                onProgress?.("Checking character consistency...", 80);
+                pagesWithIllustrations = await this.reviewPanels(apiKey, pagesWithIllustrations, charactersWithDesigns, {
+                    signal,
+                    onPanelReviewed: pages => saveCheckpoint({ illustratedPages: pages })
+                });
+            }
+
             onProgress?.("Generating cover image...", 85);
+            this.throwIfCancelled(signal);
 
             // Step 4: Generate cover image
-            let coverImage: string | undefined;
-            try {
-                coverImage = await geminiService.generateCoverImage(apiKey, {
-                    title: storyData.title,
-                    config,
-                    characters: charactersWithDesigns
-                });
-            } catch (error) {
-                console.warn('[STORY_GENERATOR] Failed to generate cover image:', error);
-                // Continue without cover image
+            if (checkpoint.coverImage === undefined) {
+                let generatedCover: string | null = null;
+                try {
+                    generatedCover = await this.gemini.generateCoverImage(apiKey, {
+                        title: storyData.title,
+                        config,
+                        characters: charactersWithDesigns
+                    });
+                } catch (error) {
+                    if (error instanceof BudgetExceededError) {
+                        throw error;
+                    }
+                    console.warn('[STORY_GENERATOR] Failed to generate cover image:', error);
+                    // Continue without cover image
+                }
+                await saveCheckpoint({ coverImage: generatedCover });
             }
+            const coverImage = checkpoint.coverImage || undefined;
 
             onProgress?.("Finalizing storybook...", 85);
 
             // Step 5: Compile final story
             const finalStory: GeneratedStory = {
-                id: generateId(),
+                id: checkpoint.storyId!,
                 config,
                 characters: charactersWithDesigns,
                 pages: pagesWithIllustrations,
                 title: storyData.title,
-                createdAt: new Date(),
-                coverImage
+                createdAt: new Date(checkpoint.createdAt!),
+                coverImage,
+                usage: ledger.getEntries()
             };
 
             // Step 6: Save characters and story to storage
-            onProgress?.("Saving to library...", 90);
-            
-            try {
-                // Save characters for future use
-                characterStorage.saveCharacters(charactersWithDesigns);
-                
-                // Save the complete story
-                const saved = storyStorage.saveStory(finalStory);
-                if (saved) {
-                    console.log('[STORY_GENERATOR] Story saved to library successfully');
-                } else {
-                    console.warn('[STORY_GENERATOR] Failed to save story to library (storage full?)');
-                }
-            } catch (error) {
-                console.error('[STORY_GENERATOR] Error saving to storage:', error);
-                // Don't fail the story generation if storage fails
+            if (useLocalLibrary) {
+                onProgress?.("Saving to library...", 90);
+                await this.saveToLibrary(finalStory);
             }
 
             // Step 7: Automatically generate cover video if cover image exists
-            if (coverImage) {
+            if (coverImage && generateVideo && parentalControls?.allowCoverVideos !== false) {
+                this.throwIfCancelled(signal);
                 try {
                     onProgress?.("Creating animated cover video...", 95);
                     
@@ -99,19 +263,22 @@ export class StoryGenerator {
                         duration: "8s",
                         resolution: "720p",
                         generateAudio: true
-                    });
+                    }, ledger);
 
                     console.log('[STORY_GENERATOR] Cover video generated automatically:', videoResult.requestId);
                     
                     // Add video URL to the final story object
                     finalStory.coverVideo = videoResult.videoUrl;
                     finalStory.coverVideoRequestId = videoResult.requestId;
+                    finalStory.usage = ledger.getEntries();
                     
                     // Update saved story with video information
-                    try {
-                        storyStorage.saveStory(finalStory);
-                    } catch (error) {
-                        console.warn('[STORY_GENERATOR] Failed to update story with video info:', error);
+                    if (useLocalLibrary) {
+                        try {
+                            await storyStorage.saveStory(finalStory);
+                        } catch (error) {
+                            console.warn('[STORY_GENERATOR] Failed to update story with video info:', error);
+                        }
                     }
                     
                     onProgress?.("Story and video complete!", 100);
@@ -127,36 +294,178 @@ export class StoryGenerator {
             return finalStory;
 
         } catch (error: any) {
+            if (
+                error instanceof StoryGenerationCancelledError ||
+                error instanceof ContentRejectedError ||
+                error instanceof ParentalControlsError ||
+                error instanceof BudgetExceededError
+            ) {
+                throw error;
+            }
             console.error('[STORY_GENERATOR] Error generating story:', error);
             throw new Error(`Failed to generate story: ${error.message}`);
         }
     }
 
-    private async loadAndEnhanceCharacters(
+    // Steps 1 and 2 of the pipeline, run ahead of time so the script can be reviewed.
+    // Pass the result to generateCompleteStory as a checkpoint to illustrate it.
+    async prepareScript(
         apiKey: string,
+        config: StoryConfig,
         characters: Character[],
+        onProgress?: (message: string, progress: number) => void
+    ): Promise<StoryScript> {
+        this.enforceParentalControls(config, characters, parentalControlsService.getControls());
+        await this.moderateInput(apiKey, config, characters);
+        const enhanced = await this.loadAndEnhanceCharacters(apiKey, characters, config, onProgress);
+        onProgress?.("Writing the story...", 50);
+        const generated = await this.gemini.generateStory(apiKey, config, enhanced);
+        const storyData = await this.ensureSafeScript(apiKey, config, enhanced, generated, onProgress);
+        return { characters: enhanced, storyData };
+    }
+
+    // Rewrite the text of a single page of a script; illustrations are not touched
+    async rewriteScriptPage(apiKey: string, config: StoryConfig, script: StoryScript, pageIndex: number): Promise<StoryScript> {
+        const reviewer = new AISafetyChecker(apiKey, this.gemini);
+        const withPage = (page: StoryPage) => ({
+            ...script.storyData,
+            pages: script.storyData.pages.map((existing, index) => index === pageIndex ? page : existing)
+        });
+        let storyData = withPage(
+            await this.gemini.generateStoryPage(apiKey, config, script.characters, script.storyData, pageIndex)
+        );
+
+        for (let attempt = 0; ; attempt++) {
+            const texts = getScriptTexts(storyData).filter(text => text.pageIndex === pageIndex);
+            const issues = await contentModerator.check(texts, getAgeGroup(config), reviewer);
+            if (issues.length === 0) {
+                return { ...script, storyData };
+            }
+            // A rewrite can't help when the review itself failed
+            if (attempt >= SAFETY_REWRITE_ATTEMPTS || issues.some(issue => issue.category === 'unreviewed')) {
+                throw new ContentRejectedError(issues);
+            }
+            storyData = withPage(await this.gemini.generateStoryPage(
+                apiKey, config, script.characters, script.storyData, pageIndex, this.getSafetyGuidance(config, issues)
+            ));
+        }
+    }
+
+    // Save a finished story and its characters to the browser library
+    async saveToLibrary(story: GeneratedStory): Promise<void> {
+        try {
+            // Save characters for future use
+            await characterStorage.saveCharacters(story.characters);
+            
+            // Save the complete story
+            const saved = await storyStorage.saveStory(story);
+            if (saved) {
+                console.log('[STORY_GENERATOR] Story saved to library successfully');
+            } else {
+                console.warn('[STORY_GENERATOR] Failed to save story to library (storage full?)');
+            }
+        } catch (error) {
+            console.error('[STORY_GENERATOR] Error saving to storage:', error);
+            // Don't fail the story generation if storage fails
+        }
+    }
+
+    private enforceParentalControls(config: StoryConfig, characters: Character[], controls: ParentalControls | null): void {
+        const violations = controls ? getParentalViolations(config, characters, controls) : [];
+        if (violations.length > 0) {
+            console.warn('[STORY_GENERATOR] Story blocked by parental controls:', violations);
+            throw new ParentalControlsError(violations);
+        }
+    }
+
+    // Reject story ideas, settings or character names that do not suit the reader's age
+    private async moderateInput(apiKey: string, config: StoryConfig, characters: Character[]): Promise<void> {
+        const issues = await contentModerator.check(
+            getInputTexts(config, characters),
+            getAgeGroup(config),
+            new AISafetyChecker(apiKey, this.gemini)
+        );
+        if (issues.length > 0) {
+            console.warn(`[STORY_GENERATOR] Story request rejected by the safety check (${issues.length} issues)`);
+            throw new ContentRejectedError(issues);
+        }
+    }
+
+    // Check every panel the model wrote, rewriting flagged pages a couple of times before giving up
+    private async ensureSafeScript(
+        apiKey: string,
         config: StoryConfig,
+        characters: Character[],
+        storyData: { title: string; pages: StoryPage[] },
         onProgress?: (message: string, progress: number) => void
+    ): Promise<{ title: string; pages: StoryPage[] }> {
+        const reviewer = new AISafetyChecker(apiKey, this.gemini);
+        let script = storyData;
+
+        for (let attempt = 0; ; attempt++) {
+            onProgress?.("Checking the story is right for your reader...", 30);
+            const issues = await contentModerator.check(getScriptTexts(script), getAgeGroup(config), reviewer);
+            if (issues.length === 0) {
+                return script;
+            }
+
+            const flaggedPages = Array.from(new Set(issues.map(issue => issue.pageIndex)));
+            // The title cannot be rewritten page by page
+            if (attempt >= SAFETY_REWRITE_ATTEMPTS || flaggedPages.includes(undefined)) {
+                console.warn(`[STORY_GENERATOR] Script still has ${issues.length} safety issues, rejecting it`);
+                throw new ContentRejectedError(issues);
+            }
+
+            console.log(`[STORY_GENERATOR] Rewriting ${flaggedPages.length} pages flagged by the safety check`);
+            const pages = [...script.pages];
+            for (const pageIndex of flaggedPages as number[]) {
+                const pageIssues = issues.filter(issue => issue.pageIndex === pageIndex);
+                pages[pageIndex] = await this.gemini.generateStoryPage(
+                    apiKey, config, characters, { ...script, pages }, pageIndex, this.getSafetyGuidance(config, pageIssues)
+                );
+            }
+            script = { ...script, pages };
+        }
+    }
+
+    private getSafetyGuidance(config: StoryConfig, issues: ModerationIssue[]): string {
+        return `The previous version was not suitable for ages ${getAgeGroup(config)}. Fix this: ${issues.map(issue => issue.message).join(' ')}`;
+    }
+
+    // Carry the calls recorded so far onto the story, so they persist with it
+    private withUsage(story: GeneratedStory): GeneratedStory {
+        return this.ledger ? { ...story, usage: this.ledger.getEntries() } : story;
+    }
+
+    private throwIfCancelled(signal?: AbortSignal): void {
+        if (signal?.aborted) {
+            throw new StoryGenerationCancelledError();
+        }
+    }
+
+    private async loadAndEnhanceCharacters(
+        apiKey: string,
+        characters: Character[],
+        config: StoryConfig,
+        onProgress?: (message: string, progress: number) => void,
+        useLocalLibrary: boolean = true
     ): Promise<Character[]> {
         onProgress?.("Loading saved characters...", 10);
         
-        // Try to load characters from storage first
-        const characterNames = characters.map(c => c.name);
-        const loadedCharacters = characterStorage.loadCharactersForStory(characterNames);
+        // Try to load characters from storage first (returned in the same order)
+        const loadedCharacters = useLocalLibrary ? await characterStorage.loadCharactersForStory(characters) : [];
         
         // Merge loaded characters with provided ones
-        const mergedCharacters = characters.map(providedChar => {
-            const storedChar = loadedCharacters.find(loaded => 
-                loaded.name.toLowerCase() === providedChar.name.toLowerCase()
-            );
+        const mergedCharacters = characters.map((providedChar, index) => {
+            const storedChar = loadedCharacters[index];
             
             if (storedChar && (storedChar.generatedDesignImage || storedChar.base64Image)) {
                 console.log(`[STORY_GENERATOR] Using stored character: ${storedChar.name}`);
                 return {
                     ...providedChar,
                     ...storedChar,
-                    // Keep the original ID from provided character
-                    id: providedChar.id
+                    // The stored id is the character's identity in panels and in the library
+                    id: storedChar.id
                 };
             }
             
@@ -171,7 +480,7 @@ export class StoryGenerator {
         if (charactersNeedingDescriptions.length > 0) {
             onProgress?.(`Describing ${charactersNeedingDescriptions.length} new characters...`, 15);
             
-            const enhancedCharacters = await geminiService.generateCharacterDescriptions(apiKey, charactersNeedingDescriptions, config);
+            const enhancedCharacters = await this.gemini.generateCharacterDescriptions(apiKey, charactersNeedingDescriptions, config);
             
             // Merge back with original characters
             return mergedCharacters.map(char => {
@@ -183,120 +492,269 @@ export class StoryGenerator {
         return mergedCharacters;
     }
 
-    private async enhanceCharacters(
+    private async generatePanelArt(
         apiKey: string,
+        pages: StoryPage[],
         characters: Character[],
-        config: StoryConfig,
-        onProgress?: (message: string, progress: number) => void
-    ): Promise<Character[]> {
-        // Characters with uploaded images keep their original info
-        // Characters without images get AI-generated descriptions
-        const charactersNeedingDescriptions = characters.filter(char => !char.base64Image);
-        
-        if (charactersNeedingDescriptions.length === 0) {
-            return characters;
+        style: string,
+        textMode: TextRenderMode | undefined,
+        onProgress?: (message: string, progress: number) => void,
+        resume: WorkQueueOptions & {
+            attemptedPanels?: string[];
+            onPanelComplete?: (pages: StoryPage[], attemptedPanels: string[]) => void | Promise<void>;
+        } = {}
+    ): Promise<StoryPage[]> {
+        const { attemptedPanels: previouslyAttempted, onPanelComplete, ...queueOptions } = resume;
+        const pagesWithArt: StoryPage[] = pages.map(page => ({ ...page, panels: [...page.panels] }));
+        const attemptedPanels = new Set(previouslyAttempted || []);
+        const allPanels = this.findPanels(pagesWithArt, () => true);
+        // Panels handled in a previous run count as done
+        const pending = allPanels.filter(({ pageIndex, panelIndex }) => !attemptedPanels.has(`${pageIndex}:${panelIndex}`));
+        const alreadyDone = allPanels.length - pending.length;
+
+        const reportProgress = (done: number) => {
+            const progressPercent = 45 + (done / Math.max(1, allPanels.length)) * 35;
+            onProgress?.(`Illustrating panels (${done} of ${allPanels.length} done)...`, progressPercent);
+        };
+
+        this.throwIfCancelled(queueOptions.signal);
+        reportProgress(alreadyDone);
+
+        try {
+            // Results are written back by position, so finishing order does not matter
+            await runWorkQueue(
+                pending,
+                ({ panel }) => this.gemini.generatePanelIllustration(apiKey, panel, characters, style, textMode),
+                queueOptions,
+                async (index, result, completed) => {
+                    const { pageIndex, panelIndex, panel } = pending[index];
+                    if (result.error instanceof BudgetExceededError) {
+                        // Leave the panel unattempted so a resumed run with more budget draws it
+                        throw result.error;
+                    }
+                    if (result.value) {
+                        pagesWithArt[pageIndex].panels[panelIndex] = { ...panel, imageUrl: result.value };
+                    } else {
+                        // Keep panel without illustration
+                        console.warn(`[STORY_GENERATOR] Failed to generate illustration for panel ${panel.id}:`, result.error);
+                    }
+
+                    attemptedPanels.add(`${pageIndex}:${panelIndex}`);
+                    reportProgress(alreadyDone + completed);
+                    await onPanelComplete?.(pagesWithArt, Array.from(attemptedPanels));
+                }
+            );
+        } catch (error) {
+            if (error instanceof WorkQueueCancelledError) {
+                throw new StoryGenerationCancelledError();
+            }
+            throw error;
         }
 
-        onProgress?.(`Describing ${charactersNeedingDescriptions.length} characters...`, 15);
-        
-        const enhancedCharacters = await geminiService.generateCharacterDescriptions(apiKey, charactersNeedingDescriptions, config);
-        
-        // Merge back with original characters
-        return characters.map(char => {
-            const enhanced = enhancedCharacters.find(e => e.id === char.id);
-            return enhanced || char;
-        });
+        return pagesWithArt;
     }
 
-    private async generateCharacterArt(
+    // Helper method to regenerate failed panels
+    async regeneratePanel(
         apiKey: string,
+        panel: Panel,
         characters: Character[],
         style: string,
-        onProgress?: (message: string, progress: number) => void
-    ): Promise<Character[]> {
-        const charactersWithArt: Character[] = [];
+        textMode?: TextRenderMode
+    ): Promise<Panel> {
+        try {
+            const illustration = await this.gemini.generatePanelIllustration(apiKey, panel, characters, style, textMode);
+            return {
+                ...panel,
+                imageUrl: illustration,
+                consistency: undefined
+            };
+        } catch (error) {
+            console.error(`[STORY_GENERATOR] Failed to regenerate panel ${panel.id}:`, error);
+            throw error;
+        }
+    }
 
-        for (let i = 0; i < characters.length; i++) {
-            const character = characters[i];
-            onProgress?.(`Drawing ${character.name}...`, 50 + (i / characters.length) * 15);
+    // Score one panel against its characters' designs; the panel is returned unchanged if the check fails
+    async reviewPanel(apiKey: string, panel: Panel, characters: Character[]): Promise<Panel> {
+        try {
+            const consistency = await this.gemini.checkPanelConsistency(apiKey, panel, characters);
+            return consistency ? { ...panel, consistency } : panel;
+        } catch (error) {
+            console.warn(`[STORY_GENERATOR] Failed to check consistency of panel ${panel.id}:`, error);
+            return panel;
+        }
+    }
 
-            try {
-                const artworkUrl = await geminiService.generateCartoonCharacterImage(apiKey, character, style);
-                charactersWithArt.push({
-                    ...character,
-                    generatedArtwork: artworkUrl
-                });
-            } catch (error) {
-                console.warn(`[STORY_GENERATOR] Failed to generate art for ${character.name}:`, error);
-                charactersWithArt.push(character); // Keep character without artwork
+    // Panels with art that have not been reviewed yet and show at least one designed character
+    getPanelsToReview(story: GeneratedStory): MissingPanel[] {
+        return this.findPanels(story.pages, panel => this.needsReview(panel, story.characters));
+    }
+
+    getInconsistentPanels(story: GeneratedStory, threshold: number = CONSISTENCY_THRESHOLD): MissingPanel[] {
+        return this.findPanels(story.pages, panel =>
+            !!panel.imageUrl && !!panel.consistency && panel.consistency.score < threshold
+        );
+    }
+
+    // Review every panel that still needs it and save the scores with the story
+    async reviewConsistency(
+        apiKey: string,
+        story: GeneratedStory,
+        options: {
+            onProgress?: (completed: number, total: number) => void;
+            // Called as each panel is scored; the caller then applies and saves the scores itself
+            onPanelReviewed?: (pageIndex: number, panelIndex: number, panel: Panel) => void;
+        } = {}
+    ): Promise<{ story: GeneratedStory; reviewed: number; flagged: number }> {
+        const total = this.getPanelsToReview(story).length;
+        let completed = 0;
+        let reviewed = 0;
+
+        options.onProgress?.(0, total);
+
+        const pages = await this.reviewPanels(apiKey, story.pages, story.characters, {
+            onPanelReviewed: (_, panel, pageIndex, panelIndex) => {
+                if (panel.consistency) {
+                    reviewed++;
+                    options.onPanelReviewed?.(pageIndex, panelIndex, panel);
+                }
+                options.onProgress?.(++completed, total);
+            }
+        });
+        const reviewedStory = this.withUsage({ ...story, pages });
+
+        if (reviewed > 0 && !options.onPanelReviewed) {
+            const saved = await storyStorage.saveStory(reviewedStory);
+            if (!saved) {
+                console.warn('[STORY_GENERATOR] Failed to save story with consistency scores');
             }
         }
 
-        return charactersWithArt;
+        return {
+            story: reviewedStory,
+            reviewed,
+            flagged: this.getInconsistentPanels(reviewedStory).length
+        };
     }
 
-    private async generatePanelArt(
+    private needsReview(panel: Panel, characters: Character[]): boolean {
+        return !!panel.imageUrl &&
+            !panel.consistency &&
+            getPanelCharacters(panel, characters).some(char => char.generatedDesignImage);
+    }
+
+    private findPanels(pages: StoryPage[], predicate: (panel: Panel) => boolean): MissingPanel[] {
+        return pages.flatMap((page, pageIndex) =>
+            page.panels
+                .map((panel, panelIndex) => ({ pageIndex, panelIndex, panel }))
+                .filter(({ panel }) => predicate(panel))
+        );
+    }
+
+    private async reviewPanels(
         apiKey: string,
         pages: StoryPage[],
         characters: Character[],
-        style: string,
-        onProgress?: (message: string, progress: number) => void
+        options: {
+            signal?: AbortSignal;
+            onPanelReviewed?: (pages: StoryPage[], panel: Panel, pageIndex: number, panelIndex: number) => void | Promise<void>;
+        } = {}
     ): Promise<StoryPage[]> {
-        const pagesWithArt: StoryPage[] = [];
-        let totalPanels = pages.reduce((acc, page) => acc + page.panels.length, 0);
-        let currentPanel = 0;
+        const reviewedPages: StoryPage[] = pages.map(page => ({ ...page, panels: [...page.panels] }));
+        const toReview = this.findPanels(pages, panel => this.needsReview(panel, characters));
 
-        for (const page of pages) {
-            const panelsWithArt = [];
+        await runWorkQueue(toReview, async ({ pageIndex, panelIndex, panel }) => {
+            this.throwIfCancelled(options.signal);
+            const reviewed = await this.reviewPanel(apiKey, panel, characters);
+            reviewedPages[pageIndex].panels[panelIndex] = reviewed;
+            await options.onPanelReviewed?.(reviewedPages, reviewed, pageIndex, panelIndex);
+        }, { ...UNTHROTTLED_QUEUE, concurrency: CONSISTENCY_REVIEW_CONCURRENCY }, stopOnError);
 
-            for (const panel of page.panels) {
-                currentPanel++;
-                const progressPercent = 60 + (currentPanel / totalPanels) * 35;
-                onProgress?.(`Illustrating page ${page.pageNumber}, panel ${panel.id}...`, progressPercent);
+        return reviewedPages;
+    }
 
+    // Translate dialogue and narration, keeping the illustrations and any other translations
+    async translateStory(apiKey: string, story: GeneratedStory, language: StoryLanguage): Promise<GeneratedStory> {
+        if (!canTranslateStory(story)) {
+            throw new Error('Books with painted-in text can\'t be translated.');
+        }
+        const translation = await this.gemini.translateStory(apiKey, story, language);
+        return this.withUsage({
+            ...story,
+            translations: {
+                ...story.translations,
+                [language]: translation
+            }
+        });
+    }
+
+    // Find panels whose illustration failed during generation
+    getPanelsMissingArt(story: GeneratedStory): MissingPanel[] {
+        return this.findPanels(story.pages, panel => !panel.imageUrl);
+    }
+
+    // Regenerate only the panels that are missing illustrations, a few at a time
+    async fillMissingPanels(
+        apiKey: string,
+        story: GeneratedStory,
+        options: {
+            concurrency?: number;
+            retries?: number;
+            onProgress?: (completed: number, total: number) => void;
+            // Called as each panel is drawn; the caller then applies and saves the panels itself
+            onPanelFilled?: (pageIndex: number, panelIndex: number, panel: Panel) => void;
+        } = {}
+    ): Promise<{ story: GeneratedStory; filled: number; failed: number }> {
+        const { concurrency = 2, retries = 2, onProgress, onPanelFilled } = options;
+        const missing = this.getPanelsMissingArt(story);
+        const pages = story.pages.map(page => ({ ...page, panels: [...page.panels] }));
+        let filled = 0;
+        let failed = 0;
+        let completed = 0;
+
+        onProgress?.(0, missing.length);
+
+        await runWorkQueue(missing, async ({ pageIndex, panelIndex, panel }) => {
+            for (let attempt = 0; attempt <= retries; attempt++) {
                 try {
-                    const illustration = await geminiService.generatePanelIllustration(
+                    pages[pageIndex].panels[panelIndex] = await this.regeneratePanel(
                         apiKey,
                         panel,
-                        characters,
-                        style
+                        story.characters,
+                        story.config.style,
+                        story.config.textMode
                     );
-                    panelsWithArt.push({
-                        ...panel,
-                        imageUrl: illustration
-                    });
+                    filled++;
+                    onPanelFilled?.(pageIndex, panelIndex, pages[pageIndex].panels[panelIndex]);
+                    break;
                 } catch (error) {
-                    console.warn(`[STORY_GENERATOR] Failed to generate illustration for panel ${panel.id}:`, error);
-                    panelsWithArt.push(panel); // Keep panel without illustration
+                    if (error instanceof BudgetExceededError) {
+                        throw error;
+                    }
+                    if (attempt === retries) {
+                        console.warn(`[STORY_GENERATOR] Giving up on panel ${panel.id} after ${retries + 1} attempts`);
+                        failed++;
+                    } else {
+                        await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** attempt));
+                    }
                 }
             }
 
-            pagesWithArt.push({
-                ...page,
-                panels: panelsWithArt
-            });
-        }
+            completed++;
+            onProgress?.(completed, missing.length);
+        }, { ...UNTHROTTLED_QUEUE, concurrency }, stopOnError);
 
-        return pagesWithArt;
-    }
+        const patchedStory = this.withUsage({ ...story, pages });
 
-    // Helper method to regenerate failed panels
-    async regeneratePanel(
-        apiKey: string,
-        panel: Panel,
-        characters: Character[],
-        style: string
-    ): Promise<Panel> {
-        try {
-            const illustration = await geminiService.generatePanelIllustration(apiKey, panel, characters, style);
-            return {
-                ...panel,
-                imageUrl: illustration
-            };
-        } catch (error) {
-            console.error(`[STORY_GENERATOR] Failed to regenerate panel ${panel.id}:`, error);
-            throw error;
+        if (filled > 0 && !onPanelFilled) {
+            const saved = await storyStorage.saveStory(patchedStory);
+            if (!saved) {
+                console.warn('[STORY_GENERATOR] Failed to save story with filled panels');
+            }
         }
+
+        return { story: patchedStory, filled, failed };
     }
 
     // Generate animated cover video for completed story
@@ -315,7 +773,7 @@ export class StoryGenerator {
                 duration: "8s",
                 resolution: "720p",
                 generateAudio: true
-            });
+            }, this.ledger || undefined);
 
             onProgress?.("Cover video generated!", 100);
             
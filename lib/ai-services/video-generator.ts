@@ -1,5 +1,9 @@
 import { fal } from "@fal-ai/client";
 import { GeneratedStory } from "@/lib/types";
+import { estimateCost } from "@/lib/usage/pricing";
+import { UsageLedger } from "@/lib/usage/usage-ledger";
+
+export const VIDEO_MODEL = "fal-ai/veo3/fast/image-to-video";
 
 // Configure FAL client with API key
 fal.config({
@@ -22,11 +26,13 @@ export class VideoGenerator {
    * Generate an animated video from the story's cover image
    * @param story - The complete generated story
    * @param options - Video generation options
+   * @param ledger - Records the video's cost against the book's budget
    * @returns Promise with video URL and request ID
    */
   async generateCoverVideo(
     story: GeneratedStory,
-    options: VideoGenerationOptions = {}
+    options: VideoGenerationOptions = {},
+    ledger?: UsageLedger
   ): Promise<VideoGenerationResult> {
     if (!story.coverImage) {
       throw new Error("Story must have a cover image to generate video");
@@ -36,13 +42,16 @@ export class VideoGenerator {
       throw new Error("FAL_KEY environment variable is required for video generation");
     }
 
+    const videoSeconds = parseInt(options.duration || "8s", 10);
+    const release = ledger?.reserve(estimateCost(VIDEO_MODEL, { videoSeconds }));
+
     try {
       // Create animation prompt based on story content
       const animationPrompt = this.createAnimationPrompt(story);
       
       console.log('[VIDEO_GENERATOR] Generating cover video with prompt:', animationPrompt);
 
-      const result = await fal.subscribe("fal-ai/veo3/fast/image-to-video", {
+      const result = await fal.subscribe(VIDEO_MODEL, {
         input: {
           prompt: animationPrompt,
           image_url: story.coverImage,
@@ -59,6 +68,7 @@ export class VideoGenerator {
       });
 
       console.log('[VIDEO_GENERATOR] Video generation completed:', result.requestId);
+      ledger?.record("cover-video", VIDEO_MODEL, { videoSeconds });
 
       return {
         videoUrl: result.data.video.url,
@@ -67,6 +77,8 @@ export class VideoGenerator {
     } catch (error: any) {
       console.error('[VIDEO_GENERATOR] Error generating video:', error);
       throw new Error(`Failed to generate cover video: ${error.message}`);
+    } finally {
+      release?.();
     }
   }
 
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { WorkQueueCancelledError, runWorkQueue } from "./work-queue";
+
+const fast = { requestsPerMinute: 60000 };
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('runWorkQueue', () => {
+    it('returns results in input order', async () => {
+        const results = await runWorkQueue([30, 10, 20], async ms => {
+            await delay(ms);
+            return ms;
+        }, { ...fast, concurrency: 3 });
+
+        expect(results.map(result => result.value)).toEqual([30, 10, 20]);
+    });
+
+    it('stops starting items and waits for running ones before rethrowing', async () => {
+        const started: number[] = [];
+        const finished: number[] = [];
+        const failure = new Error('Checkpoint failed');
+
+        const run = runWorkQueue([0, 1, 2, 3, 4], async index => {
+            started.push(index);
+            await delay(index === 1 ? 50 : 5);
+            finished.push(index);
+            return index;
+        }, { ...fast, concurrency: 2 }, index => {
+            if (index === 0) throw failure;
+        });
+
+        await expect(run).rejects.toBe(failure);
+        expect(started).toEqual([0, 1]);
+        expect(finished).toEqual([0, 1]);
+    });
+
+    it('rejects with a cancellation error when the signal is aborted', async () => {
+        const controller = new AbortController();
+        const run = runWorkQueue([0, 1, 2], async index => {
+            if (index === 0) controller.abort();
+            await delay(5);
+            return index;
+        }, { ...fast, concurrency: 1, signal: controller.signal });
+
+        await expect(run).rejects.toBeInstanceOf(WorkQueueCancelledError);
+    });
+});
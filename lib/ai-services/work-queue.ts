@@ -0,0 +1,190 @@
+// Concurrency-limited work queue for AI calls: a token bucket keeps requests under the
+// provider's rate limit, and 429/503 responses are retried with exponential backoff.
+
+export class WorkQueueCancelledError extends Error {
+    constructor(message: string = 'Work queue was cancelled') {
+        super(message);
+        this.name = 'WorkQueueCancelledError';
+    }
+}
+
+export interface WorkQueueOptions {
+    concurrency?: number;
+    // Sustained request rate; bursts of up to `concurrency` requests are allowed
+    requestsPerMinute?: number;
+    // Extra attempts for rate-limited or overloaded responses
+    maxRetries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    signal?: AbortSignal;
+}
+
+export interface WorkQueueResult<R> {
+    value?: R;
+    error?: unknown;
+}
+
+export const DEFAULT_WORK_QUEUE_OPTIONS = {
+    concurrency: 3,
+    requestsPerMinute: 10,
+    maxRetries: 4,
+    baseDelayMs: 2000,
+    maxDelayMs: 60000,
+};
+
+function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw new WorkQueueCancelledError();
+    }
+}
+
+// Resolves after `ms`, or rejects early if the signal is aborted
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new WorkQueueCancelledError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new WorkQueueCancelledError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+export class TokenBucket {
+    private capacity: number;
+    private refillPerSecond: number;
+    private tokens: number;
+    private lastRefill = Date.now();
+    // Callers wait in line so tokens are handed out in request order
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(capacity: number, refillPerSecond: number) {
+        this.capacity = capacity;
+        this.refillPerSecond = refillPerSecond;
+        this.tokens = capacity;
+    }
+
+    take(signal?: AbortSignal): Promise<void> {
+        const turn = this.queue.then(() => this.waitForToken(signal));
+        // A cancelled caller must not block the ones behind it
+        this.queue = turn.catch(() => undefined);
+        return turn;
+    }
+
+    private async waitForToken(signal?: AbortSignal): Promise<void> {
+        for (;;) {
+            throwIfAborted(signal);
+            this.refill();
+            if (this.tokens >= 1) {
+                this.tokens -= 1;
+                return;
+            }
+            await sleep(Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000), signal);
+        }
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond);
+        this.lastRefill = now;
+    }
+}
+
+// Provider SDK errors carry the HTTP status; wrapped errors only keep it in the message
+export function isRetryableError(error: unknown): boolean {
+    const status = (error as { status?: number; code?: number })?.status ?? (error as { code?: number })?.code;
+    if (status === 429 || status === 503) {
+        return true;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return /\b(429|503)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|rate limit|overloaded/i.test(message);
+}
+
+export function getBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+    const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    // Jitter spreads out workers that were throttled at the same moment
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/**
+ * Runs worker over items with limited parallelism. Results come back in input order
+ * no matter which finishes first; a failed item has `error` set instead of `value`.
+ * onSettled fires as each item finishes, for progress reporting and checkpoints.
+ * If the queue is cancelled or onSettled throws, no new items are started and the
+ * error is rethrown once the items already running have finished.
+ */
+export async function runWorkQueue<T, R>(
+    items: T[],
+    worker: (item: T, index: number) => Promise<R>,
+    options: WorkQueueOptions = {},
+    onSettled?: (index: number, result: WorkQueueResult<R>, completed: number) => void | Promise<void>
+): Promise<WorkQueueResult<R>[]> {
+    const {
+        concurrency = DEFAULT_WORK_QUEUE_OPTIONS.concurrency,
+        requestsPerMinute = DEFAULT_WORK_QUEUE_OPTIONS.requestsPerMinute,
+        maxRetries = DEFAULT_WORK_QUEUE_OPTIONS.maxRetries,
+        baseDelayMs = DEFAULT_WORK_QUEUE_OPTIONS.baseDelayMs,
+        maxDelayMs = DEFAULT_WORK_QUEUE_OPTIONS.maxDelayMs,
+        signal,
+    } = options;
+    const bucket = new TokenBucket(Math.max(1, concurrency), requestsPerMinute / 60);
+    const results: WorkQueueResult<R>[] = new Array(items.length);
+    let next = 0;
+    let completed = 0;
+
+    // Aborted by the caller's signal or by the first lane to fail, so the others stop too
+    const stop = new AbortController();
+    const forwardAbort = () => stop.abort();
+    if (signal?.aborted) {
+        stop.abort();
+    }
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+    const failures: unknown[] = [];
+
+    const runItem = async (index: number): Promise<WorkQueueResult<R>> => {
+        for (let attempt = 0; ; attempt++) {
+            await bucket.take(stop.signal);
+            try {
+                return { value: await worker(items[index], index) };
+            } catch (error) {
+                throwIfAborted(stop.signal);
+                if (attempt >= maxRetries || !isRetryableError(error)) {
+                    return { error };
+                }
+                const delay = getBackoffDelay(attempt, baseDelayMs, maxDelayMs);
+                console.warn(`[WORK_QUEUE] Item ${index} was rate limited, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})`);
+                await sleep(delay, stop.signal);
+            }
+        }
+    };
+
+    const lanes = Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, async () => {
+        try {
+            while (next < items.length) {
+                throwIfAborted(stop.signal);
+                const index = next++;
+                results[index] = await runItem(index);
+                completed++;
+                await onSettled?.(index, results[index], completed);
+            }
+        } catch (error) {
+            failures.push(error);
+            stop.abort();
+        }
+    });
+
+    await Promise.all(lanes);
+    signal?.removeEventListener('abort', forwardAbort);
+    // The first failure is the cause; the rest are lanes that were stopped because of it
+    if (failures.length > 0) {
+        throw failures[0];
+    }
+    return results;
+}
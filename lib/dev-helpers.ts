@@ -17,7 +17,7 @@ export const createMockStory = (config: StoryConfig, characters: Character[]): G
         {
           id: 'panel-1-1',
           description: 'The adventure begins in a magical forest',
-          characters: characters.slice(0, 2).map(c => c.name),
+          characters: characters.slice(0, 2).map(c => c.id),
           imageUrl: `data:image/svg+xml,<svg width="400" height="300" xmlns="http://www.w3.org/2000/svg">
             <rect width="400" height="300" fill="%234ECDC4"/>
             <rect x="20" y="20" width="360" height="260" fill="white" stroke="black" stroke-width="3"/>
@@ -29,7 +29,7 @@ export const createMockStory = (config: StoryConfig, characters: Character[]): G
         {
           id: 'panel-1-2',
           description: 'Our heroes meet for the first time',
-          characters: characters.map(c => c.name),
+          characters: characters.map(c => c.id),
           imageUrl: `data:image/svg+xml,<svg width="400" height="300" xmlns="http://www.w3.org/2000/svg">
             <rect width="400" height="300" fill="%23FF6B6B"/>
             <rect x="20" y="20" width="360" height="260" fill="white" stroke="black" stroke-width="3"/>
@@ -47,7 +47,7 @@ export const createMockStory = (config: StoryConfig, characters: Character[]): G
         {
           id: 'panel-2-1',
           description: 'The characters face their first challenge',
-          characters: characters.map(c => c.name),
+          characters: characters.map(c => c.id),
           imageUrl: `data:image/svg+xml,<svg width="400" height="300" xmlns="http://www.w3.org/2000/svg">
             <rect width="400" height="300" fill="%2345B7D1"/>
             <rect x="20" y="20" width="360" height="260" fill="white" stroke="black" stroke-width="3"/>
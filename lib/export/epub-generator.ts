@@ -0,0 +1,439 @@
+import { GeneratedStory, Panel, StoryLanguage } from "@/lib/types";
+import { getTextDirection } from "@/lib/i18n/languages";
+import { resolvePanelTextLayout, usesTextOverlay } from "@/lib/layout/text-overlay";
+import { getNarrationSegments, getNarrationRate, getTTSProvider, TTSProvider } from "@/lib/narration";
+import { ZipEntry, createZip } from "./zip-writer";
+
+// Fixed-layout viewport; pages are laid out in these CSS pixels
+const PAGE_WIDTH = 800;
+const PAGE_HEIGHT = 1200;
+const ACTIVE_CLASS = '-epub-media-overlay-active';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+};
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/wav': 'wav',
+  'audio/ogg': 'ogg',
+};
+
+export interface EpubOptions {
+  // Embed narration audio as SMIL media overlays (needs a provider that can synthesize audio)
+  includeNarration?: boolean;
+  ttsProvider?: TTSProvider;
+  onProgress?: (message: string) => void;
+}
+
+interface ManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties?: string;
+  mediaOverlay?: string;
+}
+
+// One narrated segment of a page: the text element it highlights and its audio clip
+interface OverlayClip {
+  elementId: string;
+  audioHref: string;
+  duration: number;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// SMIL clock value, e.g. 0:00:05.120
+function formatClock(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toFixed(3).padStart(6, '0');
+  return `${hours}:${String(minutes).padStart(2, '0')}:${secs}`;
+}
+
+async function loadImage(url: string): Promise<{ data: Uint8Array; mimeType: string }> {
+  if (url.startsWith('data:') && url.includes(';base64,')) {
+    const [header, base64] = url.split(',');
+    const binary = atob(base64);
+    const data = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      data[i] = binary.charCodeAt(i);
+    }
+    return { data, mimeType: header.match(/data:([^;]+)/)?.[1] || 'image/png' };
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load image: ${response.status}`);
+  return {
+    data: new Uint8Array(await response.arrayBuffer()),
+    mimeType: response.headers.get('Content-Type')?.split(';')[0] || 'image/png',
+  };
+}
+
+export class EpubGenerator {
+  // Browser voices can only speak, so narration can be embedded only with a provider that renders audio
+  canEmbedNarration(provider: TTSProvider = getTTSProvider()): boolean {
+    return typeof provider.synthesize === 'function';
+  }
+
+  async generateEPUB(story: GeneratedStory, options: EpubOptions = {}): Promise<Blob> {
+    console.log('[EPUB_GENERATOR] Starting EPUB generation for:', story.title);
+
+    const provider = options.ttsProvider || getTTSProvider();
+    const narrate = !!options.includeNarration && this.canEmbedNarration(provider);
+    if (options.includeNarration && !narrate) {
+      console.warn(`[EPUB_GENERATOR] ${provider.name} voices cannot be saved, exporting without narration`);
+    }
+
+    const language = story.config.language || 'en';
+    const files: ZipEntry[] = [];
+    const manifest: ManifestItem[] = [];
+    const spine: string[] = [];
+    const navEntries: { href: string; label: string }[] = [];
+    const overlayDurations: { id: string; duration: number }[] = [];
+
+    // Cover
+    options.onProgress?.('Adding cover...');
+    let coverImageHref: string | null = null;
+    if (story.coverImage) {
+      try {
+        const image = await loadImage(story.coverImage);
+        coverImageHref = `images/cover.${IMAGE_EXTENSIONS[image.mimeType] || 'png'}`;
+        files.push({ path: `OEBPS/${coverImageHref}`, data: image.data });
+        manifest.push({ id: 'cover-image', href: coverImageHref, mediaType: image.mimeType, properties: 'cover-image' });
+      } catch (error) {
+        console.warn('[EPUB_GENERATOR] Failed to add cover image:', error);
+      }
+    }
+    files.push({ path: 'OEBPS/cover.xhtml', data: this.buildCoverPage(story, coverImageHref, language) });
+    manifest.push({ id: 'cover', href: 'cover.xhtml', mediaType: 'application/xhtml+xml' });
+    spine.push('cover');
+    navEntries.push({ href: 'cover.xhtml', label: 'Cover' });
+
+    // One page per panel, like the viewer and the PDF
+    const panels = story.pages.flatMap(page => page.panels);
+    for (let index = 0; index < panels.length; index++) {
+      const panel = panels[index];
+      const pageNumber = index + 1;
+      const pageId = `page-${pageNumber}`;
+      options.onProgress?.(`Adding page ${pageNumber} of ${panels.length}...`);
+
+      let imageHref: string | null = null;
+      if (panel.imageUrl) {
+        try {
+          const image = await loadImage(panel.imageUrl);
+          imageHref = `images/${pageId}.${IMAGE_EXTENSIONS[image.mimeType] || 'png'}`;
+          files.push({ path: `OEBPS/${imageHref}`, data: image.data });
+          manifest.push({ id: `${pageId}-image`, href: imageHref, mediaType: image.mimeType });
+        } catch (error) {
+          console.warn(`[EPUB_GENERATOR] Failed to add image for page ${pageNumber}, using text page:`, error);
+        }
+      }
+
+      const clips = narrate
+        ? await this.synthesizeClips(story, panel, pageId, provider, files, manifest)
+        : [];
+
+      const overlayId = clips.length > 0 ? `${pageId}-overlay` : undefined;
+      if (overlayId) {
+        files.push({ path: `OEBPS/${pageId}.smil`, data: this.buildMediaOverlay(`${pageId}.xhtml`, clips) });
+        manifest.push({ id: overlayId, href: `${pageId}.smil`, mediaType: 'application/smil+xml' });
+        overlayDurations.push({ id: overlayId, duration: clips.reduce((acc, clip) => acc + clip.duration, 0) });
+      }
+
+      files.push({
+        path: `OEBPS/${pageId}.xhtml`,
+        data: this.buildPanelPage(story, panel, pageNumber, imageHref, language),
+      });
+      manifest.push({ id: pageId, href: `${pageId}.xhtml`, mediaType: 'application/xhtml+xml', mediaOverlay: overlayId });
+      spine.push(pageId);
+      navEntries.push({ href: `${pageId}.xhtml`, label: `Page ${pageNumber}` });
+    }
+
+    files.push({ path: 'OEBPS/css/book.css', data: this.buildStylesheet() });
+    manifest.push({ id: 'css', href: 'css/book.css', mediaType: 'text/css' });
+    files.push({ path: 'OEBPS/nav.xhtml', data: this.buildNav(story, navEntries, language) });
+    manifest.push({ id: 'nav', href: 'nav.xhtml', mediaType: 'application/xhtml+xml', properties: 'nav' });
+
+    const packageFile = this.buildPackage(story, manifest, spine, overlayDurations, language);
+
+    // The mimetype entry must come first and stay uncompressed
+    const blob = createZip([
+      { path: 'mimetype', data: 'application/epub+zip' },
+      { path: 'META-INF/container.xml', data: this.buildContainer() },
+      { path: 'OEBPS/content.opf', data: packageFile },
+      ...files,
+    ]);
+
+    console.log(`[EPUB_GENERATOR] EPUB generation completed with ${panels.length} pages${narrate ? ' and narration' : ''}`);
+    return new Blob([blob], { type: 'application/epub+zip' });
+  }
+
+  private async synthesizeClips(
+    story: GeneratedStory,
+    panel: Panel,
+    pageId: string,
+    provider: TTSProvider,
+    files: ZipEntry[],
+    manifest: ManifestItem[]
+  ): Promise<OverlayClip[]> {
+    const clips: OverlayClip[] = [];
+    const segments = getNarrationSegments(panel);
+
+    for (let index = 0; index < segments.length; index++) {
+      const segment = segments[index];
+      try {
+        const speech = await provider.synthesize!({
+          text: segment.text,
+          language: story.config.language || 'en',
+          rate: getNarrationRate(story.config.targetAge),
+        });
+        const audioHref = `audio/${pageId}-${index}.${AUDIO_EXTENSIONS[speech.mimeType] || 'mp3'}`;
+        files.push({ path: `OEBPS/${audioHref}`, data: speech.audio });
+        manifest.push({ id: `${pageId}-audio-${index}`, href: audioHref, mediaType: speech.mimeType });
+        clips.push({
+          elementId: segment.kind === 'narration' ? 'narration' : `dialogue-${segment.index}`,
+          audioHref,
+          duration: speech.duration,
+        });
+      } catch (error) {
+        // A missing clip only loses read-along for that line
+        console.warn(`[EPUB_GENERATOR] Failed to synthesize narration for ${pageId}:`, error);
+      }
+    }
+
+    return clips;
+  }
+
+  private xhtmlDocument(title: string, language: StoryLanguage, body: string): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${language}" xml:lang="${language}" dir="${getTextDirection(language)}">
+<head>
+  <meta charset="UTF-8"/>
+  <meta name="viewport" content="width=${PAGE_WIDTH}, height=${PAGE_HEIGHT}"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="css/book.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+  }
+
+  private buildCoverPage(story: GeneratedStory, coverImageHref: string | null, language: StoryLanguage): string {
+    const body = coverImageHref
+      ? `  <div class="page"><img class="art" src="${coverImageHref}" alt="${escapeXml(story.title)}"/></div>`
+      : `  <div class="page title-page">
+    <h1>${escapeXml(story.title)}</h1>
+    <p>${escapeXml(`${story.config.theme} • ${story.config.style} • Ages ${story.config.targetAge || '6-8'}`)}</p>
+  </div>`;
+    return this.xhtmlDocument(story.title, language, body);
+  }
+
+  private buildPanelPage(
+    story: GeneratedStory,
+    panel: Panel,
+    pageNumber: number,
+    imageHref: string | null,
+    language: StoryLanguage
+  ): string {
+    const title = `${story.title} - Page ${pageNumber}`;
+
+    if (!imageHref) {
+      const dialogue = (panel.dialogue || [])
+        .map((line, index) => `    <p class="dialogue-line" id="dialogue-${index}">${escapeXml(line)}</p>`)
+        .join('\n');
+      return this.xhtmlDocument(title, language, `  <div class="page text-page">
+    <p class="scene">${escapeXml(panel.description)}</p>
+${panel.narration ? `    <p class="narration-line" id="narration">${escapeXml(panel.narration)}</p>\n` : ''}${dialogue}
+  </div>`);
+    }
+
+    // Overlay books get the same positioned bubbles as the viewer. Baked books already have
+    // the words in the picture, so the text is kept for screen readers and read-along only.
+    const overlay = usesTextOverlay(story.config);
+    const layout = resolvePanelTextLayout(panel);
+    const position = (placement: { x: number; y: number; width: number }) =>
+      overlay ? ` style="left: ${placement.x}%; top: ${placement.y}%; width: ${placement.width}%;"` : '';
+
+    const textBoxes = [
+      ...(panel.dialogue || []).map((line, index) =>
+        `    <div class="${overlay ? 'dialogue' : 'hidden-text'}" id="dialogue-${index}"${position(layout.dialogue[index])}>${escapeXml(line)}</div>`
+      ),
+      ...(panel.narration && layout.narration
+        ? [`    <div class="${overlay ? 'narration' : 'hidden-text'}" id="narration"${position(layout.narration)}>${escapeXml(panel.narration)}</div>`]
+        : []),
+    ].join('\n');
+
+    return this.xhtmlDocument(title, language, `  <div class="page">
+    <img class="art" src="${imageHref}" alt="${escapeXml(panel.description)}"/>
+${textBoxes}
+  </div>`);
+  }
+
+  private buildMediaOverlay(pageHref: string, clips: OverlayClip[]): string {
+    const pars = clips
+      .map((clip, index) => `    <par id="par-${index}">
+      <text src="${pageHref}#${clip.elementId}"/>
+      <audio src="${clip.audioHref}" clipBegin="0s" clipEnd="${clip.duration.toFixed(3)}s"/>
+    </par>`)
+      .join('\n');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<smil xmlns="http://www.w3.org/ns/SMIL" xmlns:epub="http://www.idpf.org/2007/ops" version="3.0">
+  <body>
+    <seq id="seq-1" epub:textref="${pageHref}">
+${pars}
+    </seq>
+  </body>
+</smil>`;
+  }
+
+  private buildNav(story: GeneratedStory, entries: { href: string; label: string }[], language: StoryLanguage): string {
+    const items = entries
+      .map(entry => `      <li><a href="${entry.href}">${escapeXml(entry.label)}</a></li>`)
+      .join('\n');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${language}" xml:lang="${language}" dir="${getTextDirection(language)}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(story.title)}</title>
+</head>
+<body>
+  <nav epub:type="toc" id="toc">
+    <h1>${escapeXml(story.title)}</h1>
+    <ol>
+${items}
+    </ol>
+  </nav>
+  <nav epub:type="page-list" hidden="hidden">
+    <ol>
+${items}
+    </ol>
+  </nav>
+</body>
+</html>`;
+  }
+
+  private buildPackage(
+    story: GeneratedStory,
+    manifest: ManifestItem[],
+    spine: string[],
+    overlayDurations: { id: string; duration: number }[],
+    language: StoryLanguage
+  ): string {
+    const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const created = new Date(story.createdAt).toISOString().slice(0, 10);
+
+    const overlayMeta = overlayDurations.length > 0
+      ? [
+          ...overlayDurations.map(overlay =>
+            `    <meta property="media:duration" refines="#${overlay.id}">${formatClock(overlay.duration)}</meta>`
+          ),
+          `    <meta property="media:duration">${formatClock(overlayDurations.reduce((acc, overlay) => acc + overlay.duration, 0))}</meta>`,
+          `    <meta property="media:active-class">${ACTIVE_CLASS}</meta>`,
+        ].join('\n') + '\n'
+      : '';
+
+    const items = manifest
+      .map(item => {
+        const properties = item.properties ? ` properties="${item.properties}"` : '';
+        const overlay = item.mediaOverlay ? ` media-overlay="${item.mediaOverlay}"` : '';
+        return `    <item id="${item.id}" href="${item.href}" media-type="${item.mediaType}"${properties}${overlay}/>`;
+      })
+      .join('\n');
+
+    const itemrefs = spine.map(id => `    <itemref idref="${id}"/>`).join('\n');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:memorytales:${escapeXml(story.id)}</dc:identifier>
+    <dc:title>${escapeXml(story.title)}</dc:title>
+    <dc:language>${language}</dc:language>
+    <dc:creator>MemoryTales.ai</dc:creator>
+    <dc:date>${created}</dc:date>
+    <dc:subject>${escapeXml(story.config.theme)}</dc:subject>
+    <dc:subject>${escapeXml(story.config.style.replace(/_/g, ' '))}</dc:subject>
+    <dc:description>${escapeXml(story.config.prompt)}</dc:description>
+    <meta property="dcterms:modified">${modified}</meta>
+    <meta property="schema:typicalAgeRange">${escapeXml(story.config.targetAge || '6-8')}</meta>
+    <meta property="rendition:layout">pre-paginated</meta>
+    <meta property="rendition:orientation">portrait</meta>
+    <meta property="rendition:spread">auto</meta>
+${overlayMeta}  </metadata>
+  <manifest>
+${items}
+  </manifest>
+  <spine page-progression-direction="${getTextDirection(language)}">
+${itemrefs}
+  </spine>
+</package>`;
+  }
+
+  private buildContainer(): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+  }
+
+  private buildStylesheet(): string {
+    return `html, body { margin: 0; padding: 0; width: ${PAGE_WIDTH}px; height: ${PAGE_HEIGHT}px; }
+.page { position: relative; width: ${PAGE_WIDTH}px; height: ${PAGE_HEIGHT}px; overflow: hidden; background: #ffffff; }
+.art { position: absolute; top: 0; left: 0; width: 100%; height: 100%; object-fit: cover; object-position: top; }
+.dialogue { position: absolute; box-sizing: border-box; background: #ffffff; border: 3px solid #000000; border-radius: 24px; padding: 12px 16px; font: bold 26px/1.3 sans-serif; }
+.narration { position: absolute; box-sizing: border-box; background: #fef9c3; border: 3px solid #000000; padding: 12px 16px; font: italic 26px/1.3 serif; }
+.hidden-text { position: absolute; width: 1px; height: 1px; overflow: hidden; clip: rect(0 0 0 0); }
+.title-page, .text-page { box-sizing: border-box; padding: 80px; font-family: serif; text-align: center; }
+.title-page h1 { margin-top: 360px; font-size: 64px; }
+.title-page p, .text-page p { font-size: 30px; line-height: 1.4; }
+.text-page .scene { font-style: italic; color: #555555; }
+.${ACTIVE_CLASS} { background: #fde047 !important; }
+`;
+  }
+
+  async downloadEPUB(story: GeneratedStory, options: EpubOptions = {}) {
+    try {
+      console.log('[EPUB_GENERATOR] Starting EPUB download process');
+      const epubBlob = await this.generateEPUB(story, options);
+
+      const url = URL.createObjectURL(epubBlob);
+      const link = document.createElement('a');
+      link.href = url;
+      const filename = `${story.title.replace(/[^a-z0-9\s]/gi, '').replace(/\s+/g, '_').toLowerCase()}_storybook.epub`;
+      link.download = filename;
+
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+
+      URL.revokeObjectURL(url);
+
+      console.log('[EPUB_GENERATOR] EPUB download completed:', filename);
+    } catch (error) {
+      console.error('[EPUB_GENERATOR] Error generating EPUB:', error);
+      throw new Error('Failed to generate EPUB. Please try again.');
+    }
+  }
+}
+
+export const epubGenerator = new EpubGenerator();
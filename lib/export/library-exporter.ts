@@ -0,0 +1,61 @@
+import { storyStorage } from "@/lib/storage/story-storage";
+import { ZipEntry, createZip } from "./zip-writer";
+
+function toFileName(title: string, id: string): string {
+  const base = title.replace(/[^a-z0-9\s]/gi, '').replace(/\s+/g, '_').toLowerCase() || 'story';
+  return `${base}_${id.slice(-8)}.json`;
+}
+
+/**
+ * Bundles saved stories into one ZIP backup: a JSON file per story with its images
+ * inlined as data URLs, plus a manifest listing what was exported.
+ */
+export class LibraryExporter {
+  async exportStories(storyIds: string[]): Promise<{ blob: Blob; exported: number }> {
+    const entries: ZipEntry[] = [];
+    const manifest: { id: string; title: string; file: string; createdAt: string }[] = [];
+
+    for (const storyId of storyIds) {
+      const story = await storyStorage.loadStory(storyId);
+      if (!story) continue;
+
+      const file = `stories/${toFileName(story.title, story.id)}`;
+      entries.push({ path: file, data: JSON.stringify(story, null, 2) });
+      manifest.push({ id: story.id, title: story.title, file, createdAt: new Date(story.createdAt).toISOString() });
+    }
+
+    entries.unshift({
+      path: 'manifest.json',
+      data: JSON.stringify({ exportedAt: new Date().toISOString(), stories: manifest }, null, 2),
+    });
+
+    return { blob: createZip(entries), exported: manifest.length };
+  }
+
+  async downloadStories(storyIds: string[]): Promise<number> {
+    try {
+      console.log(`[LIBRARY_EXPORTER] Exporting ${storyIds.length} stories`);
+      const { blob, exported } = await this.exportStories(storyIds);
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      const filename = `memorytales_library_${new Date().toISOString().slice(0, 10)}.zip`;
+      link.download = filename;
+
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+
+      URL.revokeObjectURL(url);
+
+      console.log('[LIBRARY_EXPORTER] Export completed:', filename);
+      return exported;
+    } catch (error) {
+      console.error('[LIBRARY_EXPORTER] Error exporting stories:', error);
+      throw new Error('Failed to export stories. Please try again.');
+    }
+  }
+}
+
+export const libraryExporter = new LibraryExporter();
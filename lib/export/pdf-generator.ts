@@ -1,64 +1,130 @@
-import { GeneratedStory } from "@/lib/types";
+import { GeneratedStory, Panel } from "@/lib/types";
+import { resolvePanelTextLayout, usesTextOverlay } from "@/lib/layout/text-overlay";
+import {
+  PDFExportOptions,
+  PrintProfile,
+  getDefaultExportOptions,
+  getPrintProfile,
+} from "./print-profiles";
 import html2canvas from 'html2canvas';
 import jsPDF from 'jspdf';
 
+// A rectangle on the PDF page, in mm
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface RenderContext {
+  pdf: jsPDF;
+  story: GeneratedStory;
+  profile: PrintProfile;
+  options: PDFExportOptions;
+}
+
+type BookPageContent =
+  | { kind: 'cover' }
+  | { kind: 'title' }
+  | { kind: 'panel'; panel: Panel; pageNumber: number };
+
+type RGB = [number, number, number];
+
+const OVERLAY_FONT_SIZE = 11;
+const OVERLAY_LINE_HEIGHT = 5;
+const OVERLAY_PADDING = 3;
+const PRINT_DPI = 300;
+const PX_PER_MM = PRINT_DPI / 25.4;
+const PT_TO_MM = 25.4 / 72;
+// Saturation above this is outside what CMYK presses reproduce reliably
+const PRINT_SAFE_SATURATION = 0.8;
+// Helvetica only has Latin-1 glyphs and a few typographic marks. Other scripts (Hindi,
+// Chinese, Japanese, Arabic...) are drawn by the browser into an image instead.
+const PDF_FONT_TEXT = /^[\u0000-\u00ff\u2013\u2014\u2018\u2019\u201c\u201d\u2022\u2026]*$/;
+const RTL_TEXT = /[\u0590-\u08ff]/;
+
+function inset(box: Box, margin: number): Box {
+  return {
+    x: box.x + margin,
+    y: box.y + margin,
+    width: box.width - margin * 2,
+    height: box.height - margin * 2,
+  };
+}
+
+function needsTextImage(text: string): boolean {
+  return !PDF_FONT_TEXT.test(text);
+}
+
+function rgbToCmyk([r, g, b]: RGB): [number, number, number, number] {
+  const k = 1 - Math.max(r, g, b) / 255;
+  if (k >= 1) return [0, 0, 0, 1]; // pure K black rather than a four-colour rich black
+  return [
+    (1 - r / 255 - k) / (1 - k),
+    (1 - g / 255 - k) / (1 - k),
+    (1 - b / 255 - k) / (1 - k),
+    k,
+  ];
+}
+
 export class PDFGenerator {
-  async generatePDF(story: GeneratedStory): Promise<Blob> {
-    console.log('[PDF_GENERATOR] Starting PDF generation for:', story.title);
-    
+  async generatePDF(story: GeneratedStory, exportOptions: Partial<PDFExportOptions> = {}): Promise<Blob> {
+    const options = { ...getDefaultExportOptions(exportOptions.profileId), ...exportOptions };
+    const profile = getPrintProfile(options.profileId);
+    console.log(`[PDF_GENERATOR] Starting PDF generation for: ${story.title} (${profile.id}${options.spreads ? ', spreads' : ''})`);
+
+    const bleed = profile.print ? options.bleed : 0;
+    const pagesPerSheet = options.spreads ? 2 : 1;
+    const sheetWidth = profile.width * pagesPerSheet + bleed * 2;
+    const sheetHeight = profile.height + bleed * 2;
+
     const pdf = new jsPDF({
-      orientation: 'portrait',
+      orientation: sheetWidth > sheetHeight ? 'landscape' : 'portrait',
       unit: 'mm',
-      format: 'a4',
+      format: [sheetWidth, sheetHeight],
       putOnlyUsedFonts: true,
       floatPrecision: 16
     });
+    const context: RenderContext = { pdf, story, profile, options };
 
     try {
-      // Add cover page if available
-      if (story.coverImage) {
-        console.log('[PDF_GENERATOR] Adding cover image');
-        try {
-          await this.addImageToPDF(pdf, story.coverImage, story.title + ' - Cover');
-        } catch (error) {
-          console.warn('[PDF_GENERATOR] Failed to add cover image:', error);
-          this.addTitlePage(pdf, story);
-        }
-      } else {
-        this.addTitlePage(pdf, story);
+      // Book pages in reading order - each panel becomes a full page
+      const bookPages: BookPageContent[] = [{ kind: 'cover' }];
+      if (options.includeTitlePage) {
+        bookPages.push({ kind: 'title' });
       }
+      let pageNumber = 0;
+      story.pages.forEach(page => {
+        page.panels.forEach(panel => {
+          bookPages.push({ kind: 'panel', panel, pageNumber: ++pageNumber });
+        });
+      });
 
-      // Generate pages - each panel becomes a full page
-      let pageCount = 0;
-      for (let pageIndex = 0; pageIndex < story.pages.length; pageIndex++) {
-        const page = story.pages[pageIndex];
-        console.log(`[PDF_GENERATOR] Processing page ${pageIndex + 1}/${story.pages.length}`);
-
-        for (let panelIndex = 0; panelIndex < page.panels.length; panelIndex++) {
-          const panel = page.panels[panelIndex];
-          pageCount++;
-          
-          console.log(`[PDF_GENERATOR] Adding panel ${panelIndex + 1} from page ${pageIndex + 1} as PDF page ${pageCount}`);
-          
-          // Add new page
-          pdf.addPage();
-          
-          if (panel.imageUrl) {
-            try {
-              await this.addImageToPDF(pdf, panel.imageUrl, `Page ${pageCount} - ${panel.description}`);
-            } catch (imageError) {
-              console.warn(`[PDF_GENERATOR] Failed to add panel image, using text fallback`);
-              this.addTextOnlyPanel(pdf, panel, pageCount);
-            }
-          } else {
-            // No image available, add text-only content
-            this.addTextOnlyPanel(pdf, panel, pageCount);
-          }
+      // Spreads pair pages the same way the book viewer does
+      for (let index = 0; index < bookPages.length; index += pagesPerSheet) {
+        if (index > 0) pdf.addPage();
+
+        for (let slot = 0; slot < pagesPerSheet; slot++) {
+          const page = bookPages[index + slot];
+          if (!page) continue;
+
+          const trim: Box = { x: bleed + slot * profile.width, y: bleed, width: profile.width, height: profile.height };
+          // Art bleeds off the outer edges only; the middle of a spread is the fold
+          const art: Box = {
+            x: trim.x - (slot === 0 ? bleed : 0),
+            y: 0,
+            width: trim.width + (pagesPerSheet === 1 ? bleed * 2 : bleed),
+            height: sheetHeight,
+          };
+
+          console.log(`[PDF_GENERATOR] Adding ${page.kind} page ${index + slot + 1}/${bookPages.length}`);
+          await this.renderPage(context, page, trim, art);
         }
       }
-      
+
       const pdfBlob = pdf.output('blob');
-      console.log(`[PDF_GENERATOR] PDF generation completed successfully with ${pageCount + 1} pages`);
+      console.log(`[PDF_GENERATOR] PDF generation completed successfully with ${bookPages.length} book pages`);
       return pdfBlob;
 
     } catch (error) {
@@ -67,117 +133,403 @@ export class PDFGenerator {
     }
   }
 
-  private addTitlePage(pdf: jsPDF, story: GeneratedStory): void {
-    pdf.setFontSize(24);
+  private async renderPage(context: RenderContext, page: BookPageContent, trim: Box, art: Box): Promise<void> {
+    const { story, profile, options } = context;
+
+    if (page.kind === 'cover') {
+      if (story.coverImage) {
+        try {
+          await this.addImageToPDF(context, story.coverImage, story.title + ' - Cover', trim, art);
+          return;
+        } catch (error) {
+          console.warn('[PDF_GENERATOR] Failed to add cover image:', error);
+        }
+      }
+      this.addTitlePage(context, trim, false);
+      return;
+    }
+
+    if (page.kind === 'title') {
+      this.addTitlePage(context, trim, true);
+      return;
+    }
+
+    const { panel, pageNumber } = page;
+    if (panel.imageUrl) {
+      try {
+        const placed = await this.addImageToPDF(context, panel.imageUrl, `Page ${pageNumber} - ${panel.description}`, trim, art);
+        if (usesTextOverlay(story.config)) {
+          // Print art runs to the edge, so keep the text inside the safe area
+          this.addTextOverlay(context, panel, profile.print ? inset(trim, options.safeMargin) : placed);
+        }
+      } catch (imageError) {
+        console.warn(`[PDF_GENERATOR] Failed to add panel image, using text fallback`);
+        this.addTextOnlyPanel(context, panel, pageNumber, trim);
+      }
+    } else {
+      // No image available, add text-only content
+      this.addTextOnlyPanel(context, panel, pageNumber, trim);
+    }
+
+    if (options.pageNumbers) {
+      this.addPageNumber(context, pageNumber, trim);
+    }
+  }
+
+  private setColor(context: RenderContext, target: 'fill' | 'draw' | 'text', rgb: RGB): void {
+    const { pdf, options } = context;
+    const apply = {
+      fill: pdf.setFillColor.bind(pdf),
+      draw: pdf.setDrawColor.bind(pdf),
+      text: pdf.setTextColor.bind(pdf),
+    }[target];
+
+    if (options.colorMode === 'print-safe') {
+      const [c, m, y, k] = rgbToCmyk(rgb);
+      apply(c, m, y, k);
+    } else {
+      apply(rgb[0], rgb[1], rgb[2]);
+    }
+  }
+
+  // Sized and styled like the PDF's current font, at print resolution
+  private getCanvasFont(context: RenderContext): string {
+    const { pdf } = context;
+    const { fontStyle } = pdf.getFont();
+    const italic = fontStyle.includes('italic') ? 'italic ' : '';
+    const bold = fontStyle.includes('bold') ? 'bold ' : '';
+    return `${italic}${bold}${pdf.getFontSize() * PT_TO_MM * PX_PER_MM}px sans-serif`;
+  }
+
+  // splitTextToSize, measured with the browser's fonts when Helvetica can't draw the text
+  private wrapText(context: RenderContext, text: string, width: number): string[] {
+    if (!needsTextImage(text)) {
+      return context.pdf.splitTextToSize(text, width);
+    }
+
+    const ctx = document.createElement('canvas').getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    ctx.font = this.getCanvasFont(context);
+    const maxWidth = width * PX_PER_MM;
+
+    // Scripts written without spaces (Chinese, Japanese) can break between any two characters
+    const tokens = text
+      .split(/(\s+)/)
+      .flatMap(token => (ctx.measureText(token).width > maxWidth ? Array.from(token) : [token]));
+    const lines: string[] = [];
+    let current = '';
+    tokens.forEach(token => {
+      if (current.trim() && ctx.measureText(current + token).width > maxWidth) {
+        lines.push(current.trim());
+        current = token.trimStart();
+      } else {
+        current += token;
+      }
+    });
+    if (current.trim()) lines.push(current.trim());
+    return lines;
+  }
+
+  // pdf.text, or a transparent image of the line when Helvetica can't draw it
+  private drawLine(context: RenderContext, line: string, x: number, baseline: number, align: 'left' | 'center' | 'right' = 'left'): void {
+    const { pdf } = context;
+    if (!needsTextImage(line)) {
+      pdf.text(line, x, baseline, { align });
+      return;
+    }
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    const font = this.getCanvasFont(context);
+    const fontSize = pdf.getFontSize() * PT_TO_MM * PX_PER_MM;
+    ctx.font = font;
+    canvas.width = Math.max(1, Math.ceil(ctx.measureText(line).width));
+    // Room above and below for marks like Hindi vowel signs and descenders
+    canvas.height = Math.ceil(fontSize * 1.6);
+
+    ctx.font = font; // Resizing the canvas resets it
+    ctx.direction = RTL_TEXT.test(line) ? 'rtl' : 'ltr';
+    ctx.textAlign = 'left';
+    ctx.fillStyle = '#000000';
+    ctx.fillText(line, 0, fontSize * 1.2);
+
+    const width = canvas.width / PX_PER_MM;
+    const left = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x;
+    pdf.addImage(
+      canvas.toDataURL('image/png'),
+      'PNG',
+      left,
+      baseline - (fontSize * 1.2) / PX_PER_MM,
+      width,
+      canvas.height / PX_PER_MM
+    );
+  }
+
+  private addTitlePage(context: RenderContext, box: Box, withCredits: boolean): void {
+    const { pdf, story, options } = context;
+    const scale = box.width / 210;
+    const centerX = box.x + box.width / 2;
+    const textWidth = box.width - Math.max(options.safeMargin, 20 * scale) * 2;
+    this.setColor(context, 'text', [0, 0, 0]);
+
+    pdf.setFontSize(Math.max(16, 24 * scale));
     pdf.setFont('helvetica', 'bold');
-    const titleLines = pdf.splitTextToSize(story.title, 170);
-    let yPosition = 60;
+    const titleLines = this.wrapText(context, story.title, textWidth);
+    let yPosition = box.y + box.height * 0.2;
     titleLines.forEach((line: string) => {
-      pdf.text(line, 105, yPosition, { align: 'center' });
-      yPosition += 12;
+      this.drawLine(context, line, centerX, yPosition, 'center');
+      yPosition += 12 * Math.max(scale, 0.75);
     });
 
-    pdf.setFontSize(14);
+    pdf.setFontSize(Math.max(10, 14 * scale));
     pdf.setFont('helvetica', 'normal');
-    pdf.text(`Created on ${story.createdAt.toLocaleDateString()}`, 105, yPosition + 20, { align: 'center' });
-    
+    const lineGap = 15 * Math.max(scale, 0.7);
     const pageCount = story.pages.reduce((acc, page) => acc + page.panels.length, 0);
-    pdf.text(`${pageCount} Pages • Ages ${story.config.targetAge || '6-8'}`, 105, yPosition + 35, { align: 'center' });
-    pdf.text(`${story.config.theme} • ${story.config.style}`, 105, yPosition + 50, { align: 'center' });
+    const lines = [
+      `Created on ${new Date(story.createdAt).toLocaleDateString()}`,
+      `${pageCount} Pages • Ages ${story.config.targetAge || '6-8'}`,
+      `${story.config.theme} • ${story.config.style}`,
+    ];
+
+    if (withCredits) {
+      if (story.characters.length > 0) {
+        lines.push(`Starring ${story.characters.map(character => character.name).join(', ')}`);
+      }
+      lines.push('Written and illustrated with MemoryTales.ai');
+    }
+
+    yPosition += lineGap;
+    lines.forEach(line => {
+      this.wrapText(context, line, textWidth).forEach((wrapped: string) => {
+        this.drawLine(context, wrapped, centerX, yPosition, 'center');
+        yPosition += lineGap * 0.6;
+      });
+      yPosition += lineGap * 0.4;
+    });
   }
 
-  private async addImageToPDF(pdf: jsPDF, imageUrl: string, altText: string): Promise<void> {
+  private loadImage(imageUrl: string, altText: string): Promise<HTMLImageElement> {
     return new Promise((resolve, reject) => {
       const img = new Image();
       img.crossOrigin = 'anonymous';
-      
-      img.onload = () => {
-        try {
-          // Calculate dimensions to fit the page while maintaining aspect ratio
-          const pageWidth = 210; // A4 width in mm
-          const pageHeight = 297; // A4 height in mm
-          const margin = 10;
-          const maxWidth = pageWidth - (margin * 2);
-          const maxHeight = pageHeight - (margin * 2);
-          
-          const imgAspectRatio = img.width / img.height;
-          const pageAspectRatio = maxWidth / maxHeight;
-          
-          let finalWidth, finalHeight;
-          
-          if (imgAspectRatio > pageAspectRatio) {
-            // Image is wider, fit to width
-            finalWidth = maxWidth;
-            finalHeight = maxWidth / imgAspectRatio;
-          } else {
-            // Image is taller, fit to height
-            finalHeight = maxHeight;
-            finalWidth = maxHeight * imgAspectRatio;
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error(`Failed to load image: ${altText}`));
+      img.src = imageUrl;
+    });
+  }
+
+  /**
+   * Redraws an image through a canvas, optionally cropping it to an aspect ratio
+   * (centred horizontally, top-aligned like the viewer) and, for print-safe colours,
+   * pulling oversaturated colours towards grey. The result is still an RGB image.
+   */
+  private prepareImage(img: HTMLImageElement, aspect: number | null, colorMode: PDFExportOptions['colorMode'], maxWidthPx: number): string {
+    let sx = 0;
+    let sw = img.naturalWidth;
+    let sh = img.naturalHeight;
+    if (aspect) {
+      if (sw / sh > aspect) {
+        const width = sh * aspect;
+        sx = (sw - width) / 2;
+        sw = width;
+      } else {
+        sh = sw / aspect;
+      }
+    }
+
+    const scale = Math.min(1, maxWidthPx / sw);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(sw * scale));
+    canvas.height = Math.max(1, Math.round(sh * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    ctx.drawImage(img, sx, 0, sw, sh, 0, 0, canvas.width, canvas.height);
+
+    if (colorMode === 'print-safe') {
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const pixels = imageData.data;
+      for (let i = 0; i < pixels.length; i += 4) {
+        const max = Math.max(pixels[i], pixels[i + 1], pixels[i + 2]);
+        const min = Math.min(pixels[i], pixels[i + 1], pixels[i + 2]);
+        const saturation = max === 0 ? 0 : (max - min) / max;
+        if (saturation > PRINT_SAFE_SATURATION) {
+          const factor = PRINT_SAFE_SATURATION / saturation;
+          const gray = 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+          for (let c = 0; c < 3; c++) {
+            pixels[i + c] = gray + (pixels[i + c] - gray) * factor;
           }
-          
-          // Center the image
-          const xPos = (pageWidth - finalWidth) / 2;
-          const yPos = (pageHeight - finalHeight) / 2;
-          
-          pdf.addImage(img, 'JPEG', xPos, yPos, finalWidth, finalHeight);
-          resolve();
-        } catch (error) {
-          reject(error);
         }
-      };
-      
-      img.onerror = () => {
-        reject(new Error(`Failed to load image: ${altText}`));
-      };
-      
-      img.src = imageUrl;
+      }
+      ctx.putImageData(imageData, 0, 0);
+    }
+
+    return canvas.toDataURL('image/jpeg', 0.92);
+  }
+
+  // Returns where the image was placed
+  private async addImageToPDF(context: RenderContext, imageUrl: string, altText: string, trim: Box, art: Box): Promise<Box> {
+    const { pdf, profile, options } = context;
+    const img = await this.loadImage(imageUrl, altText);
+
+    // Print: fill the whole bleed area edge to edge
+    if (profile.print) {
+      const data = this.prepareImage(img, art.width / art.height, options.colorMode, (art.width / 25.4) * PRINT_DPI);
+      pdf.addImage(data, 'JPEG', art.x, art.y, art.width, art.height);
+      return art;
+    }
+
+    // Screen: fit the page inside the margins while maintaining aspect ratio
+    const area = inset(trim, options.safeMargin);
+    const imgAspectRatio = img.width / img.height;
+    const pageAspectRatio = area.width / area.height;
+
+    let finalWidth, finalHeight;
+
+    if (imgAspectRatio > pageAspectRatio) {
+      // Image is wider, fit to width
+      finalWidth = area.width;
+      finalHeight = area.width / imgAspectRatio;
+    } else {
+      // Image is taller, fit to height
+      finalHeight = area.height;
+      finalWidth = area.height * imgAspectRatio;
+    }
+
+    // Center the image
+    const xPos = trim.x + (trim.width - finalWidth) / 2;
+    const yPos = trim.y + (trim.height - finalHeight) / 2;
+
+    const source = options.colorMode === 'print-safe'
+      ? this.prepareImage(img, null, options.colorMode, (finalWidth / 25.4) * PRINT_DPI)
+      : img;
+    pdf.addImage(source, 'JPEG', xPos, yPos, finalWidth, finalHeight);
+    return { x: xPos, y: yPos, width: finalWidth, height: finalHeight };
+  }
+
+  private addPageNumber(context: RenderContext, pageNumber: number, trim: Box): void {
+    const { pdf, options } = context;
+    const centerX = trim.x + trim.width / 2;
+    const baseline = trim.y + trim.height - Math.max(options.safeMargin, 4);
+
+    // Small badge so the number stays readable on top of full-bleed art
+    this.setColor(context, 'fill', [255, 255, 255]);
+    pdf.roundedRect(centerX - 5, baseline - 4.5, 10, 6.5, 2, 2, 'F');
+    pdf.setFontSize(9);
+    pdf.setFont('helvetica', 'normal');
+    this.setColor(context, 'text', [0, 0, 0]);
+    pdf.text(String(pageNumber), centerX, baseline, { align: 'center' });
+  }
+
+  // Draws the same bubbles and caption as the viewer, positioned relative to the given box
+  private addTextOverlay(context: RenderContext, panel: Panel, image: Box): void {
+    const { pdf } = context;
+    const layout = resolvePanelTextLayout(panel);
+    pdf.setFontSize(OVERLAY_FONT_SIZE);
+    pdf.setLineWidth(0.5);
+    this.setColor(context, 'draw', [0, 0, 0]);
+    this.setColor(context, 'text', [0, 0, 0]);
+
+    const drawBox = (
+      text: string,
+      placement: { x: number; y: number; width: number },
+      kind: 'dialogue' | 'narration',
+      index: number = 0
+    ) => {
+      const width = (image.width * placement.width) / 100;
+      pdf.setFont('helvetica', kind === 'dialogue' ? 'bold' : 'italic');
+      const lines = this.wrapText(context, text, width - OVERLAY_PADDING * 2);
+      const height = lines.length * OVERLAY_LINE_HEIGHT + OVERLAY_PADDING * 2;
+      const x = image.x + (image.width * placement.x) / 100;
+      // Keep the box on the image even if the text wraps further than in the viewer
+      const y = Math.min(
+        image.y + (image.height * placement.y) / 100,
+        image.y + image.height - height
+      );
+
+      if (kind === 'dialogue') {
+        this.setColor(context, 'fill', [255, 255, 255]);
+        pdf.roundedRect(x, y, width, height, 4, 4, 'FD');
+        // Bubble tail, on the same side as in the viewer
+        const tailX = index % 2 === 0 ? x + 8 : x + width - 8;
+        pdf.triangle(tailX - 3, y + height, tailX + 3, y + height, tailX, y + height + 4, 'FD');
+        pdf.rect(tailX - 2.5, y + height - 0.8, 5, 1, 'F');
+      } else {
+        this.setColor(context, 'fill', [254, 249, 195]);
+        pdf.rect(x, y, width, height, 'FD');
+      }
+
+      // Right-to-left scripts start at the right edge of the box
+      const rtl = RTL_TEXT.test(text);
+      lines.forEach((line, lineIndex) => {
+        this.drawLine(
+          context,
+          line,
+          rtl ? x + width - OVERLAY_PADDING : x + OVERLAY_PADDING,
+          y + OVERLAY_PADDING + (lineIndex + 0.8) * OVERLAY_LINE_HEIGHT,
+          rtl ? 'right' : 'left'
+        );
+      });
+    };
+
+    (panel.dialogue || []).forEach((line, index) => {
+      drawBox(line, layout.dialogue[index], 'dialogue', index);
     });
+    if (panel.narration && layout.narration) {
+      drawBox(panel.narration, layout.narration, 'narration');
+    }
   }
 
-  private addTextOnlyPanel(pdf: jsPDF, panel: any, pageNumber: number): void {
+  private addTextOnlyPanel(context: RenderContext, panel: Panel, pageNumber: number, box: Box): void {
+    const { pdf, options } = context;
+    const margin = Math.max(options.safeMargin, 20 * (box.width / 210));
+    const left = box.x + margin;
+    const textWidth = box.width - margin * 2;
+    this.setColor(context, 'text', [0, 0, 0]);
+
     pdf.setFontSize(16);
     pdf.setFont('helvetica', 'bold');
-    pdf.text(`Page ${pageNumber}`, 105, 30, { align: 'center' });
-    
-    let yPosition = 60;
-    
+    pdf.text(`Page ${pageNumber}`, box.x + box.width / 2, box.y + margin + 10, { align: 'center' });
+
+    let yPosition = box.y + margin + 40;
+
     // Panel description
     pdf.setFontSize(12);
     pdf.setFont('helvetica', 'bold');
-    pdf.text('Scene:', 20, yPosition);
-    
+    pdf.text('Scene:', left, yPosition);
+
     yPosition += 10;
     pdf.setFont('helvetica', 'normal');
-    const descLines = pdf.splitTextToSize(panel.description, 170);
+    const descLines = this.wrapText(context, panel.description, textWidth);
     descLines.forEach((line: string) => {
-      pdf.text(line, 20, yPosition);
+      this.drawLine(context, line, left, yPosition);
       yPosition += 7;
     });
-    
+
     // Narration
     if (panel.narration) {
       yPosition += 10;
       pdf.setFont('helvetica', 'italic');
-      pdf.text('Narration:', 20, yPosition);
+      pdf.text('Narration:', left, yPosition);
       yPosition += 8;
-      const narrLines = pdf.splitTextToSize(panel.narration, 170);
+      const narrLines = this.wrapText(context, panel.narration, textWidth);
       narrLines.forEach((line: string) => {
-        pdf.text(line, 20, yPosition);
+        this.drawLine(context, line, left, yPosition);
         yPosition += 7;
       });
     }
-    
+
     // Dialogue
     if (panel.dialogue && panel.dialogue.length > 0) {
       yPosition += 10;
       pdf.setFont('helvetica', 'bold');
-      pdf.text('Dialogue:', 20, yPosition);
+      pdf.text('Dialogue:', left, yPosition);
       yPosition += 8;
       pdf.setFont('helvetica', 'normal');
       panel.dialogue.forEach((line: string) => {
-        const dialogueLines = pdf.splitTextToSize(`"${line}"`, 170);
+        const dialogueLines = this.wrapText(context, `"${line}"`, textWidth);
         dialogueLines.forEach((dialogueLine: string) => {
-          pdf.text(dialogueLine, 25, yPosition);
+          this.drawLine(context, dialogueLine, left + 5, yPosition);
           yPosition += 7;
         });
         yPosition += 3;
@@ -186,26 +538,28 @@ export class PDFGenerator {
   }
 
 
-  async downloadPDF(story: GeneratedStory) {
+  async downloadPDF(story: GeneratedStory, exportOptions: Partial<PDFExportOptions> = {}) {
     try {
       console.log('[PDF_GENERATOR] Starting PDF download process');
-      const pdfBlob = await this.generatePDF(story);
-      
+      const pdfBlob = await this.generatePDF(story, exportOptions);
+      const profile = getPrintProfile(exportOptions.profileId || 'screen-a4');
+
       // Create download link
       const url = URL.createObjectURL(pdfBlob);
       const link = document.createElement('a');
       link.href = url;
-      const filename = `${story.title.replace(/[^a-z0-9\s]/gi, '').replace(/\s+/g, '_').toLowerCase()}_storybook.pdf`;
+      const baseName = story.title.replace(/[^a-z0-9\s]/gi, '').replace(/\s+/g, '_').toLowerCase();
+      const filename = profile.print ? `${baseName}_print_${profile.id}.pdf` : `${baseName}_storybook.pdf`;
       link.download = filename;
-      
+
       // Trigger download
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
-      
+
       // Cleanup
       URL.revokeObjectURL(url);
-      
+
       console.log('[PDF_GENERATOR] PDF download completed:', filename);
     } catch (error) {
       console.error('[PDF_GENERATOR] Error generating PDF:', error);
@@ -214,4 +568,4 @@ export class PDFGenerator {
   }
 }
 
-export const pdfGenerator = new PDFGenerator();
\ No newline at end of file
+export const pdfGenerator = new PDFGenerator();
@@ -0,0 +1,88 @@
+// Page sizes are trim sizes in mm; bleed is added around them for print profiles
+
+export type PrintProfileId = 'screen-a4' | 'square-8in' | 'letter' | 'a5';
+// print-safe stays RGB: text and shapes are given CMYK values, and pictures have their
+// most saturated colours toned down so a press's CMYK conversion changes them less
+export type ColorMode = 'rgb' | 'print-safe';
+
+export interface PrintProfile {
+  id: PrintProfileId;
+  label: string;
+  description: string;
+  width: number;
+  height: number;
+  // Print profiles fill the page edge to edge; the screen profile fits art inside margins
+  print: boolean;
+  defaultBleed: number;
+  defaultSafeMargin: number;
+}
+
+export const PRINT_PROFILES: PrintProfile[] = [
+  {
+    id: 'screen-a4',
+    label: 'A4 (screen)',
+    description: 'For reading on screen or home printing',
+    width: 210,
+    height: 297,
+    print: false,
+    defaultBleed: 0,
+    defaultSafeMargin: 10,
+  },
+  {
+    id: 'square-8in',
+    label: '8 × 8 in square',
+    description: 'Classic picture book size',
+    width: 203.2,
+    height: 203.2,
+    print: true,
+    defaultBleed: 3.175,
+    defaultSafeMargin: 6.35,
+  },
+  {
+    id: 'letter',
+    label: '8.5 × 11 in',
+    description: 'US letter, large format',
+    width: 215.9,
+    height: 279.4,
+    print: true,
+    defaultBleed: 3.175,
+    defaultSafeMargin: 6.35,
+  },
+  {
+    id: 'a5',
+    label: 'A5',
+    description: 'Small paperback',
+    width: 148,
+    height: 210,
+    print: true,
+    defaultBleed: 3,
+    defaultSafeMargin: 6,
+  },
+];
+
+export interface PDFExportOptions {
+  profileId: PrintProfileId;
+  bleed: number; // mm on each outer edge
+  safeMargin: number; // mm inside the trim kept clear of text
+  includeTitlePage: boolean;
+  pageNumbers: boolean;
+  spreads: boolean; // Two book pages per PDF page, paired like the book viewer
+  colorMode: ColorMode;
+}
+
+export function getPrintProfile(id: PrintProfileId): PrintProfile {
+  return PRINT_PROFILES.find(profile => profile.id === id) || PRINT_PROFILES[0];
+}
+
+export function getDefaultExportOptions(profileId: PrintProfileId = 'screen-a4'): PDFExportOptions {
+  const profile = getPrintProfile(profileId);
+  return {
+    profileId,
+    bleed: profile.defaultBleed,
+    safeMargin: profile.defaultSafeMargin,
+    includeTitlePage: profile.print,
+    pageNumbers: profile.print,
+    spreads: false,
+    colorMode: profile.print ? 'print-safe' : 'rgb',
+  };
+}
@@ -0,0 +1,86 @@
+import { GeneratedStory, StoryLanguage } from "@/lib/types";
+import { usesTextOverlay } from "@/lib/layout/text-overlay";
+
+export const STORY_LANGUAGES: { value: StoryLanguage; label: string; nativeLabel: string }[] = [
+  { value: 'en', label: 'English', nativeLabel: 'English' },
+  { value: 'es', label: 'Spanish', nativeLabel: 'Español' },
+  { value: 'fr', label: 'French', nativeLabel: 'Français' },
+  { value: 'de', label: 'German', nativeLabel: 'Deutsch' },
+  { value: 'it', label: 'Italian', nativeLabel: 'Italiano' },
+  { value: 'pt', label: 'Portuguese', nativeLabel: 'Português' },
+  { value: 'hi', label: 'Hindi', nativeLabel: 'हिन्दी' },
+  { value: 'zh', label: 'Chinese', nativeLabel: '中文' },
+  { value: 'ja', label: 'Japanese', nativeLabel: '日本語' },
+  { value: 'ar', label: 'Arabic', nativeLabel: 'العربية' },
+];
+
+// Languages written right to left; their text needs dir="rtl"
+const RTL_LANGUAGES: StoryLanguage[] = ['ar'];
+
+export function getTextDirection(language: StoryLanguage): 'ltr' | 'rtl' {
+  return RTL_LANGUAGES.includes(language) ? 'rtl' : 'ltr';
+}
+
+export function getLanguageName(language: StoryLanguage): string {
+  return STORY_LANGUAGES.find(lang => lang.value === language)?.label || language;
+}
+
+// The language the story was originally written in
+export function getStoryLanguage(story: GeneratedStory): StoryLanguage {
+  return story.config.language || 'en';
+}
+
+// Pictures with painted-in text would still show the original words, so only editable text is translated
+export function canTranslateStory(story: GeneratedStory): boolean {
+  return usesTextOverlay(story.config);
+}
+
+// FNV-1a over the title, dialogue and narration; changes whenever the original text is edited
+export function getTranslationSource(story: GeneratedStory): string {
+  const text = JSON.stringify([
+    story.title,
+    story.pages.map(page => page.panels.map(panel => [panel.dialogue || [], panel.narration || ''])),
+  ]);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function isTranslationStale(story: GeneratedStory, language: StoryLanguage): boolean {
+  const translation = story.translations?.[language];
+  return !!translation && translation.source !== getTranslationSource(story);
+}
+
+// Original language first, then any stored translations
+export function getAvailableLanguages(story: GeneratedStory): StoryLanguage[] {
+  if (!canTranslateStory(story)) return [getStoryLanguage(story)];
+  const translated = Object.keys(story.translations || {}) as StoryLanguage[];
+  return [getStoryLanguage(story), ...translated.filter(lang => lang !== getStoryLanguage(story))];
+}
+
+/**
+ * Returns a copy of the story with the title, dialogue and narration swapped for a stored
+ * translation. Illustrations are shared, so books with painted-in text are always shown as written.
+ */
+export function getStoryInLanguage(story: GeneratedStory, language: StoryLanguage): GeneratedStory {
+  const translation = story.translations?.[language];
+  if (language === getStoryLanguage(story) || !translation || !canTranslateStory(story)) return story;
+
+  return {
+    ...story,
+    title: translation.title,
+    config: { ...story.config, language },
+    pages: story.pages.map((page, pageIndex) => ({
+      ...page,
+      panels: page.panels.map((panel, panelIndex) => {
+        const translated = translation.panels[pageIndex]?.[panelIndex];
+        return translated
+          ? { ...panel, dialogue: translated.dialogue, narration: translated.narration }
+          : panel;
+      }),
+    })),
+  };
+}
@@ -0,0 +1,139 @@
+import { Character, GeneratedStory, StoryConfig } from "@/lib/types";
+import type { StoryScript } from "@/lib/ai-services/story-generator";
+import { parentalControlsService } from "@/lib/parental/parental-controls";
+import { FINAL_JOB_STATUSES, StoryJobSummary } from "./types";
+
+const ACTIVE_JOB_STORAGE_KEY = 'memorytales_active_job';
+
+export interface StoryJobDetails {
+  job: StoryJobSummary;
+  config: StoryConfig;
+  characters: Character[];
+  story?: GeneratedStory;
+}
+
+/**
+ * Browser-side client for the /api/stories/jobs endpoints. Remembers the active
+ * job id in localStorage so a reloaded tab can reattach to it.
+ */
+export class StoryJobClient {
+  private async request<T>(url: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(url, init);
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed with status ${response.status}`);
+    }
+    return data as T;
+  }
+
+  // With an approved script the job only illustrates it, using the script's characters
+  async createJob(
+    apiKey: string,
+    config: StoryConfig,
+    characters: Character[],
+    script?: StoryScript
+  ): Promise<StoryJobSummary> {
+    const { job } = await this.request<{ job: StoryJobSummary }>('/api/stories/jobs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...(script
+          ? {
+              apiKey,
+              config,
+              characters: script.characters,
+              storyData: script.storyData,
+              usage: script.usage,
+            }
+          : { apiKey, config, characters }),
+        parentalControls: parentalControlsService.getControls(),
+      }),
+    });
+
+    this.setActiveJobId(job.id);
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<StoryJobDetails> {
+    const details = await this.request<StoryJobDetails>(`/api/stories/jobs/${jobId}`);
+    if (details.story) {
+      // Dates do not survive JSON serialization
+      details.story.createdAt = new Date(details.story.createdAt);
+    }
+    return details;
+  }
+
+  async cancelJob(jobId: string): Promise<StoryJobSummary> {
+    const { job } = await this.request<{ job: StoryJobSummary }>(`/api/stories/jobs/${jobId}/cancel`, {
+      method: 'POST',
+    });
+    return job;
+  }
+
+  async resumeJob(jobId: string, apiKey: string): Promise<StoryJobSummary> {
+    const { job } = await this.request<{ job: StoryJobSummary }>(`/api/stories/jobs/${jobId}/resume`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ apiKey }),
+    });
+    return job;
+  }
+
+  // Streams progress over SSE; returns a function that closes the connection
+  subscribe(
+    jobId: string,
+    onUpdate: (summary: StoryJobSummary) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    const source = new EventSource(`/api/stories/jobs/${jobId}/events`);
+
+    source.addEventListener('progress', (event) => {
+      try {
+        const summary = JSON.parse((event as MessageEvent).data) as StoryJobSummary;
+        // Close before the server ends the stream so EventSource does not reconnect
+        if (FINAL_JOB_STATUSES.includes(summary.status)) {
+          source.close();
+        }
+        onUpdate(summary);
+      } catch (error) {
+        console.error('[STORY_JOB_CLIENT] Invalid progress event:', error);
+      }
+    });
+
+    source.onerror = () => {
+      // EventSource retries dropped connections on its own; only report when it gives up
+      if (source.readyState === EventSource.CLOSED) {
+        onError?.(new Error('Lost connection to story generation'));
+      }
+    };
+
+    return () => source.close();
+  }
+
+  getActiveJobId(): string | null {
+    try {
+      return localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+    } catch {
+      return null;
+    }
+  }
+
+  setActiveJobId(jobId: string): void {
+    try {
+      localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, jobId);
+    } catch (error) {
+      console.warn('[STORY_JOB_CLIENT] Could not remember active job:', error);
+    }
+  }
+
+  clearActiveJobId(): void {
+    try {
+      localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    } catch {
+      // Nothing to clear
+    }
+  }
+}
+
+export const storyJobClient = new StoryJobClient();
@@ -0,0 +1,201 @@
+import { EventEmitter } from "events";
+import { Character, ParentalControls, StoryConfig, StoryPage, UsageEntry } from "@/lib/types";
+import { generateId } from "@/lib/utils";
+import { storyGenerator, StoryGenerationCancelledError } from "@/lib/ai-services/story-generator";
+import { storyJobStore } from "./story-job-store";
+import { RESUMABLE_JOB_STATUSES, StoryJob, StoryJobSummary, summarizeJob } from "./types";
+
+// Panel illustration parallelism and rate limit; unset values use the queue defaults
+function getIllustrationQueueOptions(): { concurrency?: number; requestsPerMinute?: number } {
+  const concurrency = parseInt(process.env.PANEL_CONCURRENCY || "", 10);
+  const requestsPerMinute = parseInt(process.env.PANEL_REQUESTS_PER_MINUTE || "", 10);
+  return {
+    concurrency: concurrency > 0 ? concurrency : undefined,
+    requestsPerMinute: requestsPerMinute > 0 ? requestsPerMinute : undefined,
+  };
+}
+
+interface ActiveJob {
+  job: StoryJob;
+  controller: AbortController;
+}
+
+/**
+ * Runs StoryGenerator.generateCompleteStory on the server. Running jobs are kept in
+ * memory for live progress; every checkpoint and status change is persisted so a
+ * client can reattach, and an interrupted job can be resumed, by id.
+ */
+export class StoryJobRunner {
+  private active = new Map<string, ActiveJob>();
+  private events = new EventEmitter();
+
+  constructor() {
+    // One listener per connected SSE client
+    this.events.setMaxListeners(0);
+  }
+
+  // An approved script skips straight to illustration; usage is what writing it cost
+  async createJob(
+    apiKey: string,
+    config: StoryConfig,
+    characters: Character[],
+    storyData?: { title: string; pages: StoryPage[] },
+    usage?: UsageEntry[],
+    parentalControls?: ParentalControls | null
+  ): Promise<StoryJob> {
+    const now = new Date().toISOString();
+    const job: StoryJob = {
+      id: `job-${generateId()}${generateId()}`,
+      status: "queued",
+      createdAt: now,
+      updatedAt: now,
+      config,
+      characters,
+      progress: 0,
+      message: "Queued",
+      checkpoint: storyData ? { characters, storyData, usage } : { usage },
+      parentalControls: parentalControls || null,
+    };
+
+    await storyJobStore.save(job);
+    this.start(job, apiKey);
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<StoryJob | null> {
+    const active = this.active.get(jobId);
+    if (active) {
+      return active.job;
+    }
+
+    const job = await storyJobStore.load(jobId);
+    if (job && (job.status === "running" || job.status === "queued")) {
+      // Persisted as running but no longer in memory: the server restarted mid-run
+      job.status = "interrupted";
+      job.message = "Generation was interrupted. Resume to continue where it left off.";
+      job.updatedAt = new Date().toISOString();
+      await storyJobStore.save(job);
+    }
+    return job;
+  }
+
+  async cancelJob(jobId: string): Promise<StoryJob | null> {
+    const active = this.active.get(jobId);
+    if (active) {
+      active.controller.abort();
+      return active.job;
+    }
+
+    const job = await this.getJob(jobId);
+    if (job && job.status === "interrupted") {
+      await this.update(job, { status: "cancelled", message: "Generation cancelled" });
+    }
+    return job;
+  }
+
+  async resumeJob(jobId: string, apiKey: string): Promise<StoryJob | null> {
+    if (this.active.has(jobId)) {
+      return this.active.get(jobId)!.job;
+    }
+
+    const job = await this.getJob(jobId);
+    if (!job) {
+      return null;
+    }
+    if (!RESUMABLE_JOB_STATUSES.includes(job.status)) {
+      throw new Error(`Job ${jobId} cannot be resumed from status "${job.status}"`);
+    }
+
+    job.error = undefined;
+    this.start(job, apiKey);
+    return job;
+  }
+
+  subscribe(jobId: string, listener: (summary: StoryJobSummary) => void): () => void {
+    const eventName = `job:${jobId}`;
+    this.events.on(eventName, listener);
+    return () => {
+      this.events.off(eventName, listener);
+    };
+  }
+
+  private start(job: StoryJob, apiKey: string): void {
+    const controller = new AbortController();
+    this.active.set(job.id, { job, controller });
+
+    // Deliberately not awaited: the job keeps running after the HTTP request returns
+    this.run(job, apiKey, controller.signal).finally(() => {
+      this.active.delete(job.id);
+    });
+  }
+
+  private async run(job: StoryJob, apiKey: string, signal: AbortSignal): Promise<void> {
+    await this.update(job, { status: "running", message: "Starting story generation..." });
+
+    try {
+      const story = await storyGenerator.generateCompleteStory(
+        apiKey,
+        job.config,
+        job.characters,
+        (message, progress) => {
+          // Progress is streamed live; only checkpoints and status changes hit disk
+          job.message = message;
+          job.progress = progress;
+          job.updatedAt = new Date().toISOString();
+          this.emit(job);
+        },
+        {
+          signal,
+          checkpoint: job.checkpoint,
+          onCheckpoint: async (checkpoint) => {
+            job.checkpoint = checkpoint;
+            await this.update(job, {});
+          },
+          // localStorage does not exist on the server; the client saves the finished book
+          useLocalLibrary: false,
+          illustrationQueue: getIllustrationQueueOptions(),
+          parentalControls: job.parentalControls || null,
+        }
+      );
+
+      await this.update(job, {
+        status: "completed",
+        progress: 100,
+        message: "Story complete!",
+        result: story,
+      });
+    } catch (error: any) {
+      if (error instanceof StoryGenerationCancelledError) {
+        await this.update(job, { status: "cancelled", message: "Generation cancelled" });
+        return;
+      }
+
+      console.error(`[STORY_JOB_RUNNER] Job ${job.id} failed:`, error);
+      await this.update(job, {
+        status: "failed",
+        message: "Generation failed",
+        error: error.message || "Failed to generate story",
+      });
+    }
+  }
+
+  private async update(job: StoryJob, updates: Partial<StoryJob>): Promise<void> {
+    Object.assign(job, updates, { updatedAt: new Date().toISOString() });
+    try {
+      await storyJobStore.save(job);
+    } catch (error) {
+      console.error(`[STORY_JOB_RUNNER] Failed to persist job ${job.id}:`, error);
+    }
+    this.emit(job);
+  }
+
+  private emit(job: StoryJob): void {
+    this.events.emit(`job:${job.id}`, summarizeJob(job));
+  }
+}
+
+// Survive module reloads in development so running jobs are not orphaned
+const globalForJobs = globalThis as unknown as { storyJobRunner?: StoryJobRunner };
+
+export const storyJobRunner = globalForJobs.storyJobRunner ?? new StoryJobRunner();
+globalForJobs.storyJobRunner = storyJobRunner;
@@ -0,0 +1,64 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { StoryJobStore } from "./story-job-store";
+import { StoryJob } from "./types";
+
+const image = (n: number) => `data:image/png;base64,${Buffer.from(`image ${n}`).toString("base64")}`;
+
+function createJob(progress: number): StoryJob {
+  return {
+    id: "job-test",
+    status: "running",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    config: {
+      prompt: "A test story",
+      theme: "funny",
+      style: "comic",
+      characters: [],
+      setting: "",
+      characterCount: 1,
+    },
+    characters: [{ id: "char-1", name: "Ember", generatedDesignImage: image(0) }],
+    progress,
+    message: `Step ${progress}`,
+    checkpoint: { coverImage: image(progress) },
+  };
+}
+
+describe("StoryJobStore", () => {
+  let directory: string;
+  let store: StoryJobStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "story-jobs-"));
+    store = new StoryJobStore(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("keeps the job readable when saves overlap", async () => {
+    await Promise.all(Array.from({ length: 20 }, (_, i) => store.save(createJob(i))));
+
+    const loaded = await store.load("job-test");
+    expect(loaded?.progress).toBe(19);
+    expect(loaded?.checkpoint.coverImage).toBe(image(19));
+    expect(loaded?.characters[0].generatedDesignImage).toBe(image(0));
+    expect((await fs.readdir(directory)).filter((file) => file.endsWith(".tmp"))).toEqual([]);
+  });
+
+  it("stores images outside the job file", async () => {
+    await store.save(createJob(1));
+
+    const raw = await fs.readFile(path.join(directory, "job-test.json"), "utf8");
+    expect(raw).not.toContain("base64,");
+
+    await store.delete("job-test");
+    expect(await store.load("job-test")).toBeNull();
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+});
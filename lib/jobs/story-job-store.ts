@@ -0,0 +1,133 @@
+import { promises as fs } from "fs";
+import { createHash, randomBytes } from "crypto";
+import path from "path";
+import { StoryJob } from "./types";
+
+const JOBS_DIR = process.env.STORY_JOBS_DIR || path.join(process.cwd(), ".data", "story-jobs");
+
+// Data URLs inside a saved job are replaced by these references to files next to it
+const IMAGE_REF_PREFIX = "job-image:";
+
+function isDataUrl(value: string): boolean {
+  return value.startsWith("data:") && value.includes(";base64,");
+}
+
+// Deep-copies a value, passing every string through `replace` (undefined drops it)
+function mapStrings(value: any, replace: (text: string) => string | undefined): any {
+  if (typeof value === "string") return replace(value);
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, replace));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [key, mapStrings(child, replace)])
+    );
+  }
+  return value;
+}
+
+/**
+ * File-system persistence for server-side story jobs. Each job lives in its own
+ * JSON file so per-step results survive a server restart. Images are written once
+ * to a folder beside it, so checkpoints only rewrite the small JSON file.
+ */
+export class StoryJobStore {
+  // Saves of one job run one after another; panels finishing together all checkpoint
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(private readonly directory: string = JOBS_DIR) {}
+
+  private jobPath(jobId: string): string {
+    // Job ids are generated server-side, but never let one escape the jobs directory
+    if (!/^[a-z0-9-]+$/i.test(jobId)) {
+      throw new Error(`Invalid job id: ${jobId}`);
+    }
+    return path.join(this.directory, `${jobId}.json`);
+  }
+
+  private imageDir(jobId: string): string {
+    return path.join(this.directory, `${jobId}.images`);
+  }
+
+  save(job: StoryJob): Promise<void> {
+    const previous = this.writes.get(job.id) || Promise.resolve();
+    const write = previous.catch(() => undefined).then(() => this.write(job));
+    this.writes.set(job.id, write);
+    write
+      .finally(() => {
+        if (this.writes.get(job.id) === write) this.writes.delete(job.id);
+      })
+      .catch(() => undefined);
+    return write;
+  }
+
+  private async write(job: StoryJob): Promise<void> {
+    const target = this.jobPath(job.id);
+    const imageDir = this.imageDir(job.id);
+    await fs.mkdir(imageDir, { recursive: true });
+
+    const images = new Map<string, string>();
+    const record = mapStrings(job, (text) => {
+      if (!isDataUrl(text)) return text;
+      const hash = createHash("sha256").update(text).digest("hex");
+      images.set(hash, text);
+      return `${IMAGE_REF_PREFIX}${hash}`;
+    });
+
+    // Images are named by their content, so ones already on disk are skipped
+    const existing = new Set(await fs.readdir(imageDir));
+    for (const [hash, dataUrl] of Array.from(images)) {
+      if (!existing.has(hash)) {
+        await this.writeAtomically(path.join(imageDir, hash), dataUrl);
+      }
+    }
+
+    await this.writeAtomically(target, JSON.stringify(record));
+  }
+
+  // Write to a uniquely named temp file first so a crash mid-write never corrupts the file
+  private async writeAtomically(target: string, content: string): Promise<void> {
+    const temp = `${target}.${process.pid}-${randomBytes(4).toString("hex")}.tmp`;
+    await fs.writeFile(temp, content, "utf8");
+    await fs.rename(temp, target);
+  }
+
+  async load(jobId: string): Promise<StoryJob | null> {
+    try {
+      const raw = await fs.readFile(this.jobPath(jobId), "utf8");
+      const record = JSON.parse(raw) as StoryJob;
+
+      const hashes = new Set<string>();
+      mapStrings(record, (text) => {
+        if (text.startsWith(IMAGE_REF_PREFIX)) hashes.add(text.slice(IMAGE_REF_PREFIX.length));
+        return text;
+      });
+      const images = new Map<string, string>();
+      for (const hash of Array.from(hashes)) {
+        images.set(hash, await fs.readFile(path.join(this.imageDir(jobId), hash), "utf8"));
+      }
+
+      return mapStrings(record, (text) =>
+        text.startsWith(IMAGE_REF_PREFIX) ? images.get(text.slice(IMAGE_REF_PREFIX.length)) : text
+      );
+    } catch (error: any) {
+      if (error?.code === "ENOENT" || error?.message?.startsWith("Invalid job id")) {
+        return null;
+      }
+      console.error(`[STORY_JOB_STORE] Error loading job ${jobId}:`, error);
+      throw error;
+    }
+  }
+
+  async delete(jobId: string): Promise<void> {
+    await this.writes.get(jobId)?.catch(() => undefined);
+    try {
+      await fs.unlink(this.jobPath(jobId));
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        throw error;
+      }
+    }
+    await fs.rm(this.imageDir(jobId), { recursive: true, force: true });
+  }
+}
+
+export const storyJobStore = new StoryJobStore();
@@ -0,0 +1,52 @@
+import { Character, GeneratedStory, ParentalControls, StoryConfig } from "@/lib/types";
+import type { StoryGenerationCheckpoint } from "@/lib/ai-services/story-generator";
+
+export type StoryJobStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  // The server stopped while the job was running; it can be resumed from its checkpoint
+  | 'interrupted';
+
+export interface StoryJob {
+  id: string;
+  status: StoryJobStatus;
+  createdAt: string;
+  updatedAt: string;
+  config: StoryConfig;
+  characters: Character[];
+  progress: number;
+  message: string;
+  checkpoint: StoryGenerationCheckpoint;
+  // Limits sent by the requesting browser's parent profile; the client can leave them out, so they are not a security boundary
+  parentalControls?: ParentalControls | null;
+  result?: GeneratedStory;
+  error?: string;
+}
+
+// Lightweight view of a job sent over SSE and returned by status polling
+export interface StoryJobSummary {
+  id: string;
+  status: StoryJobStatus;
+  progress: number;
+  message: string;
+  error?: string;
+  updatedAt: string;
+}
+
+export const FINAL_JOB_STATUSES: StoryJobStatus[] = ['completed', 'failed', 'cancelled', 'interrupted'];
+
+export const RESUMABLE_JOB_STATUSES: StoryJobStatus[] = ['failed', 'cancelled', 'interrupted'];
+
+export function summarizeJob(job: StoryJob): StoryJobSummary {
+  return {
+    id: job.id,
+    status: job.status,
+    progress: job.progress,
+    message: job.message,
+    error: job.error,
+    updatedAt: job.updatedAt,
+  };
+}
@@ -0,0 +1,46 @@
+import { Panel, PanelTextLayout, StoryConfig, TextBoxPlacement } from "@/lib/types";
+
+export interface ResolvedTextLayout {
+  narration?: TextBoxPlacement;
+  dialogue: TextBoxPlacement[];
+}
+
+// Text-free illustrations leave room for bubbles at the top and a caption at the bottom
+const NARRATION_PLACEMENT: TextBoxPlacement = { x: 4, y: 80, width: 92 };
+const DIALOGUE_WIDTH = 46;
+const DIALOGUE_ROW_HEIGHT = 14;
+
+export function usesTextOverlay(config: StoryConfig): boolean {
+  return config.textMode === 'overlay';
+}
+
+export function getDefaultDialoguePlacement(index: number): TextBoxPlacement {
+  // Alternate left and right so a back-and-forth conversation reads naturally
+  return {
+    x: index % 2 === 0 ? 4 : 100 - DIALOGUE_WIDTH - 4,
+    y: 4 + index * DIALOGUE_ROW_HEIGHT,
+    width: DIALOGUE_WIDTH,
+  };
+}
+
+export function clampPlacement(placement: TextBoxPlacement): TextBoxPlacement {
+  const width = Math.min(100, Math.max(10, placement.width));
+  return {
+    x: Math.min(100 - width, Math.max(0, placement.x)),
+    y: Math.min(95, Math.max(0, placement.y)),
+    width,
+  };
+}
+
+// Stored positions win; anything missing falls back to the default layout
+export function resolvePanelTextLayout(panel: Panel): ResolvedTextLayout {
+  const stored: PanelTextLayout = panel.textLayout || {};
+  return {
+    narration: panel.narration
+      ? stored.narration || NARRATION_PLACEMENT
+      : undefined,
+    dialogue: (panel.dialogue || []).map(
+      (_, index) => stored.dialogue?.[index] || getDefaultDialoguePlacement(index)
+    ),
+  };
+}
@@ -0,0 +1,69 @@
+import { AgeGroup, StoryStyle, StoryTheme } from "@/lib/types";
+import { StoredStory } from "@/lib/storage/story-storage";
+
+export type LibrarySort = 'newest' | 'oldest' | 'title' | 'longest';
+
+export interface LibraryFilters {
+  query: string;
+  theme: StoryTheme | 'all';
+  style: StoryStyle | 'all';
+  targetAge: AgeGroup | 'all';
+  character: string | 'all';
+}
+
+export const DEFAULT_LIBRARY_FILTERS: LibraryFilters = {
+  query: '',
+  theme: 'all',
+  style: 'all',
+  targetAge: 'all',
+  character: 'all',
+};
+
+export const LIBRARY_SORTS: { value: LibrarySort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'title', label: 'Title A-Z' },
+  { value: 'longest', label: 'Most pages' },
+];
+
+// Every character name used across the library, for the character filter
+export function getLibraryCharacters(stories: StoredStory[]): string[] {
+  const names = new Map<string, string>();
+  stories.forEach(story =>
+    story.characterNames.forEach(name => {
+      const key = name.trim().toLowerCase();
+      if (key && !names.has(key)) names.set(key, name.trim());
+    })
+  );
+  return Array.from(names.values()).sort((a, b) => a.localeCompare(b));
+}
+
+// Every word of the query has to appear somewhere in the story
+export function filterStories(stories: StoredStory[], filters: LibraryFilters): StoredStory[] {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const character = filters.character.toLowerCase();
+
+  return stories.filter(story =>
+    (filters.theme === 'all' || story.config.theme === filters.theme) &&
+    (filters.style === 'all' || story.config.style === filters.style) &&
+    (filters.targetAge === 'all' || story.config.targetAge === filters.targetAge) &&
+    (filters.character === 'all' ||
+      story.characterNames.some(name => name.trim().toLowerCase() === character)) &&
+    terms.every(term => story.searchText.includes(term))
+  );
+}
+
+export function sortStories(stories: StoredStory[], sort: LibrarySort): StoredStory[] {
+  const sorted = [...stories];
+  switch (sort) {
+    case 'oldest':
+      return sorted.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    case 'title':
+      return sorted.sort((a, b) => a.title.localeCompare(b.title));
+    case 'longest':
+      return sorted.sort((a, b) => b.pageCount - a.pageCount || b.createdAt.getTime() - a.createdAt.getTime());
+    case 'newest':
+    default:
+      return sorted.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+}
@@ -0,0 +1,6 @@
+export * from "./types";
+export { WebSpeechProvider } from "./web-speech-provider";
+export { RemoteTTSProvider } from "./remote-tts-provider";
+export type { RemoteSpeechResponse } from "./remote-tts-provider";
+export { getTTSProvider, setTTSProvider } from "./registry";
+export * from "./narration-player";
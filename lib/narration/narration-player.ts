@@ -0,0 +1,71 @@
+import { AgeGroup, Panel, StoryLanguage } from "@/lib/types";
+import { TTSProvider, WordBoundary } from "./types";
+import { getTTSProvider } from "./registry";
+
+export interface NarrationSegment {
+  kind: 'narration' | 'dialogue';
+  index: number; // Dialogue line index; 0 for narration
+  text: string;
+}
+
+export interface NarrationPosition {
+  segment: NarrationSegment;
+  word?: WordBoundary;
+}
+
+// Narration sets the scene, then the characters speak in order
+export function getNarrationSegments(panel: Panel): NarrationSegment[] {
+  const segments: NarrationSegment[] = [];
+  if (panel.narration?.trim()) {
+    segments.push({ kind: 'narration', index: 0, text: panel.narration });
+  }
+  (panel.dialogue || []).forEach((line, index) => {
+    if (line.trim()) segments.push({ kind: 'dialogue', index, text: line });
+  });
+  return segments;
+}
+
+// Slower for pre-readers so they can follow the highlighted words
+export function getNarrationRate(targetAge?: AgeGroup): number {
+  return targetAge === '3-5' ? 0.85 : 1;
+}
+
+export class NarrationPlayer {
+  private provider: TTSProvider | null;
+
+  constructor(provider?: TTSProvider) {
+    this.provider = provider || null;
+  }
+
+  private get tts(): TTSProvider {
+    return this.provider || getTTSProvider();
+  }
+
+  isAvailable(): boolean {
+    return this.tts.isAvailable();
+  }
+
+  // Speaks every segment of a panel, reporting the segment and word being read
+  async narratePanel(
+    panel: Panel,
+    language: StoryLanguage,
+    options: {
+      signal?: AbortSignal;
+      rate?: number;
+      onPosition?: (position: NarrationPosition) => void;
+    } = {}
+  ): Promise<void> {
+    const { signal, rate, onPosition } = options;
+
+    for (const segment of getNarrationSegments(panel)) {
+      if (signal?.aborted) return;
+      onPosition?.({ segment });
+      await this.tts.speak(
+        { text: segment.text, language, rate },
+        { signal, onWord: word => onPosition?.({ segment, word }) }
+      );
+    }
+  }
+}
+
+export const narrationPlayer = new NarrationPlayer();
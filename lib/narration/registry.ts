@@ -0,0 +1,23 @@
+import { TTSProvider } from "./types";
+import { WebSpeechProvider } from "./web-speech-provider";
+import { RemoteTTSProvider } from "./remote-tts-provider";
+
+function createDefaultProvider(): TTSProvider {
+  const endpoint = process.env.NEXT_PUBLIC_TTS_ENDPOINT;
+  return endpoint ? new RemoteTTSProvider(endpoint) : new WebSpeechProvider();
+}
+
+let activeProvider: TTSProvider | null = null;
+
+export function getTTSProvider(): TTSProvider {
+  if (!activeProvider) {
+    activeProvider = createDefaultProvider();
+    console.log(`[NARRATION] Using ${activeProvider.name} voice provider`);
+  }
+  return activeProvider;
+}
+
+// Swap the voice used for read-aloud (e.g. a server voice)
+export function setTTSProvider(provider: TTSProvider | null): void {
+  activeProvider = provider;
+}
@@ -0,0 +1,126 @@
+import {
+  SpeakOptions,
+  SpeechRequest,
+  SynthesizedSpeech,
+  TTSProvider,
+  getWordLength,
+} from "./types";
+
+/**
+ * Expected response from a server voice endpoint. `words` is optional; without it
+ * the audio still plays, just without word highlighting.
+ */
+export interface RemoteSpeechResponse {
+  audio: string; // base64
+  mimeType: string;
+  duration?: number; // seconds, measured from the audio when missing
+  words?: { charIndex: number; charLength?: number; start: number }[]; // start in seconds
+}
+
+// Server-rendered voices: POSTs the text to an endpoint and plays the returned audio
+export class RemoteTTSProvider implements TTSProvider {
+  readonly name = 'remote';
+
+  constructor(private endpoint: string) {}
+
+  isAvailable(): boolean {
+    return typeof window !== 'undefined' && typeof Audio !== 'undefined';
+  }
+
+  private async fetchSpeech(request: SpeechRequest, signal?: AbortSignal): Promise<RemoteSpeechResponse> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Voice service returned ${response.status}`);
+    }
+    return (await response.json()) as RemoteSpeechResponse;
+  }
+
+  async synthesize(request: SpeechRequest): Promise<SynthesizedSpeech> {
+    const speech = await this.fetchSpeech(request);
+    const binary = atob(speech.audio);
+    const audio = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      audio[i] = binary.charCodeAt(i);
+    }
+
+    const duration = speech.duration ?? await new Promise<number>((resolve, reject) => {
+      const element = new Audio(`data:${speech.mimeType};base64,${speech.audio}`);
+      element.onloadedmetadata = () => resolve(element.duration);
+      element.onerror = () => reject(new Error('Failed to read narration audio length'));
+    });
+
+    return { audio, mimeType: speech.mimeType, duration };
+  }
+
+  async speak(request: SpeechRequest, options: SpeakOptions = {}): Promise<void> {
+    const { signal, onWord } = options;
+    if (signal?.aborted || !request.text.trim()) return;
+
+    let speech: RemoteSpeechResponse;
+    try {
+      speech = await this.fetchSpeech(request, signal);
+    } catch (error) {
+      if (signal?.aborted) return;
+      throw error;
+    }
+    if (signal?.aborted) return;
+
+    const audio = new Audio(`data:${speech.mimeType};base64,${speech.audio}`);
+    const words = speech.words || [];
+
+    await new Promise<void>((resolve, reject) => {
+      let frame = 0;
+      let lastWord = -1;
+
+      // Poll playback position every frame so highlighting keeps up with the voice
+      const trackWords = () => {
+        let current = -1;
+        while (current + 1 < words.length && words[current + 1].start <= audio.currentTime) {
+          current++;
+        }
+        if (current !== lastWord && current >= 0) {
+          lastWord = current;
+          const word = words[current];
+          onWord?.({
+            charIndex: word.charIndex,
+            charLength: word.charLength || getWordLength(request.text, word.charIndex),
+          });
+        }
+        frame = requestAnimationFrame(trackWords);
+      };
+
+      const cleanup = () => {
+        cancelAnimationFrame(frame);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        audio.pause();
+        cleanup();
+        resolve();
+      };
+
+      audio.onended = () => {
+        cleanup();
+        resolve();
+      };
+      audio.onerror = () => {
+        cleanup();
+        reject(new Error('Failed to play narration audio'));
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      audio.play().then(() => {
+        if (words.length > 0) trackWords();
+      }, error => {
+        cleanup();
+        reject(error);
+      });
+    });
+  }
+}
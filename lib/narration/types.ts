@@ -0,0 +1,43 @@
+import { StoryLanguage } from "@/lib/types";
+
+export interface SpeechRequest {
+  text: string;
+  language: StoryLanguage;
+  rate?: number; // 1 is normal speed
+}
+
+// Position of the word being spoken, in characters of SpeechRequest.text
+export interface WordBoundary {
+  charIndex: number;
+  charLength: number;
+}
+
+export interface SpeakOptions {
+  signal?: AbortSignal;
+  onWord?: (word: WordBoundary) => void;
+}
+
+// Rendered narration audio, for exports that embed it (e.g. EPUB media overlays)
+export interface SynthesizedSpeech {
+  audio: Uint8Array;
+  mimeType: string;
+  duration: number; // seconds
+}
+
+export interface TTSProvider {
+  readonly name: string;
+
+  isAvailable(): boolean;
+
+  // Resolves once the text has been spoken, or as soon as the signal aborts
+  speak(request: SpeechRequest, options?: SpeakOptions): Promise<void>;
+
+  // Only providers that produce audio files implement this; browser voices cannot
+  synthesize?(request: SpeechRequest): Promise<SynthesizedSpeech>;
+}
+
+// Some engines report where a word starts but not how long it is
+export function getWordLength(text: string, charIndex: number): number {
+  const match = text.slice(charIndex).match(/^[^\s]+/);
+  return match ? match[0].length : 0;
+}
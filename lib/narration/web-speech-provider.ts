@@ -0,0 +1,79 @@
+import { StoryLanguage } from "@/lib/types";
+import { SpeakOptions, SpeechRequest, TTSProvider, getWordLength } from "./types";
+
+// BCP 47 tags the browsers' built-in voices are registered under
+const SPEECH_LOCALES: Record<StoryLanguage, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR',
+  de: 'de-DE',
+  it: 'it-IT',
+  pt: 'pt-BR',
+  hi: 'hi-IN',
+  zh: 'zh-CN',
+  ja: 'ja-JP',
+  ar: 'ar-SA',
+};
+
+// Local narration through the browser's speechSynthesis voices
+export class WebSpeechProvider implements TTSProvider {
+  readonly name = 'web-speech';
+
+  isAvailable(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  }
+
+  private pickVoice(language: StoryLanguage): SpeechSynthesisVoice | undefined {
+    const voices = window.speechSynthesis.getVoices();
+    const locale = SPEECH_LOCALES[language];
+    return (
+      voices.find(voice => voice.lang === locale) ||
+      voices.find(voice => voice.lang.toLowerCase().startsWith(language))
+    );
+  }
+
+  speak(request: SpeechRequest, options: SpeakOptions = {}): Promise<void> {
+    const { signal, onWord } = options;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted || !request.text.trim()) {
+        resolve();
+        return;
+      }
+
+      const synth = window.speechSynthesis;
+      const utterance = new SpeechSynthesisUtterance(request.text);
+      utterance.lang = SPEECH_LOCALES[request.language];
+      utterance.rate = request.rate ?? 1;
+      const voice = this.pickVoice(request.language);
+      if (voice) utterance.voice = voice;
+
+      const onAbort = () => synth.cancel();
+      const finish = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+
+      utterance.onboundary = event => {
+        if (event.name && event.name !== 'word') return;
+        onWord?.({
+          charIndex: event.charIndex,
+          charLength: event.charLength || getWordLength(request.text, event.charIndex),
+        });
+      };
+      utterance.onend = finish;
+      utterance.onerror = event => {
+        // Cancelling (our own abort, or another utterance taking over) is not a failure
+        if (event.error === 'interrupted' || event.error === 'canceled') {
+          finish();
+          return;
+        }
+        signal?.removeEventListener('abort', onAbort);
+        reject(new Error(`Speech synthesis failed: ${event.error}`));
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      synth.speak(utterance);
+    });
+  }
+}
@@ -0,0 +1,166 @@
+import { Character, ParentalControls, StoryConfig } from "@/lib/types";
+import { AGE_GROUPS, STORY_THEMES } from "@/lib/story-options";
+
+const PARENTAL_CONTROLS_STORAGE_KEY = 'memorytales_parental_controls';
+
+// PBKDF2 rounds, so a short PIN can't be brute-forced quickly from a copied hash
+const PIN_HASH_ITERATIONS = 210_000;
+
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+// The longest preset; also what an unrestricted profile allows
+export const MAX_PAGE_COUNT = 10;
+
+export const DEFAULT_PARENTAL_CONTROLS: ParentalControls = {
+  allowedAgeGroups: AGE_GROUPS.map((age) => age.value),
+  allowedThemes: STORY_THEMES.map((theme) => theme.value),
+  maxPageCount: MAX_PAGE_COUNT,
+  allowPhotoUploads: true,
+  allowCoverVideos: true,
+};
+
+export class ParentalControlsError extends Error {
+  readonly violations: string[];
+
+  constructor(violations: string[]) {
+    super(`Blocked by parental controls: ${violations.join(' ')}`);
+    this.name = 'ParentalControlsError';
+    this.violations = violations;
+  }
+}
+
+interface StoredParentalProfile {
+  controls: ParentalControls;
+  pinHash: string;
+  salt: string;
+  iterations: number;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function hashPin(pin: string, salt: string, iterations: number = PIN_HASH_ITERATIONS): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations },
+    key,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+}
+
+// What a story config breaks; an empty list means it is allowed
+export function getParentalViolations(
+  config: StoryConfig,
+  characters: Character[],
+  controls: ParentalControls
+): string[] {
+  const violations: string[] = [];
+  const pageCount = config.outline?.beats.length || config.pageCount || 5;
+
+  if (!controls.allowedAgeGroups.includes(config.targetAge || '6-8')) {
+    violations.push(`Ages ${config.targetAge || '6-8'} is not allowed.`);
+  }
+  if (!controls.allowedThemes.includes(config.theme)) {
+    violations.push(`The ${config.theme} theme is not allowed.`);
+  }
+  if (pageCount > controls.maxPageCount) {
+    violations.push(`Stories can have at most ${controls.maxPageCount} pages.`);
+  }
+  if (!controls.allowPhotoUploads) {
+    characters
+      .filter((character) => character.base64Image)
+      .forEach((character) => violations.push(`${character.name} uses an uploaded photo, which is turned off.`));
+  }
+
+  return violations;
+}
+
+// Moves a config onto the nearest allowed settings, e.g. after the parent changes the limits
+export function applyParentalControls(config: StoryConfig, controls: ParentalControls): StoryConfig {
+  const targetAge = config.targetAge || '6-8';
+  return {
+    ...config,
+    targetAge: controls.allowedAgeGroups.includes(targetAge)
+      ? targetAge
+      : controls.allowedAgeGroups[0] || targetAge,
+    theme: controls.allowedThemes.includes(config.theme)
+      ? config.theme
+      : controls.allowedThemes[0] || config.theme,
+    pageCount: Math.min(config.pageCount || 5, controls.maxPageCount),
+    coverVideo: controls.allowCoverVideos ? config.coverVideo : false,
+  };
+}
+
+/**
+ * Parent profile kept in this browser. Only a salted PBKDF2 hash of the PIN is stored; the
+ * limits can be read by anyone, but changed or removed in the app only with the PIN.
+ * Anyone who can edit this browser's storage can still clear them, so they are a guard
+ * for young readers rather than a security boundary.
+ */
+export class ParentalControlsService {
+  private load(): StoredParentalProfile | null {
+    try {
+      const stored = localStorage.getItem(PARENTAL_CONTROLS_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async save(pin: string, controls: ParentalControls): Promise<void> {
+    const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+    const profile: StoredParentalProfile = {
+      controls,
+      pinHash: await hashPin(pin, salt),
+      salt,
+      iterations: PIN_HASH_ITERATIONS,
+    };
+    localStorage.setItem(PARENTAL_CONTROLS_STORAGE_KEY, JSON.stringify(profile));
+  }
+
+  // null when no parent profile has been set up
+  getControls(): ParentalControls | null {
+    const profile = this.load();
+    return profile ? { ...DEFAULT_PARENTAL_CONTROLS, ...profile.controls } : null;
+  }
+
+  isEnabled(): boolean {
+    return this.load() !== null;
+  }
+
+  async enable(pin: string, controls: ParentalControls): Promise<void> {
+    if (!PIN_PATTERN.test(pin)) {
+      throw new Error('PIN must be 4 to 8 digits');
+    }
+    if (this.isEnabled()) {
+      throw new Error('Parental controls are already set up');
+    }
+    await this.save(pin, controls);
+    console.log('[PARENTAL_CONTROLS] Parent profile created');
+  }
+
+  async verifyPin(pin: string): Promise<boolean> {
+    const profile = this.load();
+    if (!profile) return false;
+    return (await hashPin(pin, profile.salt, profile.iterations)) === profile.pinHash;
+  }
+
+  // Returns false when the PIN is wrong
+  async update(pin: string, controls: ParentalControls): Promise<boolean> {
+    if (!(await this.verifyPin(pin))) return false;
+    await this.save(pin, controls);
+    console.log('[PARENTAL_CONTROLS] Parent profile updated');
+    return true;
+  }
+
+  async disable(pin: string): Promise<boolean> {
+    if (!(await this.verifyPin(pin))) return false;
+    localStorage.removeItem(PARENTAL_CONTROLS_STORAGE_KEY);
+    console.log('[PARENTAL_CONTROLS] Parent profile removed');
+    return true;
+  }
+}
+
+export const parentalControlsService = new ParentalControlsService();
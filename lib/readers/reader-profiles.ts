@@ -0,0 +1,95 @@
+import { AgeGroup, Character, ReaderProfile, ReadingRecord, StoryConfig, StoryReader } from "@/lib/types";
+import { generateId } from "@/lib/utils";
+import { characterStorage } from "@/lib/storage/character-storage";
+
+// Same choices as the character count picker on the story form
+const MAX_CHARACTER_COUNT = 4;
+
+export function createReaderProfile(name: string): ReaderProfile {
+  return {
+    id: `reader-${generateId()}`,
+    name,
+    age: 6,
+    favoriteThemes: [],
+    readingLevel: 'beginner',
+    recurringCharacters: [],
+    createdAt: new Date(),
+  };
+}
+
+export function getAgeGroupForAge(age: number): AgeGroup {
+  if (age <= 5) return '3-5';
+  if (age <= 8) return '6-8';
+  if (age <= 12) return '9-12';
+  return '13+';
+}
+
+export function toStoryReader(reader: ReaderProfile): StoryReader {
+  const { id, name, age, favoriteThemes, readingLevel } = reader;
+  return { id, name, age, favoriteThemes, readingLevel };
+}
+
+// Fills the story form from a profile; the theme only changes when the current one isn't a favorite
+export function applyReaderProfile(config: StoryConfig, reader: ReaderProfile): StoryConfig {
+  const theme = reader.favoriteThemes.length === 0 || reader.favoriteThemes.includes(config.theme)
+    ? config.theme
+    : reader.favoriteThemes[0];
+
+  return {
+    ...config,
+    theme,
+    targetAge: getAgeGroupForAge(reader.age),
+    characterCount: Math.min(
+      MAX_CHARACTER_COUNT,
+      Math.max(config.characterCount, reader.recurringCharacters.length)
+    ),
+    characters: reader.recurringCharacters.slice(0, MAX_CHARACTER_COUNT),
+    reader: toStoryReader(reader),
+  };
+}
+
+// Takes a profile off the form, leaving the other settings as they are
+export function clearReaderProfile(config: StoryConfig): StoryConfig {
+  return { ...config, characters: [], reader: undefined };
+}
+
+// Swaps the reader's recurring characters for their saved versions, so their designs are reused.
+// Characters given a new photo are left as they are.
+export async function loadRecurringCharacters(characters: Character[], reader: ReaderProfile): Promise<Character[]> {
+  const recurring = reader.recurringCharacters.map(name => name.toLowerCase());
+  return Promise.all(characters.map(async character => {
+    if (character.base64Image || !recurring.includes(character.name.trim().toLowerCase())) {
+      return character;
+    }
+    const stored = await characterStorage.getStoredCharacterByName(character.name.trim());
+    if (!stored) return character;
+
+    const { lastUsed, usageCount, designVersions, ...saved } = stored;
+    return saved;
+  }));
+}
+
+export function getReadingProgress(record: ReadingRecord): number {
+  return record.pageCount > 0 ? Math.round((record.furthestPage / record.pageCount) * 100) : 0;
+}
+
+export function getRereadCount(record: ReadingRecord): number {
+  return Math.max(0, record.timesOpened - 1);
+}
+
+export interface ReadingSummary {
+  booksOpened: number;
+  booksFinished: number;
+  favorites: ReadingRecord[]; // Re-read at least once, most re-read first
+}
+
+export function summarizeReading(records: ReadingRecord[], favoriteLimit: number = 3): ReadingSummary {
+  return {
+    booksOpened: records.length,
+    booksFinished: records.filter(record => record.timesFinished > 0).length,
+    favorites: records
+      .filter(record => getRereadCount(record) > 0)
+      .sort((a, b) => b.timesOpened - a.timesOpened || b.lastReadAt.getTime() - a.lastReadAt.getTime())
+      .slice(0, favoriteLimit),
+  };
+}
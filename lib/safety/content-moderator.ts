@@ -0,0 +1,97 @@
+import { AgeGroup, Character, StoryConfig, StoryPage } from "@/lib/types";
+import { GeminiService } from "@/lib/ai-services/gemini-service";
+import { getAIProvider } from "@/lib/ai-services/providers";
+import { LocalRuleChecker } from "./local-rule-checker";
+import { ModerationIssue, ModerationText, SafetyChecker } from "./types";
+
+// Reviews text with the AI model, catching what a word list cannot (context, other languages)
+export class AISafetyChecker implements SafetyChecker {
+  readonly name = 'ai-review';
+  private apiKey: string;
+  private gemini: GeminiService;
+
+  constructor(apiKey: string, gemini: GeminiService) {
+    this.apiKey = apiKey;
+    this.gemini = gemini;
+  }
+
+  check(texts: ModerationText[], ageGroup: AgeGroup): Promise<ModerationIssue[]> {
+    return this.gemini.moderateContent(this.apiKey, texts, ageGroup);
+  }
+}
+
+export function getAgeGroup(config: StoryConfig): AgeGroup {
+  return config.targetAge || '6-8';
+}
+
+export function getCharacterTexts(characters: Character[]): ModerationText[] {
+  return characters.map((character) => ({ label: `Character "${character.name}"`, text: character.name }));
+}
+
+// What the parent typed: the story idea, the setting, the reader's name and the character names
+export function getInputTexts(config: StoryConfig, characters: Character[] = []): ModerationText[] {
+  return [
+    { label: 'Story idea', text: config.prompt },
+    { label: 'Story setting', text: config.setting },
+    ...(config.reader ? [{ label: 'Reader name', text: config.reader.name }] : []),
+    ...getCharacterTexts(characters),
+  ];
+}
+
+// Everything the model wrote: the title and each panel's scene, dialogue and narration
+export function getScriptTexts(story: { title: string; pages: StoryPage[] }): ModerationText[] {
+  return [
+    { label: 'Title', text: story.title },
+    ...story.pages.flatMap((page, pageIndex) =>
+      page.panels.map((panel, panelIndex) => ({
+        label: `Page ${pageIndex + 1}, panel ${panelIndex + 1}`,
+        text: [panel.description, ...(panel.dialogue || []), panel.narration].filter(Boolean).join('\n'),
+        pageIndex,
+        panelIndex,
+      }))
+    ),
+  ];
+}
+
+/**
+ * Checks text against the age group's rules. The local rules always run; the AI review
+ * runs on top when a reviewer is given, unless the app is offline (fixture provider or
+ * NEXT_PUBLIC_SAFETY_MODE=local). If the review fails, the text is held back rather than
+ * passed on the local rules alone.
+ */
+export class ContentModerator {
+  private local: LocalRuleChecker;
+
+  constructor(local: LocalRuleChecker = new LocalRuleChecker()) {
+    this.local = local;
+  }
+
+  checkLocally(texts: ModerationText[], ageGroup: AgeGroup): ModerationIssue[] {
+    return this.local.checkSync(texts, ageGroup);
+  }
+
+  async check(texts: ModerationText[], ageGroup: AgeGroup, reviewer?: SafetyChecker): Promise<ModerationIssue[]> {
+    const issues = this.checkLocally(texts, ageGroup);
+    // No need to pay for a review of text that is already rejected
+    if (issues.length > 0 || !reviewer || this.isOffline()) {
+      return issues;
+    }
+
+    try {
+      return await reviewer.check(texts, ageGroup);
+    } catch (error) {
+      console.warn(`[SAFETY] ${reviewer.name} check failed, holding the text back:`, error);
+      return [{
+        label: 'Safety review',
+        category: 'unreviewed',
+        message: `The safety review couldn't be completed, so this can't be cleared for ages ${ageGroup} yet. Please try again in a moment.`,
+      }];
+    }
+  }
+
+  private isOffline(): boolean {
+    return process.env.NEXT_PUBLIC_SAFETY_MODE === 'local' || getAIProvider().name === 'fixture';
+  }
+}
+
+export const contentModerator = new ContentModerator();
@@ -0,0 +1,13 @@
+export * from "./types";
+export { AGE_GROUP_ORDER, SAFETY_RULES, getSafetyBlocklist, setSafetyBlocklist } from "./rules";
+export type { SafetyRule } from "./rules";
+export { LocalRuleChecker } from "./local-rule-checker";
+export {
+  AISafetyChecker,
+  ContentModerator,
+  contentModerator,
+  getAgeGroup,
+  getCharacterTexts,
+  getInputTexts,
+  getScriptTexts,
+} from "./content-moderator";
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { AgeGroup } from "@/lib/types";
+import { LocalRuleChecker } from "./local-rule-checker";
+import { ContentModerator } from "./content-moderator";
+import { SafetyChecker } from "./types";
+
+const checker = new LocalRuleChecker([]);
+
+function check(text: string, ageGroup: AgeGroup = "6-8") {
+  return checker.checkSync([{ label: "Story idea", text }], ageGroup);
+}
+
+describe("LocalRuleChecker", () => {
+  it("allows everyday phrases that contain a flagged word", () => {
+    expect(check("Grandpa pulled the weeds before his heart attack scare", "3-5")).toEqual([]);
+    expect(check("They had a pillow fight and drank fruit punch", "3-5")).toEqual([]);
+  });
+
+  it("still flags the words on their own", () => {
+    expect(check("The dragon attacks the castle", "3-5")).toMatchObject([
+      { category: "violence", term: "attack" },
+    ]);
+    expect(check("Some kids smoke weed behind the school", "9-12")).toMatchObject([
+      { category: "substances", term: "smoke weed" },
+    ]);
+  });
+
+  it("leaves drug awareness stories to older readers", () => {
+    expect(check("A story about saying no to drugs", "13+")).toEqual([]);
+    expect(check("A story about saying no to drugs", "9-12")).toHaveLength(1);
+  });
+
+  it("flags phone numbers but not counting", () => {
+    expect(check("Count along: 1 2 3 4 5 6 7 8 9 10")).toEqual([]);
+    expect(check("Call 555-123-4567 for a party")).toMatchObject([{ category: "personal-info" }]);
+    expect(check("Ring (555) 123 4567")).toMatchObject([{ category: "personal-info" }]);
+    expect(check("Ring grandma on +44 20 7946 0958")).toMatchObject([{ category: "personal-info" }]);
+  });
+});
+
+describe("ContentModerator", () => {
+  it("holds text back when the AI review fails", async () => {
+    const moderator = new ContentModerator(checker);
+    const reviewer: SafetyChecker = {
+      name: "failing-review",
+      check: () => Promise.reject(new Error("Network down")),
+    };
+    const issues = await moderator.check(
+      [{ label: "Story idea", text: "A picnic with friends" }],
+      "6-8",
+      reviewer
+    );
+    expect(issues).toMatchObject([{ category: "unreviewed" }]);
+  });
+});
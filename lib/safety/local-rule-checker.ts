@@ -0,0 +1,82 @@
+import { AgeGroup } from "@/lib/types";
+import { ModerationIssue, ModerationText, SafetyChecker } from "./types";
+import { PERSONAL_INFO_PATTERNS, SAFETY_RULES, SafetyRule, getSafetyBlocklist, isAllowedFor } from "./rules";
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word match that also catches plurals and flexible spacing in phrases
+function termPattern(term: string, flags: string = 'i'): RegExp {
+  const words = term.split(/\s+/).map(escapeRegExp).join('\\s+');
+  return new RegExp(`\\b${words}(?:s|es)?\\b`, flags);
+}
+
+// The first term used outside the rule's harmless phrases
+function findTerm(rule: SafetyRule, text: string): string | undefined {
+  const remaining = (rule.exceptions || []).reduce(
+    (current, phrase) => current.replace(termPattern(phrase, 'gi'), ' '),
+    text
+  );
+  return rule.terms.find((candidate) => termPattern(candidate).test(remaining));
+}
+
+/**
+ * Word-list checker that runs without network access. It always runs, and is the only
+ * check when the AI review is unavailable.
+ */
+export class LocalRuleChecker implements SafetyChecker {
+  readonly name = 'local-rules';
+  private blocklist: string[] | null;
+
+  // Leave blocklist unset to follow the configured one
+  constructor(blocklist?: string[]) {
+    this.blocklist = blocklist || null;
+  }
+
+  async check(texts: ModerationText[], ageGroup: AgeGroup): Promise<ModerationIssue[]> {
+    return this.checkSync(texts, ageGroup);
+  }
+
+  // Synchronous for form validation, where waiting on a promise is not worth it
+  checkSync(texts: ModerationText[], ageGroup: AgeGroup): ModerationIssue[] {
+    const rules = SAFETY_RULES.filter((rule) => !isAllowedFor(rule, ageGroup));
+    const blocklist = this.blocklist || getSafetyBlocklist();
+    const issues: ModerationIssue[] = [];
+
+    texts.forEach(({ label, text, pageIndex, panelIndex }) => {
+      if (!text) return;
+      const location = { label, pageIndex, panelIndex };
+
+      rules.forEach((rule) => {
+        const term = findTerm(rule, text);
+        if (term) {
+          issues.push({
+            ...location,
+            category: rule.category,
+            term,
+            message: `"${term}" isn't right for ages ${ageGroup}. ${rule.advice}`,
+          });
+        }
+      });
+
+      const blocked = blocklist.find((candidate) => termPattern(candidate).test(text));
+      if (blocked) {
+        issues.push({
+          ...location,
+          category: 'blocklist',
+          term: blocked,
+          message: `"${blocked}" is on your blocked words list. Remove it to continue.`,
+        });
+      }
+
+      PERSONAL_INFO_PATTERNS.forEach(({ pattern, advice }) => {
+        if (pattern.test(text)) {
+          issues.push({ ...location, category: 'personal-info', message: advice });
+        }
+      });
+    });
+
+    return issues;
+  }
+}
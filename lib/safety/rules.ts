@@ -0,0 +1,142 @@
+import { AgeGroup } from "@/lib/types";
+import { SafetyCategory } from "./types";
+
+export const AGE_GROUP_ORDER: AgeGroup[] = ['3-5', '6-8', '9-12', '13+'];
+
+export interface SafetyRule {
+  category: SafetyCategory;
+  terms: string[];
+  // Youngest age group the terms are fine for; never allowed when unset
+  allowedFrom?: AgeGroup;
+  // Harmless phrases that contain a term, e.g. "heart attack" for "attack"
+  exceptions?: string[];
+  advice: string;
+}
+
+// Matched as whole words (plurals included), case-insensitive
+export const SAFETY_RULES: SafetyRule[] = [
+  {
+    category: 'profanity',
+    terms: ['fuck', 'fucking', 'shit', 'bitch', 'bastard', 'asshole', 'piss'],
+    advice: 'Remove the swear word.',
+  },
+  {
+    category: 'profanity',
+    terms: ['damn', 'crap', 'idiot', 'shut up'],
+    allowedFrom: '13+',
+    advice: 'Use kinder words for this age group.',
+  },
+  {
+    category: 'violence',
+    terms: ['gore', 'gory', 'torture', 'behead', 'decapitate', 'massacre', 'dismember'],
+    advice: 'Leave out graphic violence; solve conflicts with courage, cleverness or teamwork.',
+  },
+  {
+    category: 'violence',
+    terms: ['kill', 'killed', 'killing', 'murder', 'blood', 'bloody', 'stab', 'corpse', 'dead body', 'war'],
+    allowedFrom: '13+',
+    advice: 'Keep danger gentle: chases, puzzles or friendly competitions instead of harm.',
+  },
+  {
+    category: 'violence',
+    terms: ['fight', 'punch', 'attack', 'battle'],
+    allowedFrom: '6-8',
+    exceptions: ['heart attack', 'panic attack', 'asthma attack', 'pillow fight', 'snowball fight', 'food fight', 'fruit punch'],
+    advice: 'Turn the fight into a race, a game or a problem to solve together.',
+  },
+  {
+    category: 'weapons',
+    terms: ['gun', 'rifle', 'pistol', 'shotgun', 'bomb', 'grenade', 'explosive'],
+    allowedFrom: '13+',
+    advice: 'Swap weapons for gadgets, tools or magic.',
+  },
+  {
+    category: 'weapons',
+    terms: ['sword', 'knife', 'dagger', 'bow and arrow', 'spear'],
+    allowedFrom: '6-8',
+    advice: 'Swap weapons for gadgets, tools or magic.',
+  },
+  {
+    category: 'scary',
+    terms: ['horror', 'demon', 'zombie', 'possessed', 'nightmare', 'terrifying', 'haunted', 'creepy'],
+    allowedFrom: '9-12',
+    advice: 'Make it mysterious rather than frightening.',
+  },
+  {
+    category: 'scary',
+    terms: ['ghost', 'skeleton', 'witch', 'vampire', 'werewolf', 'scary'],
+    allowedFrom: '6-8',
+    advice: 'Preschoolers do best with friendly, familiar characters.',
+  },
+  {
+    category: 'romance',
+    terms: ['sex', 'sexy', 'naked', 'nude', 'porn', 'erotic'],
+    advice: 'Remove adult content.',
+  },
+  {
+    category: 'romance',
+    terms: ['kiss', 'kissing', 'boyfriend', 'girlfriend', 'dating'],
+    allowedFrom: '9-12',
+    advice: 'Focus on friendship for this age group.',
+  },
+  {
+    category: 'substances',
+    terms: ['cocaine', 'heroin', 'meth', 'marijuana'],
+    advice: 'Leave out drugs.',
+  },
+  {
+    // "Weed" alone is the garden kind
+    category: 'substances',
+    terms: ['drugs', 'drug dealer', 'smoke weed', 'smoking weed'],
+    allowedFrom: '13+',
+    advice: 'Leave out drugs.',
+  },
+  {
+    category: 'substances',
+    terms: ['beer', 'wine', 'vodka', 'whiskey', 'alcohol', 'drunk', 'cigarette', 'smoking', 'vape'],
+    allowedFrom: '13+',
+    advice: 'Leave out alcohol and smoking.',
+  },
+  {
+    category: 'self-harm',
+    terms: ['suicide', 'self-harm', 'kill myself', 'kill himself', 'kill herself', 'cut myself'],
+    advice: 'Leave this out of the story. If a child is struggling, please talk to them or a professional.',
+  },
+];
+
+// Contact details have no place in a shareable book, whatever the age
+export const PERSONAL_INFO_PATTERNS: { pattern: RegExp; advice: string }[] = [
+  { pattern: /[\w.+-]+@[\w-]+\.[\w.]+/, advice: 'Remove the email address.' },
+  {
+    // Written like a phone number: 555-123-4567, (555) 123 4567 or +44 20 7946 0958, not a list of small numbers
+    pattern: /(?:\(\d{3}\)\s?|\b\d{3}[\s.-]?)\d{3}[\s.-]?\d{4}\b|\+\d{1,3}(?:[\s.-]?\d{2,4}){2,4}\b/,
+    advice: 'Remove the phone number.',
+  },
+  {
+    pattern: /\b\d+\s+\w+\s+(?:street|st|avenue|ave|road|rd|lane|ln|drive|dr)\b/i,
+    advice: 'Remove the home address.',
+  },
+];
+
+// Extra words to reject, e.g. names or topics a family wants kept out of stories.
+// Comma-separated in NEXT_PUBLIC_SAFETY_BLOCKLIST, or set at runtime.
+let customBlocklist: string[] | null = null;
+
+export function getSafetyBlocklist(): string[] {
+  if (!customBlocklist) {
+    customBlocklist = (process.env.NEXT_PUBLIC_SAFETY_BLOCKLIST || '')
+      .split(',')
+      .map((term) => term.trim().toLowerCase())
+      .filter(Boolean);
+  }
+  return customBlocklist;
+}
+
+export function setSafetyBlocklist(terms: string[] | null): void {
+  customBlocklist = terms ? terms.map((term) => term.trim().toLowerCase()).filter(Boolean) : null;
+}
+
+export function isAllowedFor(rule: SafetyRule, ageGroup: AgeGroup): boolean {
+  if (!rule.allowedFrom) return false;
+  return AGE_GROUP_ORDER.indexOf(ageGroup) >= AGE_GROUP_ORDER.indexOf(rule.allowedFrom);
+}
@@ -0,0 +1,53 @@
+import { AgeGroup } from "@/lib/types";
+
+export type SafetyCategory =
+  | 'violence'
+  | 'weapons'
+  | 'scary'
+  | 'romance'
+  | 'substances'
+  | 'profanity'
+  | 'self-harm'
+  | 'personal-info'
+  | 'blocklist'
+  | 'unreviewed'; // The AI review could not run, so the text has not been cleared
+
+// Where a piece of text came from, so a rejection can point at what to change
+export interface ModerationText {
+  label: string; // e.g. "Story idea", "Page 2, panel 1"
+  text: string;
+  pageIndex?: number;
+  panelIndex?: number;
+}
+
+export interface ModerationIssue {
+  label: string;
+  category: SafetyCategory;
+  term?: string; // The word that was matched, for rule-based checks
+  message: string; // What to change, written for the parent
+  pageIndex?: number;
+  panelIndex?: number;
+}
+
+export interface SafetyChecker {
+  readonly name: string;
+
+  check(texts: ModerationText[], ageGroup: AgeGroup): Promise<ModerationIssue[]>;
+}
+
+export class ContentRejectedError extends Error {
+  readonly issues: ModerationIssue[];
+
+  constructor(issues: ModerationIssue[], message: string = describeIssues(issues)) {
+    super(message);
+    this.name = 'ContentRejectedError';
+    this.issues = issues;
+  }
+}
+
+export function describeIssues(issues: ModerationIssue[]): string {
+  if (issues.length === 0) return 'This story is not suitable for the selected age group';
+  const [first] = issues;
+  const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+  return `${first.label}: ${first.message}${more}`;
+}
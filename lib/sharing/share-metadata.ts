@@ -0,0 +1,28 @@
+import { GeneratedStory } from "@/lib/types";
+
+// Open Graph images render at this size on Facebook, LinkedIn and X
+export const SHARE_IMAGE_SIZE = { width: 1200, height: 630 };
+
+const MAX_DESCRIPTION_LENGTH = 200;
+
+// The opening narration reads like a blurb; fall back to a generic line
+export function getShareDescription(story: GeneratedStory): string {
+  const narration = story.pages
+    .flatMap(page => page.panels)
+    .map(panel => panel.narration?.trim())
+    .find(Boolean);
+
+  if (!narration) {
+    return `A personalized ${story.config.theme} storybook created with MemoryTales.ai`;
+  }
+  if (narration.length <= MAX_DESCRIPTION_LENGTH) {
+    return narration;
+  }
+
+  const cut = narration.slice(0, MAX_DESCRIPTION_LENGTH - 1);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}…`;
+}
+
+export function getShareImagePath(shareId: string): string {
+  return `/api/shares/${shareId}/image`;
+}
@@ -1,11 +1,112 @@
 import { GeneratedStory } from "@/lib/types";
+import { StoryShareSummary, toShareableStory } from "./types";
+
+const PUBLISHED_LINKS_STORAGE_KEY = 'memorytales_shares';
+
+// What this browser remembers about a story it published
+export interface PublishedLink {
+  shareId: string;
+  url: string;
+  revokeToken: string;
+  expiresAt: string | null;
+}
 
 export class ShareService {
-  async shareStory(story: GeneratedStory) {
+  private async request<T>(url: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(url, init);
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed with status ${response.status}`);
+    }
+    return data as T;
+  }
+
+  private loadPublishedLinks(): Record<string, PublishedLink> {
+    try {
+      return JSON.parse(localStorage.getItem(PUBLISHED_LINKS_STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private savePublishedLinks(links: Record<string, PublishedLink>) {
+    localStorage.setItem(PUBLISHED_LINKS_STORAGE_KEY, JSON.stringify(links));
+  }
+
+  // Returns the story's public link, or null if it was never published or has expired
+  getPublishedLink(storyId: string): PublishedLink | null {
+    const link = this.loadPublishedLinks()[storyId];
+    if (!link) return null;
+    if (link.expiresAt && new Date(link.expiresAt).getTime() <= Date.now()) {
+      this.forgetPublishedLink(storyId);
+      return null;
+    }
+    return link;
+  }
+
+  private forgetPublishedLink(storyId: string) {
+    const links = this.loadPublishedLinks();
+    delete links[storyId];
+    this.savePublishedLinks(links);
+  }
+
+  // Uploads a read-only copy of the story; anyone with the link can view it
+  async publishStory(story: GeneratedStory, expiresInDays: number | null): Promise<PublishedLink> {
+    console.log(`[SHARE_SERVICE] Publishing "${story.title}" (expires: ${expiresInDays ?? 'never'})`);
+
+    const { share, revokeToken } = await this.request<{ share: StoryShareSummary; revokeToken: string }>(
+      '/api/shares',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ story: toShareableStory(story), expiresInDays }),
+      }
+    );
+
+    const link: PublishedLink = {
+      shareId: share.id,
+      url: `${window.location.origin}/s/${share.id}`,
+      revokeToken,
+      expiresAt: share.expiresAt,
+    };
+    this.savePublishedLinks({ ...this.loadPublishedLinks(), [story.id]: link });
+    return link;
+  }
+
+  async revokeStory(storyId: string): Promise<void> {
+    const link = this.getPublishedLink(storyId);
+    if (!link) return;
+
+    try {
+      await this.request(`/api/shares/${link.shareId}`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ revokeToken: link.revokeToken }),
+      });
+    } catch (error: any) {
+      // A share that is already gone on the server is as good as revoked
+      if (!/not found/i.test(error.message)) {
+        throw error;
+      }
+    }
+    this.forgetPublishedLink(storyId);
+  }
+
+  async copyLink(url: string) {
+    await this.copyToClipboard(url);
+  }
+
+  // The public link when the story is published, otherwise the site itself
+  private getShareUrl(story: GeneratedStory, url?: string): string {
+    return url || this.getPublishedLink(story.id)?.url || window.location.origin;
+  }
+
+  async shareStory(story: GeneratedStory, url?: string) {
     const shareData = {
       title: story.title,
       text: `Check out my personalized storybook: "${story.title}"! Created with MemoryTales.ai AI.`,
-      url: window.location.origin
+      url: this.getShareUrl(story, url)
     };
 
     try {
@@ -64,27 +165,29 @@ Created with MemoryTales.ai - AI-Powered Interactive Storytelling ✨
   }
 
   // Social media specific sharing methods
-  shareToTwitter(story: GeneratedStory) {
+  shareToTwitter(story: GeneratedStory, link?: string) {
     const text = encodeURIComponent(this.generateShareText(story));
-    const url = `https://twitter.com/intent/tweet?text=${text}`;
+    const storyUrl = encodeURIComponent(this.getShareUrl(story, link));
+    const url = `https://twitter.com/intent/tweet?text=${text}&url=${storyUrl}`;
     window.open(url, '_blank');
   }
 
-  shareToFacebook(story: GeneratedStory) {
-    const url = encodeURIComponent(window.location.origin);
+  shareToFacebook(story: GeneratedStory, link?: string) {
+    const url = encodeURIComponent(this.getShareUrl(story, link));
     const shareUrl = `https://www.facebook.com/sharer/sharer.php?u=${url}`;
     window.open(shareUrl, '_blank');
   }
 
-  shareToLinkedIn(story: GeneratedStory) {
-    const url = encodeURIComponent(window.location.origin);
+  shareToLinkedIn(story: GeneratedStory, link?: string) {
+    const url = encodeURIComponent(this.getShareUrl(story, link));
     const title = encodeURIComponent(story.title);
     const summary = encodeURIComponent(`Check out my personalized AI-generated storybook!`);
     const shareUrl = `https://www.linkedin.com/sharing/share-offsite/?url=${url}&title=${title}&summary=${summary}`;
     window.open(shareUrl, '_blank');
   }
 
-  async shareViaEmail(story: GeneratedStory) {
+  async shareViaEmail(story: GeneratedStory, link?: string) {
+    const storyUrl = link || this.getPublishedLink(story.id)?.url;
     const subject = encodeURIComponent(`Check out my storybook: ${story.title}`);
     const body = encodeURIComponent(`
 Hi!
@@ -93,7 +196,7 @@ I just created an amazing personalized storybook called "${story.title}" using M
 
 It features ${story.characters.length} custom characters and ${story.pages.length} pages of ${story.config.theme} adventures.
 
-You can create your own at: ${window.location.origin}
+${storyUrl ? `Read it here: ${storyUrl}\n\n` : ''}You can create your own at: ${window.location.origin}
 
 Enjoy!
     `);
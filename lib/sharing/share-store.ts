@@ -0,0 +1,103 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { GeneratedStory } from "@/lib/types";
+import { StoryShare, isShareExpired } from "./types";
+
+const SHARES_DIR = process.env.STORY_SHARES_DIR || path.join(process.cwd(), ".data", "shares");
+
+// 128 bits of randomness, URL-safe
+const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * File-system persistence for published stories. Each share is one JSON file named
+ * by its unguessable id; expired shares are removed the next time they are read.
+ */
+export class ShareStore {
+  constructor(private readonly directory: string = SHARES_DIR) {}
+
+  private sharePath(shareId: string): string {
+    if (!SHARE_ID_PATTERN.test(shareId)) {
+      throw new Error(`Invalid share id: ${shareId}`);
+    }
+    return path.join(this.directory, `${shareId}.json`);
+  }
+
+  async create(
+    story: GeneratedStory,
+    expiresInDays: number | null
+  ): Promise<{ share: StoryShare; revokeToken: string }> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const revokeToken = randomBytes(32).toString("base64url");
+    const now = new Date();
+    const share: StoryShare = {
+      id: randomBytes(16).toString("base64url"),
+      story,
+      createdAt: now.toISOString(),
+      expiresAt: expiresInDays
+        ? new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+        : null,
+      revokeTokenHash: hashToken(revokeToken),
+    };
+
+    // Write to a temp file first so a half-written share is never served
+    const target = this.sharePath(share.id);
+    const temp = `${target}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(share), "utf8");
+    await fs.rename(temp, target);
+
+    return { share, revokeToken };
+  }
+
+  // Returns null for unknown, malformed and expired ids alike
+  async load(shareId: string): Promise<StoryShare | null> {
+    let share: StoryShare;
+    try {
+      share = JSON.parse(await fs.readFile(this.sharePath(shareId), "utf8")) as StoryShare;
+    } catch (error: any) {
+      if (error?.code === "ENOENT" || error?.message?.startsWith("Invalid share id")) {
+        return null;
+      }
+      console.error(`[SHARE_STORE] Error loading share ${shareId}:`, error);
+      throw error;
+    }
+
+    if (isShareExpired(share)) {
+      await this.delete(shareId);
+      return null;
+    }
+    return share;
+  }
+
+  // Deletes the share if the token matches; false when it does not
+  async revoke(shareId: string, revokeToken: string): Promise<boolean> {
+    const share = await this.load(shareId);
+    if (!share) return false;
+
+    const expected = Buffer.from(share.revokeTokenHash, "hex");
+    const actual = Buffer.from(hashToken(revokeToken), "hex");
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return false;
+    }
+
+    await this.delete(shareId);
+    return true;
+  }
+
+  private async delete(shareId: string): Promise<void> {
+    try {
+      await fs.unlink(this.sharePath(shareId));
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+}
+
+export const shareStore = new ShareStore();
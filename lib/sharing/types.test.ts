@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { GeneratedStory } from "@/lib/types";
+import { getPrivateShareFields, toShareableStory } from "./types";
+
+const story: GeneratedStory = {
+  id: "story-1",
+  title: "The Cookie Dragon",
+  pages: [],
+  characters: [
+    {
+      id: "char-1",
+      name: "Ember",
+      base64Image: "iVBORw0KGgo=",
+      mimeType: "image/png",
+      generatedDesignImage: "data:image/png;base64,iVBORw0KGgo=",
+    },
+  ],
+  config: {
+    prompt: "A little dragon learns to bake cookies",
+    theme: "funny",
+    style: "comic",
+    characters: [],
+    setting: "",
+    characterCount: 1,
+    reader: { id: "reader-1", name: "Mia", age: 6, favoriteThemes: [], readingLevel: "beginner" },
+  },
+  createdAt: new Date("2026-01-01T00:00:00.000Z"),
+};
+
+describe("toShareableStory", () => {
+  it("removes uploaded photos and the reader", () => {
+    const shared = toShareableStory(story);
+
+    expect(shared.config.reader).toBeUndefined();
+    expect(shared.characters[0]).toEqual({
+      id: "char-1",
+      name: "Ember",
+      generatedDesignImage: "data:image/png;base64,iVBORw0KGgo=",
+    });
+    expect(getPrivateShareFields(shared)).toEqual([]);
+  });
+
+  it("reports what an unfiltered story still contains", () => {
+    expect(getPrivateShareFields(story)).toEqual(["config.reader", "characters[].base64Image"]);
+  });
+});
@@ -0,0 +1,57 @@
+import { GeneratedStory } from "@/lib/types";
+
+export interface StoryShare {
+  id: string;
+  story: GeneratedStory;
+  createdAt: string;
+  expiresAt: string | null; // null never expires
+  // SHA-256 of the secret handed to the publisher; needed to revoke the link
+  revokeTokenHash: string;
+}
+
+// What the API returns about a share; never includes the revoke token hash
+export interface StoryShareSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  expiresAt: string | null;
+}
+
+export const SHARE_EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: null, label: 'Never' },
+];
+
+// A public link must not carry the children's photos or the reader's name and age
+export function toShareableStory(story: GeneratedStory): GeneratedStory {
+  const { reader, ...config } = story.config;
+  return {
+    ...story,
+    config,
+    characters: story.characters.map(({ uploadedImage, base64Image, mimeType, ...character }) => character),
+  };
+}
+
+// What a story sent for sharing still contains that toShareableStory removes
+export function getPrivateShareFields(story: GeneratedStory): string[] {
+  const fields: string[] = [];
+  if (story.config?.reader) fields.push('config.reader');
+  if (story.characters?.some((character) => character.uploadedImage || character.base64Image)) {
+    fields.push('characters[].base64Image');
+  }
+  return fields;
+}
+
+export function isShareExpired(share: Pick<StoryShare, 'expiresAt'>, now: Date = new Date()): boolean {
+  return !!share.expiresAt && new Date(share.expiresAt).getTime() <= now.getTime();
+}
+
+export function summarizeShare(share: StoryShare): StoryShareSummary {
+  return {
+    id: share.id,
+    title: share.story.title,
+    createdAt: share.createdAt,
+    expiresAt: share.expiresAt,
+  };
+}
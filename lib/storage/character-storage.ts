@@ -1,190 +1,394 @@
-import { Character } from "@/lib/types";
+import { Character, CharacterDesignVersion, CharacterTurnaround } from "@/lib/types";
+import {
+  STORES,
+  deleteImages,
+  extractImages,
+  getSetting,
+  openDatabase,
+  requestToPromise,
+  restoreImages,
+  setSetting,
+  transactionDone,
+  writeImages,
+} from "./indexed-db";
 
-const CHARACTER_STORAGE_KEY = 'memorytales_characters';
-const MAX_CHARACTERS = 50; // Limit to prevent localStorage overflow
+// Legacy localStorage key, read once during migration
+const LEGACY_CHARACTER_STORAGE_KEY = 'memorytales_characters';
+const MIGRATION_SETTING_KEY = 'migrated_local_storage_characters';
 
 export interface StoredCharacter extends Character {
   lastUsed: Date;
   usageCount: number;
 }
 
+// Row shape: images live in the images store, name is indexed case-insensitively
+interface CharacterRecord extends StoredCharacter {
+  nameKey: string;
+}
+
+function characterImageOwner(characterId: string): string {
+  return `character/${characterId}`;
+}
+
+// Makes sure the current design is in the history, so a regenerated design never replaces the old one
+function recordDesignVersion<T extends Character>(char: T, now: Date = new Date()): T {
+  const versions = char.designVersions || [];
+  if (!char.generatedDesignImage) return char;
+
+  const current = versions.find(version => version.image === char.generatedDesignImage);
+  if (current) {
+    return { ...char, activeDesignId: current.id };
+  }
+
+  const version: CharacterDesignVersion = {
+    id: `design-${now.getTime()}-${Math.random().toString(36).substr(2, 5)}`,
+    image: char.generatedDesignImage,
+    description: char.generatedDescription,
+    createdAt: now,
+  };
+  return { ...char, designVersions: [...versions, version], activeDesignId: version.id };
+}
+
+function reviveCharacter(char: StoredCharacter): StoredCharacter {
+  const revived = {
+    ...char,
+    lastUsed: new Date(char.lastUsed),
+    designVersions: char.designVersions?.map(version => ({ ...version, createdAt: new Date(version.createdAt) })),
+    turnaround: char.turnaround && { ...char.turnaround, createdAt: new Date(char.turnaround.createdAt) },
+  };
+
+  // Characters saved before design history start with their current design as the only version
+  if (!revived.designVersions && revived.generatedDesignImage) {
+    revived.designVersions = [{
+      id: 'design-initial',
+      image: revived.generatedDesignImage,
+      description: revived.generatedDescription,
+      createdAt: revived.lastUsed,
+    }];
+    revived.activeDesignId = 'design-initial';
+  }
+  return revived;
+}
+
 class CharacterStorage {
-  private getStoredCharacters(): StoredCharacter[] {
-    try {
-      const stored = localStorage.getItem(CHARACTER_STORAGE_KEY);
-      if (!stored) return [];
-      
-      const characters = JSON.parse(stored) as StoredCharacter[];
-      return characters.map(char => ({
+  private migration: Promise<void> | null = null;
+
+  // Every public method waits for the one-time localStorage migration
+  private ready(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.migrateFromLocalStorage().catch(error => {
+        console.error('[CHARACTER_STORAGE] Migration from localStorage failed:', error);
+      });
+    }
+    return this.migration;
+  }
+
+  private async migrateFromLocalStorage(): Promise<void> {
+    if (typeof localStorage === 'undefined') return;
+    if (await getSetting<boolean>(MIGRATION_SETTING_KEY)) return;
+
+    const raw = localStorage.getItem(LEGACY_CHARACTER_STORAGE_KEY);
+    if (raw) {
+      const characters = (JSON.parse(raw) as StoredCharacter[]).map(char => ({
         ...char,
         lastUsed: new Date(char.lastUsed)
       }));
-    } catch (error) {
-      console.error('[CHARACTER_STORAGE] Error loading characters:', error);
-      return [];
+      await this.writeCharacters(characters);
+      localStorage.removeItem(LEGACY_CHARACTER_STORAGE_KEY);
+      console.log(`[CHARACTER_STORAGE] Migrated ${characters.length} characters from localStorage to IndexedDB`);
     }
+
+    await setSetting(MIGRATION_SETTING_KEY, true);
   }
 
-  private saveStoredCharacters(characters: StoredCharacter[]): void {
+  private async readCharacters(): Promise<StoredCharacter[]> {
+    const db = await openDatabase();
+    const records = await requestToPromise<CharacterRecord[]>(
+      db.transaction(STORES.characters).objectStore(STORES.characters).getAll()
+    );
+    const characters = await Promise.all(records.map(record => restoreImages(record)));
+    return characters.map(({ nameKey, ...char }) => reviveCharacter(char));
+  }
+
+  private async readCharacter(characterId: string): Promise<StoredCharacter | null> {
+    const db = await openDatabase();
+    const record = await requestToPromise<CharacterRecord | undefined>(
+      db.transaction(STORES.characters).objectStore(STORES.characters).get(characterId)
+    );
+    if (!record) return null;
+
+    const { nameKey, ...char } = await restoreImages(record);
+    return reviveCharacter(char);
+  }
+
+  private async writeCharacters(characters: StoredCharacter[]): Promise<void> {
+    const prepared = characters.map(char => {
+      const owner = characterImageOwner(char.id);
+      const { record, images } = extractImages<CharacterRecord>(
+        { ...char, nameKey: char.name.toLowerCase() },
+        owner
+      );
+      return { owner, record, images };
+    });
+
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.characters, STORES.images], 'readwrite');
+    prepared.forEach(({ owner, record, images }) => {
+      transaction.objectStore(STORES.characters).put(record);
+      writeImages(transaction, owner, images);
+    });
+    await transactionDone(transaction);
+  }
+
+  async saveCharacters(characters: Character[]): Promise<void> {
+    await this.ready();
+    console.log('[CHARACTER_STORAGE] Saving characters:', characters.map(c => c.name));
+
     try {
-      // Sort by usage count and last used, keep only the most recent/popular
-      const sortedCharacters = characters
-        .sort((a, b) => {
-          // Primary sort by usage count (descending)
-          if (a.usageCount !== b.usageCount) {
-            return b.usageCount - a.usageCount;
-          }
-          // Secondary sort by last used (most recent first)
-          return new Date(b.lastUsed).getTime() - new Date(a.lastUsed).getTime();
-        })
-        .slice(0, MAX_CHARACTERS);
-
-      localStorage.setItem(CHARACTER_STORAGE_KEY, JSON.stringify(sortedCharacters));
-      console.log(`[CHARACTER_STORAGE] Saved ${sortedCharacters.length} characters`);
+      const existing = await this.readCharacters();
+      const now = new Date();
+      const changed: StoredCharacter[] = [];
+      const claimed = new Set<string>();
+
+      characters.forEach(newChar => {
+        // Skip characters without generated designs
+        if (!newChar.generatedDesignImage && !newChar.base64Image) {
+          return;
+        }
+
+        // Match by id; fall back to the name only for characters not saved before,
+        // and never match two characters in one save to the same record
+        const existingChar =
+          existing.find(c => c.id === newChar.id) ||
+          existing.find(c =>
+            !claimed.has(c.id) &&
+            !characters.some(other => other.id === c.id) &&
+            c.name.toLowerCase() === newChar.name.toLowerCase()
+          );
+        if (existingChar) claimed.add(existingChar.id);
+
+        if (existingChar) {
+          // Update existing character, keeping its stored id and design history
+          const history = recordDesignVersion(existingChar, now);
+          changed.push(recordDesignVersion({
+            ...history,
+            ...newChar,
+            id: existingChar.id,
+            designVersions: history.designVersions,
+            lastUsed: now,
+            usageCount: existingChar.usageCount + 1,
+          }, now));
+        } else {
+          // Add new character
+          changed.push(recordDesignVersion({
+            ...newChar,
+            lastUsed: now,
+            usageCount: 1,
+          }, now));
+        }
+      });
+
+      await this.writeCharacters(changed);
+      console.log(`[CHARACTER_STORAGE] Saved ${changed.length} characters`);
     } catch (error) {
       console.error('[CHARACTER_STORAGE] Error saving characters:', error);
-      // If storage is full, try to clean up old characters
-      this.cleanupOldCharacters();
     }
   }
 
-  private cleanupOldCharacters(): void {
+  async getStoredCharacterByName(name: string): Promise<StoredCharacter | null> {
+    await this.ready();
     try {
-      const characters = this.getStoredCharacters();
-      // Keep only the most recently used characters (reduce to 30)
-      const recentCharacters = characters
-        .sort((a, b) => new Date(b.lastUsed).getTime() - new Date(a.lastUsed).getTime())
-        .slice(0, 30);
-      
-      localStorage.setItem(CHARACTER_STORAGE_KEY, JSON.stringify(recentCharacters));
-      console.log(`[CHARACTER_STORAGE] Cleaned up to ${recentCharacters.length} characters`);
+      const db = await openDatabase();
+      const record = await requestToPromise<CharacterRecord | undefined>(
+        db.transaction(STORES.characters).objectStore(STORES.characters).index('nameKey').get(name.toLowerCase())
+      );
+      if (!record) return null;
+
+      const { nameKey, ...char } = await restoreImages(record);
+      return reviveCharacter(char);
     } catch (error) {
-      console.error('[CHARACTER_STORAGE] Error during cleanup:', error);
-      // As last resort, clear all characters
-      localStorage.removeItem(CHARACTER_STORAGE_KEY);
+      console.error('[CHARACTER_STORAGE] Error loading character:', error);
+      return null;
     }
   }
 
-  saveCharacters(characters: Character[]): void {
-    console.log('[CHARACTER_STORAGE] Saving characters:', characters.map(c => c.name));
-    
-    const existing = this.getStoredCharacters();
-    const now = new Date();
-    
-    const updatedCharacters: StoredCharacter[] = [...existing];
-    
-    characters.forEach(newChar => {
-      // Skip characters without generated designs
-      if (!newChar.generatedDesignImage && !newChar.base64Image) {
-        return;
+  // Applies an edit to one stored character; returns the saved character or null
+  private async modifyCharacter(
+    characterId: string,
+    modify: (char: StoredCharacter) => StoredCharacter
+  ): Promise<StoredCharacter | null> {
+    await this.ready();
+    try {
+      const char = await this.readCharacter(characterId);
+      if (!char) {
+        console.warn(`[CHARACTER_STORAGE] Character not found: ${characterId}`);
+        return null;
       }
 
-      const existingIndex = updatedCharacters.findIndex(c => 
-        c.name.toLowerCase() === newChar.name.toLowerCase() ||
-        c.id === newChar.id
-      );
+      const updated = modify(char);
+      await this.writeCharacters([updated]);
+      return updated;
+    } catch (error) {
+      console.error(`[CHARACTER_STORAGE] Error updating character ${characterId}:`, error);
+      return null;
+    }
+  }
 
-      if (existingIndex >= 0) {
-        // Update existing character
-        updatedCharacters[existingIndex] = {
-          ...updatedCharacters[existingIndex],
-          ...newChar,
-          lastUsed: now,
-          usageCount: updatedCharacters[existingIndex].usageCount + 1,
-        };
-      } else {
-        // Add new character
-        updatedCharacters.push({
-          ...newChar,
-          lastUsed: now,
-          usageCount: 1,
-        });
-      }
+  async updateCharacter(
+    characterId: string,
+    updates: Partial<Pick<Character, 'name' | 'description' | 'generatedDescription'>>
+  ): Promise<StoredCharacter | null> {
+    console.log(`[CHARACTER_STORAGE] Updating character ${characterId}:`, Object.keys(updates));
+    return this.modifyCharacter(characterId, char => ({
+      ...char,
+      ...updates,
+      name: updates.name?.trim() || char.name,
+    }));
+  }
+
+  // Stores a newly generated design as a version and makes it the active one.
+  // Turnarounds are drawn from a specific design, so switching designs drops them.
+  async addDesignVersion(characterId: string, image: string): Promise<StoredCharacter | null> {
+    return this.modifyCharacter(characterId, char =>
+      recordDesignVersion({ ...recordDesignVersion(char), generatedDesignImage: image, turnaround: undefined })
+    );
+  }
+
+  async setTurnaround(characterId: string, turnaround: CharacterTurnaround): Promise<StoredCharacter | null> {
+    return this.modifyCharacter(characterId, char => ({ ...char, turnaround }));
+  }
+
+  async setActiveDesign(characterId: string, versionId: string): Promise<StoredCharacter | null> {
+    return this.modifyCharacter(characterId, char => {
+      const version = char.designVersions?.find(v => v.id === versionId);
+      if (!version || version.id === recordDesignVersion(char).activeDesignId) return char;
+      return {
+        ...char,
+        turnaround: undefined,
+        activeDesignId: version.id,
+        generatedDesignImage: version.image,
+        generatedDescription: version.description || char.generatedDescription,
+      };
     });
+  }
 
-    this.saveStoredCharacters(updatedCharacters);
+  // The active design cannot be deleted; pick another one first
+  async deleteDesignVersion(characterId: string, versionId: string): Promise<StoredCharacter | null> {
+    return this.modifyCharacter(characterId, char => {
+      if (recordDesignVersion(char).activeDesignId === versionId) return char;
+      return {
+        ...char,
+        designVersions: char.designVersions?.filter(v => v.id !== versionId),
+      };
+    });
   }
 
-  getStoredCharacterByName(name: string): StoredCharacter | null {
-    const characters = this.getStoredCharacters();
-    return characters.find(c => 
-      c.name.toLowerCase() === name.toLowerCase()
-    ) || null;
+  async deleteCharacter(characterId: string): Promise<boolean> {
+    await this.ready();
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction([STORES.characters, STORES.images], 'readwrite');
+      transaction.objectStore(STORES.characters).delete(characterId);
+      deleteImages(transaction, characterImageOwner(characterId));
+      await transactionDone(transaction);
+
+      console.log(`[CHARACTER_STORAGE] Deleted character: ${characterId}`);
+      return true;
+    } catch (error) {
+      console.error(`[CHARACTER_STORAGE] Error deleting character ${characterId}:`, error);
+      return false;
+    }
   }
 
-  getAllStoredCharacters(): StoredCharacter[] {
-    return this.getStoredCharacters();
+  async getAllStoredCharacters(): Promise<StoredCharacter[]> {
+    await this.ready();
+    try {
+      return await this.readCharacters();
+    } catch (error) {
+      console.error('[CHARACTER_STORAGE] Error loading characters:', error);
+      return [];
+    }
   }
 
-  getPopularCharacters(limit: number = 10): StoredCharacter[] {
-    return this.getStoredCharacters()
+  async getPopularCharacters(limit: number = 10): Promise<StoredCharacter[]> {
+    return (await this.getAllStoredCharacters())
       .sort((a, b) => b.usageCount - a.usageCount)
       .slice(0, limit);
   }
 
-  getRecentCharacters(limit: number = 10): StoredCharacter[] {
-    return this.getStoredCharacters()
+  async getRecentCharacters(limit: number = 10): Promise<StoredCharacter[]> {
+    return (await this.getAllStoredCharacters())
       .sort((a, b) => new Date(b.lastUsed).getTime() - new Date(a.lastUsed).getTime())
       .slice(0, limit);
   }
 
-  // Load characters for use in story generation
-  loadCharactersForStory(characterNames: string[]): Character[] {
-    console.log('[CHARACTER_STORAGE] Loading characters for story:', characterNames);
-    
-    const stored = this.getStoredCharacters();
+  // Load characters for use in story generation, in the order given.
+  // Matches by id first, then by name, using each stored character at most once.
+  async loadCharactersForStory(characters: Pick<Character, 'id' | 'name'>[]): Promise<Character[]> {
+    console.log('[CHARACTER_STORAGE] Loading characters for story:', characters.map(c => c.name));
+
+    const stored = await this.getAllStoredCharacters();
     const loadedCharacters: Character[] = [];
-    
-    characterNames.forEach(name => {
-      const storedChar = stored.find(c => 
-        c.name.toLowerCase() === name.toLowerCase()
-      );
-      
+    const used: StoredCharacter[] = [];
+    const claimed = new Set(
+      characters.map(char => char.id).filter(id => stored.some(c => c.id === id))
+    );
+
+    characters.forEach(({ id, name }) => {
+      const storedChar =
+        stored.find(c => c.id === id) ||
+        stored.find(c => !claimed.has(c.id) && c.name.toLowerCase() === name.toLowerCase());
+      if (storedChar) claimed.add(storedChar.id);
+
       if (storedChar) {
         console.log(`[CHARACTER_STORAGE] Found stored character: ${storedChar.name}`);
-        loadedCharacters.push({
-          id: storedChar.id,
-          name: storedChar.name,
-          description: storedChar.description,
-          generatedDescription: storedChar.generatedDescription,
-          generatedDesignImage: storedChar.generatedDesignImage,
-          base64Image: storedChar.base64Image,
-          mimeType: storedChar.mimeType,
-          designApproved: storedChar.designApproved,
-          generatedArtwork: storedChar.generatedArtwork
-        });
-        
+        // Design history stays in storage; stories only need the active design
+        const { lastUsed, usageCount, designVersions, ...character } = storedChar;
+        loadedCharacters.push(character);
+
         // Update usage stats
-        storedChar.lastUsed = new Date();
-        storedChar.usageCount++;
+        used.push({ ...storedChar, lastUsed: new Date(), usageCount: usageCount + 1 });
       } else {
         console.log(`[CHARACTER_STORAGE] Character not found in storage: ${name}`);
         // Create a new character entry
         loadedCharacters.push({
-          id: `char-${Math.random().toString(36).substr(2, 9)}`,
+          id: id || `char-${Math.random().toString(36).substr(2, 9)}`,
           name: name,
         });
       }
     });
-    
+
     // Save updated usage stats
-    this.saveStoredCharacters(stored);
-    
+    try {
+      await this.writeCharacters(used);
+    } catch (error) {
+      console.error('[CHARACTER_STORAGE] Error updating usage stats:', error);
+    }
+
     return loadedCharacters;
   }
 
-  clearAllCharacters(): void {
-    localStorage.removeItem(CHARACTER_STORAGE_KEY);
-    console.log('[CHARACTER_STORAGE] Cleared all stored characters');
+  async clearAllCharacters(): Promise<void> {
+    await this.ready();
+    try {
+      const db = await openDatabase();
+      const characters = await this.readCharacters();
+      const transaction = db.transaction([STORES.characters, STORES.images], 'readwrite');
+      transaction.objectStore(STORES.characters).clear();
+      characters.forEach(char => writeImages(transaction, characterImageOwner(char.id), []));
+      await transactionDone(transaction);
+      console.log('[CHARACTER_STORAGE] Cleared all stored characters');
+    } catch (error) {
+      console.error('[CHARACTER_STORAGE] Error clearing characters:', error);
+    }
   }
 
-  getStorageInfo(): { count: number, totalSize: string } {
+  async getStorageInfo(): Promise<{ count: number, totalSize: string }> {
     try {
-      const stored = localStorage.getItem(CHARACTER_STORAGE_KEY);
-      const characters = this.getStoredCharacters();
-      const sizeInBytes = stored ? new Blob([stored]).size : 0;
+      const characters = await this.getAllStoredCharacters();
+      const sizeInBytes = new Blob([JSON.stringify(characters)]).size;
       const sizeInMB = (sizeInBytes / (1024 * 1024)).toFixed(2);
-      
+
       return {
         count: characters.length,
         totalSize: `${sizeInMB} MB`
@@ -195,4 +399,4 @@ class CharacterStorage {
   }
 }
 
-export const characterStorage = new CharacterStorage();
\ No newline at end of file
+export const characterStorage = new CharacterStorage();
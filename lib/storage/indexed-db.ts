@@ -0,0 +1,294 @@
+const DB_NAME = 'memorytales';
+const DB_VERSION = 2;
+
+export const STORES = {
+  storyMeta: 'story_meta',
+  storyContent: 'story_content',
+  characters: 'characters',
+  images: 'images',
+  settings: 'settings',
+  readers: 'readers',
+  readingHistory: 'reading_history',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Image strings inside stored records are replaced by these references
+const IMAGE_REF_PREFIX = 'idb-image:';
+// Same, for bare base64 fields (e.g. Character.base64Image) that have no data URL prefix
+const RAW_IMAGE_REF_PREFIX = 'idb-image-raw:';
+
+interface ImageRecord {
+  key: string;
+  owner: string;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!isIndexedDBAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let blocked = false;
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+
+        if (!db.objectStoreNames.contains(STORES.storyMeta)) {
+          const storyMeta = db.createObjectStore(STORES.storyMeta, { keyPath: 'id' });
+          storyMeta.createIndex('createdAt', 'createdAt');
+          storyMeta.createIndex('theme', 'theme');
+          storyMeta.createIndex('style', 'style');
+        }
+        if (!db.objectStoreNames.contains(STORES.storyContent)) {
+          db.createObjectStore(STORES.storyContent, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.characters)) {
+          const characters = db.createObjectStore(STORES.characters, { keyPath: 'id' });
+          characters.createIndex('nameKey', 'nameKey');
+          characters.createIndex('lastUsed', 'lastUsed');
+          characters.createIndex('usageCount', 'usageCount');
+        }
+        if (!db.objectStoreNames.contains(STORES.images)) {
+          const images = db.createObjectStore(STORES.images, { keyPath: 'key' });
+          images.createIndex('owner', 'owner');
+        }
+        if (!db.objectStoreNames.contains(STORES.settings)) {
+          db.createObjectStore(STORES.settings, { keyPath: 'key' });
+        }
+        // Added in version 2
+        if (!db.objectStoreNames.contains(STORES.readers)) {
+          db.createObjectStore(STORES.readers, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.readingHistory)) {
+          const history = db.createObjectStore(STORES.readingHistory, { keyPath: ['readerId', 'storyId'] });
+          history.createIndex('readerId', 'readerId');
+          history.createIndex('storyId', 'storyId');
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // The caller was already told to retry, so this late connection is not kept
+        if (blocked) {
+          db.close();
+          return;
+        }
+
+        // Let a newer version of the app in another tab upgrade the database
+        db.onversionchange = () => {
+          console.warn('[INDEXED_DB] Closing the database for an upgrade in another tab');
+          db.close();
+          dbPromise = null;
+        };
+        db.onclose = () => {
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error('Failed to open IndexedDB'));
+      };
+      // Another tab still holds the older version open and did not close it
+      request.onblocked = () => {
+        console.warn('[INDEXED_DB] Upgrade blocked by another open tab');
+        blocked = true;
+        dbPromise = null;
+        reject(new Error('Close other MemoryTales tabs so your library can be updated, then try again'));
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+}
+
+export async function getSetting<T>(key: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  const record = await requestToPromise(
+    db.transaction(STORES.settings).objectStore(STORES.settings).get(key)
+  );
+  return record?.value as T | undefined;
+}
+
+export async function setSetting<T>(key: string, value: T): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.settings, 'readwrite');
+  transaction.objectStore(STORES.settings).put({ key, value });
+  await transactionDone(transaction);
+}
+
+function base64ToBlob(base64: string, mimeType: string): Blob {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function isBase64DataUrl(value: string): boolean {
+  return value.startsWith('data:') && value.includes(';base64,');
+}
+
+/**
+ * Deep-copies a record, moving every base64 data URL (and bare base64Image fields)
+ * out into Blobs. The returned record holds short references instead of image data.
+ */
+export function extractImages<T>(record: T, owner: string): { record: T; images: ImageRecord[] } {
+  const images: ImageRecord[] = [];
+
+  const walk = (value: any, path: string, parent?: any, field?: string): any => {
+    if (typeof value === 'string') {
+      if (isBase64DataUrl(value)) {
+        const [header, data] = value.split(',');
+        const mimeType = header.match(/data:([^;]+)/)?.[1] || 'image/png';
+        const key = `${owner}/${path}`;
+        images.push({ key, owner, blob: base64ToBlob(data, mimeType) });
+        return `${IMAGE_REF_PREFIX}${key}`;
+      }
+      if (field === 'base64Image' && parent?.mimeType && value.length > 0) {
+        const key = `${owner}/${path}`;
+        images.push({ key, owner, blob: base64ToBlob(value, parent.mimeType) });
+        return `${RAW_IMAGE_REF_PREFIX}${key}`;
+      }
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => walk(item, `${path}.${index}`));
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date) && !(value instanceof Blob)) {
+      const copy: Record<string, any> = {};
+      Object.entries(value).forEach(([key, child]) => {
+        copy[key] = walk(child, path ? `${path}.${key}` : key, value, key);
+      });
+      return copy;
+    }
+    return value;
+  };
+
+  return { record: walk(record, ''), images };
+}
+
+function collectImageRefs(value: any, refs: Set<string>): void {
+  if (typeof value === 'string') {
+    if (value.startsWith(IMAGE_REF_PREFIX)) refs.add(value.slice(IMAGE_REF_PREFIX.length));
+    if (value.startsWith(RAW_IMAGE_REF_PREFIX)) refs.add(value.slice(RAW_IMAGE_REF_PREFIX.length));
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectImageRefs(item, refs));
+  } else if (value && typeof value === 'object' && !(value instanceof Date) && !(value instanceof Blob)) {
+    Object.values(value).forEach(child => collectImageRefs(child, refs));
+  }
+}
+
+/**
+ * Reverses extractImages: loads the referenced Blobs and puts data URLs (or bare
+ * base64 for base64Image fields) back in place. Missing images become undefined.
+ */
+export async function restoreImages<T>(record: T): Promise<T> {
+  const refs = new Set<string>();
+  collectImageRefs(record, refs);
+  if (refs.size === 0) return record;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.images);
+  const store = transaction.objectStore(STORES.images);
+  const blobs = await Promise.all(
+    Array.from(refs).map(async key => {
+      const image = await requestToPromise<ImageRecord | undefined>(store.get(key));
+      return [key, image?.blob] as const;
+    })
+  );
+
+  const dataUrls = new Map<string, string>();
+  await Promise.all(
+    blobs.map(async ([key, blob]) => {
+      if (blob) dataUrls.set(key, await blobToDataUrl(blob));
+    })
+  );
+
+  const walk = (value: any): any => {
+    if (typeof value === 'string') {
+      if (value.startsWith(IMAGE_REF_PREFIX)) {
+        return dataUrls.get(value.slice(IMAGE_REF_PREFIX.length));
+      }
+      if (value.startsWith(RAW_IMAGE_REF_PREFIX)) {
+        return dataUrls.get(value.slice(RAW_IMAGE_REF_PREFIX.length))?.split(',')[1];
+      }
+      return value;
+    }
+    if (Array.isArray(value)) return value.map(walk);
+    if (value && typeof value === 'object' && !(value instanceof Date) && !(value instanceof Blob)) {
+      const copy: Record<string, any> = {};
+      Object.entries(value).forEach(([key, child]) => {
+        copy[key] = walk(child);
+      });
+      return copy;
+    }
+    return value;
+  };
+
+  return walk(record);
+}
+
+// Queues puts for a record's images, replacing any images it previously owned
+export function writeImages(transaction: IDBTransaction, owner: string, images: ImageRecord[]): void {
+  const store = transaction.objectStore(STORES.images);
+  store.index('owner').openCursor(IDBKeyRange.only(owner)).onsuccess = function () {
+    const cursor = this.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    } else {
+      images.forEach(image => store.put(image));
+    }
+  };
+}
+
+export function deleteImages(transaction: IDBTransaction, owner: string): void {
+  writeImages(transaction, owner, []);
+}
+
+// Queues deletes for every row whose index matches the key
+export function deleteByIndex(transaction: IDBTransaction, store: StoreName, index: string, key: IDBValidKey): void {
+  transaction.objectStore(store).index(index).openCursor(IDBKeyRange.only(key)).onsuccess = function () {
+    const cursor = this.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+}
@@ -0,0 +1,201 @@
+import { GeneratedStory, ReaderProfile, ReadingRecord } from "@/lib/types";
+import {
+  STORES,
+  deleteByIndex,
+  getSetting,
+  openDatabase,
+  requestToPromise,
+  setSetting,
+  transactionDone,
+} from "./indexed-db";
+
+const ACTIVE_READER_SETTING_KEY = 'active_reader_id';
+
+function reviveReader(reader: ReaderProfile): ReaderProfile {
+  return { ...reader, createdAt: new Date(reader.createdAt) };
+}
+
+function reviveRecord(record: ReadingRecord): ReadingRecord {
+  return {
+    ...record,
+    firstReadAt: new Date(record.firstReadAt),
+    lastReadAt: new Date(record.lastReadAt),
+  };
+}
+
+class ReaderStorage {
+  async getAllReaders(): Promise<ReaderProfile[]> {
+    try {
+      const db = await openDatabase();
+      const readers = await requestToPromise<ReaderProfile[]>(
+        db.transaction(STORES.readers).objectStore(STORES.readers).getAll()
+      );
+      return readers.map(reviveReader).sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('[READER_STORAGE] Error loading readers:', error);
+      return [];
+    }
+  }
+
+  async getReader(readerId: string): Promise<ReaderProfile | null> {
+    try {
+      const db = await openDatabase();
+      const reader = await requestToPromise<ReaderProfile | undefined>(
+        db.transaction(STORES.readers).objectStore(STORES.readers).get(readerId)
+      );
+      return reader ? reviveReader(reader) : null;
+    } catch (error) {
+      console.error(`[READER_STORAGE] Error loading reader ${readerId}:`, error);
+      return null;
+    }
+  }
+
+  async saveReader(reader: ReaderProfile): Promise<boolean> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(STORES.readers, 'readwrite');
+      transaction.objectStore(STORES.readers).put({ ...reader, name: reader.name.trim() });
+      await transactionDone(transaction);
+      console.log(`[READER_STORAGE] Saved reader: ${reader.name}`);
+      return true;
+    } catch (error) {
+      console.error('[READER_STORAGE] Error saving reader:', error);
+      return false;
+    }
+  }
+
+  // Also forgets the reader's history
+  async deleteReader(readerId: string): Promise<boolean> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction([STORES.readers, STORES.readingHistory], 'readwrite');
+      transaction.objectStore(STORES.readers).delete(readerId);
+      deleteByIndex(transaction, STORES.readingHistory, 'readerId', readerId);
+      await transactionDone(transaction);
+
+      if ((await this.getActiveReaderId()) === readerId) {
+        await this.setActiveReaderId(null);
+      }
+      console.log(`[READER_STORAGE] Deleted reader: ${readerId}`);
+      return true;
+    } catch (error) {
+      console.error(`[READER_STORAGE] Error deleting reader ${readerId}:`, error);
+      return false;
+    }
+  }
+
+  // The child who is using the app right now; their reading is recorded
+  async getActiveReaderId(): Promise<string | null> {
+    try {
+      return (await getSetting<string | null>(ACTIVE_READER_SETTING_KEY)) || null;
+    } catch (error) {
+      console.error('[READER_STORAGE] Error loading active reader:', error);
+      return null;
+    }
+  }
+
+  async setActiveReaderId(readerId: string | null): Promise<void> {
+    try {
+      await setSetting(ACTIVE_READER_SETTING_KEY, readerId);
+    } catch (error) {
+      console.error('[READER_STORAGE] Error saving active reader:', error);
+    }
+  }
+
+  // Reads and writes a record in one transaction, so concurrent updates from other tabs can't be lost.
+  // update returns the record to store, or null to leave it as it is.
+  private async updateRecord(
+    readerId: string,
+    storyId: string,
+    update: (existing: ReadingRecord | null) => ReadingRecord | null
+  ): Promise<ReadingRecord | null> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.readingHistory, 'readwrite');
+    const store = transaction.objectStore(STORES.readingHistory);
+
+    const stored = await requestToPromise<ReadingRecord | undefined>(store.get([readerId, storyId]));
+    const existing = stored ? reviveRecord(stored) : null;
+    const updated = update(existing);
+    if (updated) {
+      store.put(updated);
+    }
+
+    await transactionDone(transaction);
+    return updated || existing;
+  }
+
+  // Called when a book is opened; every opening after the first counts as a re-read
+  async startReading(readerId: string, story: GeneratedStory, pageCount: number): Promise<ReadingRecord | null> {
+    try {
+      const now = new Date();
+      return await this.updateRecord(readerId, story.id, (existing) => existing
+        ? {
+            ...existing,
+            storyTitle: story.title,
+            pageCount,
+            lastPage: 0,
+            timesOpened: existing.timesOpened + 1,
+            lastReadAt: now,
+          }
+        : {
+            readerId,
+            storyId: story.id,
+            storyTitle: story.title,
+            pageCount,
+            lastPage: 0,
+            furthestPage: 0,
+            timesOpened: 1,
+            timesFinished: 0,
+            firstReadAt: now,
+            lastReadAt: now,
+          }
+      );
+    } catch (error) {
+      console.error(`[READER_STORAGE] Error starting reading of ${story.id}:`, error);
+      return null;
+    }
+  }
+
+  // pagesRead is how many of the viewer's pages have been shown in this reading
+  async recordProgress(readerId: string, storyId: string, pagesRead: number): Promise<ReadingRecord | null> {
+    try {
+      return await this.updateRecord(readerId, storyId, (record) => {
+        if (!record || pagesRead <= record.lastPage) return null;
+
+        const lastPage = Math.min(pagesRead, record.pageCount);
+        const justFinished = lastPage >= record.pageCount;
+        return {
+          ...record,
+          lastPage,
+          furthestPage: Math.max(record.furthestPage, lastPage),
+          timesFinished: record.timesFinished + (justFinished ? 1 : 0),
+          lastReadAt: new Date(),
+        };
+      });
+    } catch (error) {
+      console.error(`[READER_STORAGE] Error saving progress for ${storyId}:`, error);
+      return null;
+    }
+  }
+
+  // Most recently read first
+  async getReadingHistory(readerId: string): Promise<ReadingRecord[]> {
+    try {
+      const db = await openDatabase();
+      const records = await requestToPromise<ReadingRecord[]>(
+        db.transaction(STORES.readingHistory)
+          .objectStore(STORES.readingHistory)
+          .index('readerId')
+          .getAll(readerId)
+      );
+      return records
+        .map(reviveRecord)
+        .sort((a, b) => b.lastReadAt.getTime() - a.lastReadAt.getTime());
+    } catch (error) {
+      console.error(`[READER_STORAGE] Error loading history for ${readerId}:`, error);
+      return [];
+    }
+  }
+}
+
+export const readerStorage = new ReaderStorage();
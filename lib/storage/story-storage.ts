@@ -1,8 +1,24 @@
-import { GeneratedStory } from "@/lib/types";
+import { GeneratedStory, StoryStyle, StoryTheme } from "@/lib/types";
+import { resolveStoryCharacters } from "@/lib/ai-services/character-resolver";
+import {
+  STORES,
+  blobToDataUrl,
+  deleteByIndex,
+  deleteImages,
+  extractImages,
+  getSetting,
+  openDatabase,
+  requestToPromise,
+  restoreImages,
+  setSetting,
+  transactionDone,
+  writeImages,
+} from "./indexed-db";
 
-const STORY_STORAGE_KEY = 'memorytales_stories';
-const MAX_STORIES = 10; // Limit to prevent localStorage overflow
-const MAX_STORAGE_SIZE_MB = 50; // Maximum 50MB for stories
+// Legacy localStorage keys, read once during migration
+const LEGACY_STORY_STORAGE_KEY = 'memorytales_stories';
+const MIGRATION_SETTING_KEY = 'migrated_local_storage_stories';
+const THUMBNAIL_SIZE = 256;
 
 export interface StoredStory {
   id: string;
@@ -11,278 +27,313 @@ export interface StoredStory {
   config: GeneratedStory['config'];
   characterCount: number;
   pageCount: number;
-  thumbnailImage?: string; // Base64 encoded thumbnail
+  thumbnailImage?: string; // Data URL of a small thumbnail
   storageSize: number; // Size in bytes
+  characterNames: string[];
+  searchText: string; // Lower-cased title, character names, narration and dialogue
 }
 
 export interface FullStoredStory extends StoredStory {
   story: GeneratedStory;
 }
 
+// Metadata row; theme/style are lifted out of config so they can be indexed
+interface StoryMetaRecord extends Omit<StoredStory, 'thumbnailImage'> {
+  theme: StoryTheme;
+  style: StoryStyle;
+  thumbnail?: Blob;
+}
+
+function storyImageOwner(storyId: string): string {
+  return `story/${storyId}`;
+}
+
+function getSearchFields(story: GeneratedStory): { characterNames: string[]; searchText: string } {
+  const characterNames = story.characters.map(character => character.name).filter(Boolean);
+  const text = [
+    story.title,
+    ...characterNames,
+    ...story.pages.flatMap(page => page.panels.flatMap(panel => [panel.narration || '', ...(panel.dialogue || [])])),
+  ];
+  return { characterNames, searchText: text.join(' ').replace(/\s+/g, ' ').toLowerCase() };
+}
+
+// Shrinks the first illustration to a small JPEG so the library list stays light
+async function createThumbnail(story: GeneratedStory): Promise<Blob | undefined> {
+  const source = story.coverImage || story.pages.flatMap(page => page.panels).find(panel => panel.imageUrl)?.imageUrl;
+  if (!source || typeof document === 'undefined') return undefined;
+
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Failed to load thumbnail source'));
+      img.src = source;
+    });
+
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob | undefined>(resolve => {
+      canvas.toBlob(blob => resolve(blob || undefined), 'image/jpeg', 0.8);
+    });
+  } catch (error) {
+    console.error('[STORY_STORAGE] Error generating thumbnail:', error);
+    return undefined;
+  }
+}
+
 class StoryStorage {
-  private getStoredStoryMetas(): StoredStory[] {
-    try {
-      const stored = localStorage.getItem(STORY_STORAGE_KEY + '_meta');
-      if (!stored) return [];
-      
-      const stories = JSON.parse(stored) as StoredStory[];
-      return stories.map(story => ({
-        ...story,
-        createdAt: new Date(story.createdAt)
-      }));
-    } catch (error) {
-      console.error('[STORY_STORAGE] Error loading story metadata:', error);
-      return [];
+  private migration: Promise<void> | null = null;
+
+  // Every public method waits for the one-time localStorage migration
+  private ready(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.migrateFromLocalStorage().catch(error => {
+        console.error('[STORY_STORAGE] Migration from localStorage failed:', error);
+      });
     }
+    return this.migration;
   }
 
-  private saveStoredStoryMetas(stories: StoredStory[]): void {
-    try {
-      // Sort by creation date (newest first) and limit count
-      const sortedStories = stories
-        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-        .slice(0, MAX_STORIES);
+  private async migrateFromLocalStorage(): Promise<void> {
+    if (typeof localStorage === 'undefined') return;
+    if (await getSetting<boolean>(MIGRATION_SETTING_KEY)) return;
 
-      localStorage.setItem(STORY_STORAGE_KEY + '_meta', JSON.stringify(sortedStories));
-      console.log(`[STORY_STORAGE] Saved metadata for ${sortedStories.length} stories`);
-    } catch (error) {
-      console.error('[STORY_STORAGE] Error saving story metadata:', error);
-      this.cleanupOldStories();
+    const metaRaw = localStorage.getItem(LEGACY_STORY_STORAGE_KEY + '_meta');
+    const legacyIds: string[] = metaRaw ? (JSON.parse(metaRaw) as { id: string }[]).map(meta => meta.id) : [];
+
+    // Also pick up story blobs whose metadata was dropped by the old cleanup
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(`${LEGACY_STORY_STORAGE_KEY}_`) && key !== LEGACY_STORY_STORAGE_KEY + '_meta') {
+        const id = key.slice(LEGACY_STORY_STORAGE_KEY.length + 1);
+        if (!legacyIds.includes(id)) legacyIds.push(id);
+      }
     }
-  }
 
-  private getStorageUsage(): number {
-    try {
-      let totalSize = 0;
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key && key.startsWith(STORY_STORAGE_KEY)) {
-          const value = localStorage.getItem(key);
-          if (value) {
-            totalSize += new Blob([value]).size;
-          }
-        }
+    let migrated = 0;
+    for (const id of legacyIds) {
+      const raw = localStorage.getItem(`${LEGACY_STORY_STORAGE_KEY}_${id}`);
+      if (!raw) continue;
+
+      try {
+        const story = JSON.parse(raw) as GeneratedStory;
+        story.createdAt = new Date(story.createdAt);
+        await this.writeStory(story);
+        localStorage.removeItem(`${LEGACY_STORY_STORAGE_KEY}_${id}`);
+        migrated++;
+      } catch (error) {
+        // Leave the legacy entry in place so nothing is lost
+        console.error(`[STORY_STORAGE] Failed to migrate story ${id}:`, error);
       }
-      return totalSize;
-    } catch (error) {
-      console.error('[STORY_STORAGE] Error calculating storage usage:', error);
-      return 0;
     }
-  }
 
-  private cleanupOldStories(): void {
-    try {
-      console.log('[STORY_STORAGE] Starting cleanup of old stories...');
-      const stories = this.getStoredStoryMetas();
-      
-      // Sort by date and keep only the most recent ones
-      const recentStories = stories
-        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-        .slice(0, Math.floor(MAX_STORIES / 2)); // Keep half of the max
-      
-      // Remove old story data from localStorage
-      const oldStoryIds = stories
-        .filter(s => !recentStories.find(rs => rs.id === s.id))
-        .map(s => s.id);
-      
-      oldStoryIds.forEach(storyId => {
-        localStorage.removeItem(`${STORY_STORAGE_KEY}_${storyId}`);
-      });
-      
-      // Update metadata
-      this.saveStoredStoryMetas(recentStories);
-      
-      console.log(`[STORY_STORAGE] Cleaned up ${oldStoryIds.length} old stories`);
-    } catch (error) {
-      console.error('[STORY_STORAGE] Error during cleanup:', error);
-      // Last resort: clear all stories
-      this.clearAllStories();
+    if (migrated === legacyIds.length) {
+      localStorage.removeItem(LEGACY_STORY_STORAGE_KEY + '_meta');
     }
+    await setSetting(MIGRATION_SETTING_KEY, true);
+    console.log(`[STORY_STORAGE] Migrated ${migrated} stories from localStorage to IndexedDB`);
   }
 
-  private generateThumbnail(story: GeneratedStory): string | undefined {
-    try {
-      // Use the first panel image as thumbnail if available
-      for (const page of story.pages) {
-        for (const panel of page.panels) {
-          if (panel.imageUrl) {
-            return panel.imageUrl;
-          }
-        }
-      }
-      return undefined;
-    } catch (error) {
-      console.error('[STORY_STORAGE] Error generating thumbnail:', error);
-      return undefined;
-    }
+  private async writeStory(story: GeneratedStory): Promise<number> {
+    const owner = storyImageOwner(story.id);
+    const storageSize = new Blob([JSON.stringify(story)]).size;
+    const thumbnail = await createThumbnail(story);
+    const { record: content, images } = extractImages(story, owner);
+
+    const meta: StoryMetaRecord = {
+      id: story.id,
+      title: story.title,
+      createdAt: new Date(story.createdAt),
+      config: story.config,
+      theme: story.config.theme,
+      style: story.config.style,
+      characterCount: story.characters.length,
+      pageCount: story.pages.length,
+      thumbnail,
+      storageSize,
+      ...getSearchFields(story),
+    };
+
+    // All Blobs are prepared up front: a transaction cannot span other async work
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.storyMeta, STORES.storyContent, STORES.images], 'readwrite');
+    transaction.objectStore(STORES.storyMeta).put(meta);
+    transaction.objectStore(STORES.storyContent).put(content);
+    writeImages(transaction, owner, images);
+    await transactionDone(transaction);
+
+    return storageSize;
+  }
+
+  private async toStoredStory(meta: StoryMetaRecord): Promise<StoredStory> {
+    const { thumbnail, theme, style, ...rest } = meta;
+    return {
+      ...rest,
+      createdAt: new Date(meta.createdAt),
+      thumbnailImage: thumbnail ? await blobToDataUrl(thumbnail) : undefined,
+    };
   }
 
-  saveStory(story: GeneratedStory): boolean {
+  async saveStory(story: GeneratedStory): Promise<boolean> {
+    await this.ready();
     try {
       console.log('[STORY_STORAGE] Saving story:', story.title);
-      
-      // Check if we have enough space
-      const currentUsage = this.getStorageUsage();
-      const maxSizeBytes = MAX_STORAGE_SIZE_MB * 1024 * 1024;
-      
-      if (currentUsage > maxSizeBytes * 0.8) { // If we're using 80% of max
-        console.warn('[STORY_STORAGE] Storage nearly full, cleaning up...');
-        this.cleanupOldStories();
-      }
-      
-      // Generate story metadata
-      const storageSize = new Blob([JSON.stringify(story)]).size;
-      const thumbnail = this.generateThumbnail(story);
-      
-      const storyMeta: StoredStory = {
-        id: story.id,
-        title: story.title,
-        createdAt: story.createdAt,
-        config: story.config,
-        characterCount: story.characters.length,
-        pageCount: story.pages.length,
-        thumbnailImage: thumbnail,
-        storageSize: storageSize
-      };
-      
-      // Save the full story data
-      localStorage.setItem(`${STORY_STORAGE_KEY}_${story.id}`, JSON.stringify(story));
-      
-      // Update metadata
-      const existingMetas = this.getStoredStoryMetas();
-      const existingIndex = existingMetas.findIndex(s => s.id === story.id);
-      
-      if (existingIndex >= 0) {
-        existingMetas[existingIndex] = storyMeta;
-      } else {
-        existingMetas.push(storyMeta);
-      }
-      
-      this.saveStoredStoryMetas(existingMetas);
-      
+      const storageSize = await this.writeStory(story);
       console.log(`[STORY_STORAGE] Story saved successfully (${(storageSize / 1024).toFixed(1)} KB)`);
       return true;
-      
     } catch (error) {
       console.error('[STORY_STORAGE] Error saving story:', error);
-      
-      if (error instanceof Error && error.name === 'QuotaExceededError') {
-        console.warn('[STORY_STORAGE] Storage quota exceeded, attempting cleanup...');
-        this.cleanupOldStories();
-        
-        // Try one more time after cleanup
-        try {
-          localStorage.setItem(`${STORY_STORAGE_KEY}_${story.id}`, JSON.stringify(story));
-          return true;
-        } catch (retryError) {
-          console.error('[STORY_STORAGE] Failed to save even after cleanup');
-          return false;
-        }
-      }
-      
       return false;
     }
   }
 
-  loadStory(storyId: string): GeneratedStory | null {
+  async loadStory(storyId: string): Promise<GeneratedStory | null> {
+    await this.ready();
     try {
-      const stored = localStorage.getItem(`${STORY_STORAGE_KEY}_${storyId}`);
-      if (!stored) {
+      const db = await openDatabase();
+      const content = await requestToPromise<GeneratedStory | undefined>(
+        db.transaction(STORES.storyContent).objectStore(STORES.storyContent).get(storyId)
+      );
+      if (!content) {
         console.warn(`[STORY_STORAGE] Story not found: ${storyId}`);
         return null;
       }
-      
-      const story = JSON.parse(stored) as GeneratedStory;
-      // Convert date string back to Date object
+
+      const story = await restoreImages(content);
       story.createdAt = new Date(story.createdAt);
-      
+
+      // Stories saved before character ids list names in panels; map them to ids
+      const hasLegacyPanels = story.pages.some(page =>
+        page.panels.some(panel => panel.characters.some(ref => !story.characters.some(char => char.id === ref)))
+      );
+      if (hasLegacyPanels) {
+        story.pages = resolveStoryCharacters(story.pages, story.characters).pages;
+      }
+
       console.log(`[STORY_STORAGE] Loaded story: ${story.title}`);
       return story;
-      
     } catch (error) {
       console.error(`[STORY_STORAGE] Error loading story ${storyId}:`, error);
       return null;
     }
   }
 
-  getAllStoredStories(): StoredStory[] {
-    return this.getStoredStoryMetas()
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  // Newest first, read straight off the createdAt index
+  async getAllStoredStories(): Promise<StoredStory[]> {
+    await this.ready();
+    try {
+      const db = await openDatabase();
+      const metas = await requestToPromise<StoryMetaRecord[]>(
+        db.transaction(STORES.storyMeta).objectStore(STORES.storyMeta).index('createdAt').getAll()
+      );
+      return Promise.all(metas.reverse().map(meta => this.toStoredStory(meta)));
+    } catch (error) {
+      console.error('[STORY_STORAGE] Error loading story metadata:', error);
+      return [];
+    }
   }
 
-  deleteStory(storyId: string): boolean {
+  async findStories(filter: { theme?: StoryTheme; style?: StoryStyle }): Promise<StoredStory[]> {
+    await this.ready();
     try {
-      // Remove story data
-      localStorage.removeItem(`${STORY_STORAGE_KEY}_${storyId}`);
-      
-      // Update metadata
-      const metas = this.getStoredStoryMetas();
-      const updatedMetas = metas.filter(s => s.id !== storyId);
-      this.saveStoredStoryMetas(updatedMetas);
-      
+      const db = await openDatabase();
+      const store = db.transaction(STORES.storyMeta).objectStore(STORES.storyMeta);
+      const metas = filter.theme
+        ? await requestToPromise<StoryMetaRecord[]>(store.index('theme').getAll(filter.theme))
+        : filter.style
+          ? await requestToPromise<StoryMetaRecord[]>(store.index('style').getAll(filter.style))
+          : await requestToPromise<StoryMetaRecord[]>(store.getAll());
+
+      const matches = metas
+        .filter(meta => !filter.style || meta.style === filter.style)
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      return Promise.all(matches.map(meta => this.toStoredStory(meta)));
+    } catch (error) {
+      console.error('[STORY_STORAGE] Error querying stories:', error);
+      return [];
+    }
+  }
+
+  async deleteStory(storyId: string): Promise<boolean> {
+    await this.ready();
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(
+        [STORES.storyMeta, STORES.storyContent, STORES.images, STORES.readingHistory],
+        'readwrite'
+      );
+      transaction.objectStore(STORES.storyMeta).delete(storyId);
+      transaction.objectStore(STORES.storyContent).delete(storyId);
+      deleteImages(transaction, storyImageOwner(storyId));
+      deleteByIndex(transaction, STORES.readingHistory, 'storyId', storyId);
+      await transactionDone(transaction);
+
       console.log(`[STORY_STORAGE] Deleted story: ${storyId}`);
       return true;
-      
     } catch (error) {
       console.error(`[STORY_STORAGE] Error deleting story ${storyId}:`, error);
       return false;
     }
   }
 
-  clearAllStories(): void {
+  async clearAllStories(): Promise<void> {
+    await this.ready();
     try {
-      // Remove all story-related keys
-      const keysToRemove: string[] = [];
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key && key.startsWith(STORY_STORAGE_KEY)) {
-          keysToRemove.push(key);
-        }
+      const stories = await this.getAllStoredStories();
+      for (const story of stories) {
+        await this.deleteStory(story.id);
       }
-      
-      keysToRemove.forEach(key => localStorage.removeItem(key));
-      
-      console.log(`[STORY_STORAGE] Cleared ${keysToRemove.length} story entries`);
+      console.log(`[STORY_STORAGE] Cleared ${stories.length} stories`);
     } catch (error) {
       console.error('[STORY_STORAGE] Error clearing stories:', error);
     }
   }
 
-  getStorageInfo(): { 
+  async getStorageInfo(): Promise<{
     storyCount: number;
     totalSize: string;
     usagePercent: number;
     availableSpace: string;
-  } {
+  }> {
     try {
-      const stories = this.getStoredStoryMetas();
-      const totalSizeBytes = this.getStorageUsage();
-      const maxSizeBytes = MAX_STORAGE_SIZE_MB * 1024 * 1024;
-      const usagePercent = Math.round((totalSizeBytes / maxSizeBytes) * 100);
-      const availableBytes = maxSizeBytes - totalSizeBytes;
-      
+      const stories = await this.getAllStoredStories();
+      const totalSizeBytes = stories.reduce((acc, story) => acc + story.storageSize, 0);
+
+      // The browser decides the quota for IndexedDB; ask it when we can
+      const estimate = typeof navigator !== 'undefined' && navigator.storage?.estimate
+        ? await navigator.storage.estimate()
+        : {};
+      const quota = estimate.quota || 0;
+      const usage = estimate.usage || totalSizeBytes;
+      const availableBytes = Math.max(0, quota - usage);
+
       return {
         storyCount: stories.length,
         totalSize: `${(totalSizeBytes / (1024 * 1024)).toFixed(2)} MB`,
-        usagePercent: usagePercent,
+        usagePercent: quota ? Math.round((usage / quota) * 100) : 0,
         availableSpace: `${(availableBytes / (1024 * 1024)).toFixed(2)} MB`
       };
     } catch (error) {
-      return { 
-        storyCount: 0, 
-        totalSize: '0 MB', 
+      return {
+        storyCount: 0,
+        totalSize: '0 MB',
         usagePercent: 0,
-        availableSpace: `${MAX_STORAGE_SIZE_MB} MB`
+        availableSpace: '0 MB'
       };
     }
   }
 
   // Check if we have enough space for a new story
-  canStoreNewStory(estimatedSizeMB: number = 5): boolean {
-    const info = this.getStorageInfo();
+  async canStoreNewStory(estimatedSizeMB: number = 5): Promise<boolean> {
+    const info = await this.getStorageInfo();
     const availableMB = parseFloat(info.availableSpace.replace(' MB', ''));
     return availableMB >= estimatedSizeMB;
   }
 }
 
-export const storyStorage = new StoryStorage();
\ No newline at end of file
+export const storyStorage = new StoryStorage();
@@ -0,0 +1,41 @@
+import { AgeGroup, ReadingLevel, StoryStyle, StoryTheme } from "@/lib/types";
+
+// Labels shared by the story form, the library filters and anywhere else a choice is shown
+
+export const STORY_THEMES: { value: StoryTheme; label: string; emoji: string }[] = [
+  { value: 'funny', label: 'Funny & Hilarious', emoji: '😂' },
+  { value: 'adventurous', label: 'Action & Adventure', emoji: '🏃‍♀️' },
+  { value: 'educational', label: 'Learning & Discovery', emoji: '🧠' },
+  { value: 'magical', label: 'Magical & Fantasy', emoji: '✨' },
+  { value: 'mystery', label: 'Mystery & Detective', emoji: '🔍' },
+];
+
+export const STORY_STYLES: { value: StoryStyle; label: string; desc: string }[] = [
+  { value: 'comic', label: 'Comic Book', desc: 'Bold panels with speech bubbles' },
+  { value: 'picture_book', label: 'Picture Book', desc: 'Classic illustrated story format' },
+  { value: 'fairy_tale', label: 'Fairy Tale', desc: 'Enchanted storybook style' },
+  { value: 'graphic_novel', label: 'Graphic Novel', desc: 'Modern visual storytelling' },
+  { value: 'pop_up', label: 'Pop-up Style', desc: 'Interactive 3D elements' },
+];
+
+export const AGE_GROUPS: { value: AgeGroup; label: string; desc: string }[] = [
+  { value: '3-5', label: 'Ages 3-5', desc: 'Preschool - Simple stories with basic concepts' },
+  { value: '6-8', label: 'Ages 6-8', desc: 'Early readers - Elementary vocabulary' },
+  { value: '9-12', label: 'Ages 9-12', desc: 'Middle grade - More complex adventures' },
+  { value: '13+', label: 'Ages 13+', desc: 'Young adult - Advanced themes and vocabulary' },
+];
+
+export const READING_LEVELS: { value: ReadingLevel; label: string; desc: string }[] = [
+  { value: 'listener', label: 'Listener', desc: 'Stories are read aloud to them' },
+  { value: 'beginner', label: 'Beginner', desc: 'Sounds out short words' },
+  { value: 'independent', label: 'Independent', desc: 'Reads simple books alone' },
+  { value: 'confident', label: 'Confident', desc: 'Reads longer books with ease' },
+];
+
+export function getThemeLabel(theme: StoryTheme): string {
+  return STORY_THEMES.find(option => option.value === theme)?.label || theme;
+}
+
+export function getStyleLabel(style: StoryStyle): string {
+  return STORY_STYLES.find(option => option.value === style)?.label || style;
+}
@@ -1,6 +1,11 @@
 export type StoryTheme = "funny" | "adventurous" | "educational" | "magical" | "mystery"
 export type StoryStyle = "comic" | "picture_book" | "fairy_tale" | "graphic_novel" | "pop_up"
 export type AgeGroup = "3-5" | "6-8" | "9-12" | "13+"
+// "baked": the model paints text into the picture; "overlay": text-free art with HTML text on top
+export type TextRenderMode = "baked" | "overlay"
+export type StoryLanguage = "en" | "es" | "fr" | "de" | "it" | "pt" | "hi" | "zh" | "ja" | "ar"
+// How well the child reads on their own; shapes sentence length and word choice
+export type ReadingLevel = "listener" | "beginner" | "independent" | "confident"
 
 export interface StoryConfig {
   prompt: string
@@ -11,6 +16,79 @@ export interface StoryConfig {
   characterCount: number
   pageCount?: number
   targetAge?: AgeGroup
+  textMode?: TextRenderMode // Stories saved before this option existed are "baked"
+  language?: StoryLanguage // Language the story is written in, defaults to English
+  outline?: StoryOutline // Approved before the script is written; one page per beat
+  budget?: number // Most the book may spend on AI calls, in USD; no limit when unset
+  coverVideo?: boolean // Animate the cover once the book is done, defaults to on
+  reader?: StoryReader // The child the book is for, used to personalize the story
+}
+
+// A child the books are made for
+export interface ReaderProfile {
+  id: string
+  name: string
+  age: number
+  favoriteThemes: StoryTheme[]
+  readingLevel: ReadingLevel
+  recurringCharacters: string[] // Names of saved characters that star in this child's stories
+  createdAt: Date
+}
+
+// The part of a reader profile the story is written for; kept with the story
+export type StoryReader = Pick<ReaderProfile, "id" | "name" | "age" | "favoriteThemes" | "readingLevel">
+
+// How one child has read one book. Pages count the viewer's pages, cover included
+export interface ReadingRecord {
+  readerId: string
+  storyId: string
+  storyTitle: string
+  pageCount: number
+  lastPage: number // Pages reached in the latest reading
+  furthestPage: number // Most pages reached in any reading
+  timesOpened: number
+  timesFinished: number
+  firstReadAt: Date
+  lastReadAt: Date
+}
+
+// One page of a story outline
+export interface StoryBeat {
+  id: string
+  summary: string
+}
+
+export interface StoryOutline {
+  title: string
+  titleOptions: string[]
+  beats: StoryBeat[] // In reading order
+}
+
+// Limits a parent locks behind a PIN; stories outside them cannot be created
+export interface ParentalControls {
+  allowedAgeGroups: AgeGroup[]
+  allowedThemes: StoryTheme[]
+  maxPageCount: number
+  allowPhotoUploads: boolean
+  allowCoverVideos: boolean
+}
+
+// One generated design kept in a character's history
+export interface CharacterDesignVersion {
+  id: string
+  image: string // Data URL
+  description?: string // generatedDescription at the time the design was made
+  createdAt: Date
+}
+
+export type CharacterPose = "front" | "side" | "back"
+export type CharacterExpression = "happy" | "sad" | "surprised"
+
+// Extra reference drawings of one design; any view may be missing if its generation failed
+export interface CharacterTurnaround {
+  poses: Partial<Record<CharacterPose, string>> // Data URLs
+  expressions: Partial<Record<CharacterExpression, string>> // Data URLs
+  createdAt: Date
 }
 
 export interface Character {
@@ -25,18 +103,42 @@ export interface Character {
   generatedDescription?: string
   generatedDesignImage?: string // The actual character design for consistency
   designApproved?: boolean // User approval status
+  // Saved designs; the active one is mirrored into generatedDesignImage
+  designVersions?: CharacterDesignVersion[]
+  activeDesignId?: string
+  turnaround?: CharacterTurnaround // Drawn from the active design
   // Legacy field for backward compatibility
   generatedArtwork?: string
 }
 
+// Position of a text box in percent of the page, measured from the top-left corner
+export interface TextBoxPlacement {
+  x: number
+  y: number
+  width: number
+}
+
+export interface PanelTextLayout {
+  narration?: TextBoxPlacement
+  dialogue?: TextBoxPlacement[] // One entry per dialogue line
+}
+
 export interface Panel {
   id: string
   title?: string
   description: string
-  characters: string[]
+  characters: string[] // Character ids; stories saved before ids were used hold names
+  unresolvedCharacters?: string[] // Names from the model that matched no character
   imageUrl?: string
   dialogue?: string[]
   narration?: string
+  textLayout?: PanelTextLayout // Custom overlay positions, defaults are used when missing
+  consistency?: PanelConsistency // Review of the current art against the character designs
+}
+
+export interface PanelConsistency {
+  score: number // 0-100, how closely the characters match their approved designs
+  issues: string[]
 }
 
 export interface StoryPage {
@@ -45,6 +147,19 @@ export interface StoryPage {
   pageNumber: number
 }
 
+export interface PanelTranslation {
+  dialogue: string[]
+  narration: string
+}
+
+export interface StoryTranslation {
+  language: StoryLanguage
+  title: string
+  panels: PanelTranslation[][] // Indexed like pages[pageIndex].panels[panelIndex]
+  createdAt: Date
+  source: string // Fingerprint of the original text it was made from
+}
+
 export interface GeneratedStory {
   id: string
   config: StoryConfig
@@ -55,12 +170,28 @@ export interface GeneratedStory {
   coverImage?: string // Base64 encoded cover image
   coverVideo?: string // URL to the generated cover video
   coverVideoRequestId?: string // FAL request ID for video generation
+  translations?: Partial<Record<StoryLanguage, StoryTranslation>>
+  usage?: UsageEntry[] // Every AI call made for this book
+}
+
+// One AI call, with the cost estimated from the model's list prices
+export interface UsageEntry {
+  purpose: string // e.g. "story" or "panel-illustration"
+  model: string
+  inputTokens: number
+  outputTokens: number
+  images: number
+  videoSeconds: number
+  cost: number // USD
+  createdAt: string // ISO time
 }
 
 export enum GenerationState {
   INPUT = 'input',
   CHARACTER_SETUP = 'character_setup',
   CHARACTER_DESIGN = 'character_design',
+  OUTLINE_REVIEW = 'outline_review',
+  SCRIPT_REVIEW = 'script_review',
   GENERATING = 'generating', 
   COMPLETED = 'completed'
 }
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { StoryConfig } from "@/lib/types";
+import { DEFAULT_GEMINI_MODELS } from "@/lib/ai-services/providers";
+import { DEFAULT_WORK_QUEUE_OPTIONS } from "@/lib/ai-services/work-queue";
+import { CONSISTENCY_REVIEW_CONCURRENCY } from "@/lib/ai-services/story-generator";
+import { VIDEO_MODEL } from "@/lib/ai-services/video-generator";
+import { estimateCost } from "./pricing";
+
+// The script asks for 2-3 panels per page
+const AVERAGE_PANELS_PER_PAGE = 2.5;
+// Share of pictures that need another attempt after a failed or blocked call
+const IMAGE_RETRY_RATE = 0.15;
+const COVER_VIDEO_SECONDS = 8;
+
+// Typical sizes of each kind of call, taken from real books
+const TOKENS_PER_REFERENCE_IMAGE = 258;
+const PLANNING_CALL_TOKENS = { inputTokens: 1500, outputTokens: 1500 };
+const SCRIPT_TOKENS_PER_PAGE = { inputTokens: 400, outputTokens: 600 };
+const REVIEW_CALL_TOKENS = { inputTokens: 800, outputTokens: 200 };
+const IMAGE_PROMPT_TOKENS = 800;
+
+// Typical wall-clock time of each kind of call, in seconds
+const TEXT_CALL_SECONDS = 10;
+const IMAGE_CALL_SECONDS = 20;
+const VIDEO_RENDER_SECONDS = 120;
+
+export interface StoryEstimate {
+  textCalls: number;
+  imageCalls: number;
+  videoSeconds: number;
+  cost: number;
+  durationSeconds: number;
+}
+
+/**
+ * Projects what a book will cost and how long it will take from its settings alone:
+ * character designs, outline, script, panel pictures with their character checks,
+ * the cover and the optional cover video, plus an allowance for retried pictures.
+ */
+export function estimateStory(config: StoryConfig): StoryEstimate {
+  const characters = Math.max(1, config.characterCount);
+  const pages = config.outline?.beats.length || config.pageCount || 5;
+  const panels = Math.ceil(pages * AVERAGE_PANELS_PER_PAGE);
+  const withVideo = config.coverVideo !== false;
+
+  // Character descriptions, outline, safety checks of the idea and the script, the script
+  // itself, then one character check per panel
+  const planningCalls = 4;
+  const textCalls = planningCalls + 1 + panels;
+  const firstAttempts = characters + panels + 1;
+  const imageCalls = firstAttempts + Math.round(firstAttempts * IMAGE_RETRY_RATE);
+  const videoSeconds = withVideo ? COVER_VIDEO_SECONDS : 0;
+
+  const referenceTokens = characters * TOKENS_PER_REFERENCE_IMAGE;
+  const cost =
+    planningCalls * estimateCost(DEFAULT_GEMINI_MODELS.text, PLANNING_CALL_TOKENS) +
+    estimateCost(DEFAULT_GEMINI_MODELS.text, {
+      inputTokens: PLANNING_CALL_TOKENS.inputTokens + pages * SCRIPT_TOKENS_PER_PAGE.inputTokens,
+      outputTokens: pages * SCRIPT_TOKENS_PER_PAGE.outputTokens,
+    }) +
+    panels *
+      estimateCost(DEFAULT_GEMINI_MODELS.text, {
+        inputTokens: REVIEW_CALL_TOKENS.inputTokens + referenceTokens + TOKENS_PER_REFERENCE_IMAGE,
+        outputTokens: REVIEW_CALL_TOKENS.outputTokens,
+      }) +
+    imageCalls *
+      estimateCost(DEFAULT_GEMINI_MODELS.image, {
+        inputTokens: IMAGE_PROMPT_TOKENS + referenceTokens,
+        images: 1,
+      }) +
+    estimateCost(VIDEO_MODEL, { videoSeconds });
+
+  // Designs are drawn one at a time; panels run in parallel under the rate limit
+  const { concurrency, requestsPerMinute } = DEFAULT_WORK_QUEUE_OPTIONS;
+  const panelSeconds = Math.max(
+    Math.ceil(panels / concurrency) * IMAGE_CALL_SECONDS,
+    (panels / requestsPerMinute) * 60
+  );
+  const durationSeconds =
+    characters * IMAGE_CALL_SECONDS +
+    (planningCalls + 1) * TEXT_CALL_SECONDS +
+    panelSeconds +
+    Math.ceil(panels / CONSISTENCY_REVIEW_CONCURRENCY) * TEXT_CALL_SECONDS +
+    (imageCalls - firstAttempts + 1) * IMAGE_CALL_SECONDS +
+    (withVideo ? VIDEO_RENDER_SECONDS : 0);
+
+  return { textCalls, imageCalls, videoSeconds, cost, durationSeconds };
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return 'under a minute';
+  const minutes = Math.round(seconds / 60);
+  return `about ${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,55 @@
+// List prices in USD used to estimate what each AI call costs. Update when providers
+// change their pricing; unknown models fall back to the default rates.
+
+export interface ModelPricing {
+  inputPerMillion: number; // Per million prompt tokens
+  outputPerMillion: number; // Per million response tokens
+  perImage: number;
+  perVideoSecond: number;
+}
+
+export const DEFAULT_PRICING: ModelPricing = {
+  inputPerMillion: 0.3,
+  outputPerMillion: 2.5,
+  perImage: 0.039,
+  perVideoSecond: 0.4,
+};
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0, perVideoSecond: 0 },
+  // Image output is billed per image; the tokens reported for it are not charged again
+  'gemini-2.5-flash-image-preview': { inputPerMillion: 0.3, outputPerMillion: 0, perImage: 0.039, perVideoSecond: 0 },
+  'fal-ai/veo3/fast/image-to-video': { inputPerMillion: 0, outputPerMillion: 0, perImage: 0, perVideoSecond: 0.4 },
+  // The offline provider is free
+  fixture: { inputPerMillion: 0, outputPerMillion: 0, perImage: 0, perVideoSecond: 0 },
+};
+
+export interface UsageAmounts {
+  inputTokens?: number;
+  outputTokens?: number;
+  images?: number;
+  videoSeconds?: number;
+}
+
+export function getModelPricing(model: string): ModelPricing {
+  return MODEL_PRICING[model] || DEFAULT_PRICING;
+}
+
+export function estimateCost(model: string, usage: UsageAmounts): number {
+  const pricing = getModelPricing(model);
+  return (
+    ((usage.inputTokens || 0) / 1_000_000) * pricing.inputPerMillion +
+    ((usage.outputTokens || 0) / 1_000_000) * pricing.outputPerMillion +
+    (usage.images || 0) * pricing.perImage +
+    (usage.videoSeconds || 0) * pricing.perVideoSecond
+  );
+}
+
+// Rough token count for text that has not been sent yet
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? '< $0.01' : `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,95 @@
+import { UsageEntry } from "@/lib/types";
+import { UsageAmounts, estimateCost, formatCost } from "./pricing";
+
+export class BudgetExceededError extends Error {
+  constructor(budget: number) {
+    super(`Stopped to stay within this book's ${formatCost(budget)} budget`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export interface UsageSummary {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  videoSeconds: number;
+  totalCost: number;
+  // Most expensive purpose first
+  byPurpose: { purpose: string; calls: number; cost: number }[];
+}
+
+/**
+ * Records the AI calls made for one book. Calls reserve their estimated cost up front so
+ * that parallel requests cannot jointly overshoot the budget.
+ */
+export class UsageLedger {
+  readonly budget?: number;
+  private entries: UsageEntry[];
+  private reserved = 0;
+
+  constructor(options: { entries?: UsageEntry[]; budget?: number } = {}) {
+    this.entries = [...(options.entries || [])];
+    this.budget = options.budget && options.budget > 0 ? options.budget : undefined;
+  }
+
+  getEntries(): UsageEntry[] {
+    return [...this.entries];
+  }
+
+  getTotalCost(): number {
+    return this.entries.reduce((acc, entry) => acc + entry.cost, 0);
+  }
+
+  // Throws BudgetExceededError if the call could take the book over budget; otherwise
+  // returns a function that gives the reservation back once the call has finished
+  reserve(estimatedCost: number): () => void {
+    if (this.budget !== undefined && this.getTotalCost() + this.reserved + estimatedCost > this.budget) {
+      throw new BudgetExceededError(this.budget);
+    }
+
+    this.reserved += estimatedCost;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.reserved -= estimatedCost;
+    };
+  }
+
+  record(purpose: string, model: string, usage: UsageAmounts): UsageEntry {
+    const entry: UsageEntry = {
+      purpose,
+      model,
+      inputTokens: usage.inputTokens || 0,
+      outputTokens: usage.outputTokens || 0,
+      images: usage.images || 0,
+      videoSeconds: usage.videoSeconds || 0,
+      cost: estimateCost(model, usage),
+      createdAt: new Date().toISOString(),
+    };
+    this.entries.push(entry);
+    return entry;
+  }
+}
+
+export function summarizeUsage(entries: UsageEntry[] = []): UsageSummary {
+  const byPurpose = new Map<string, { purpose: string; calls: number; cost: number }>();
+
+  entries.forEach((entry) => {
+    const group = byPurpose.get(entry.purpose) || { purpose: entry.purpose, calls: 0, cost: 0 };
+    group.calls++;
+    group.cost += entry.cost;
+    byPurpose.set(entry.purpose, group);
+  });
+
+  return {
+    calls: entries.length,
+    inputTokens: entries.reduce((acc, entry) => acc + entry.inputTokens, 0),
+    outputTokens: entries.reduce((acc, entry) => acc + entry.outputTokens, 0),
+    images: entries.reduce((acc, entry) => acc + entry.images, 0),
+    videoSeconds: entries.reduce((acc, entry) => acc + entry.videoSeconds, 0),
+    totalCost: entries.reduce((acc, entry) => acc + entry.cost, 0),
+    byPurpose: Array.from(byPurpose.values()).sort((a, b) => b.cost - a.cost),
+  };
+}